@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "moderatedById" INTEGER,
+ADD COLUMN     "moderationReason" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'PENDING';
+
+-- Istniejące zgłoszenia były już publiczne - zostają zatwierdzone
+UPDATE "Report" SET "status" = 'APPROVED';
+
+-- CreateIndex
+CREATE INDEX "Report_status_createdAt_idx" ON "Report"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_moderatedById_fkey" FOREIGN KEY ("moderatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,91 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "bankAccountNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "BankAccount" (
+    "number" TEXT NOT NULL,
+    "countryCode" TEXT NOT NULL,
+    "trustScore" INTEGER NOT NULL DEFAULT 50,
+    "riskLevel" TEXT NOT NULL DEFAULT 'Nieznany',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankAccount_pkey" PRIMARY KEY ("number")
+);
+
+-- CreateTable
+CREATE TABLE "_BankAccountToCompany" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "_BankAccountToPerson" (
+    "A" TEXT NOT NULL,
+    "B" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "Report_bankAccountNumber_idx" ON "Report"("bankAccountNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_BankAccountToCompany_AB_unique" ON "_BankAccountToCompany"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_BankAccountToCompany_B_index" ON "_BankAccountToCompany"("B");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_BankAccountToPerson_AB_unique" ON "_BankAccountToPerson"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_BankAccountToPerson_B_index" ON "_BankAccountToPerson"("B");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_bankAccountNumber_fkey" FOREIGN KEY ("bankAccountNumber") REFERENCES "BankAccount"("number") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BankAccountToCompany" ADD CONSTRAINT "_BankAccountToCompany_A_fkey" FOREIGN KEY ("A") REFERENCES "BankAccount"("number") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BankAccountToCompany" ADD CONSTRAINT "_BankAccountToCompany_B_fkey" FOREIGN KEY ("B") REFERENCES "Company"("nip") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BankAccountToPerson" ADD CONSTRAINT "_BankAccountToPerson_A_fkey" FOREIGN KEY ("A") REFERENCES "BankAccount"("number") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BankAccountToPerson" ADD CONSTRAINT "_BankAccountToPerson_B_fkey" FOREIGN KEY ("B") REFERENCES "Person"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: polskie konta (NRB / PL + NRB) z poprawną sumą kontrolną
+CREATE TEMP TABLE "_account_backfill" AS
+SELECT "kind", "refId", "iban"
+FROM (
+    SELECT 'REPORT' AS "kind", "id" AS "refId",
+           upper(regexp_replace("bankAccount", '[^0-9A-Za-z]', '', 'g')) AS "raw"
+    FROM "Report" WHERE "bankAccount" IS NOT NULL
+    UNION ALL
+    SELECT 'PERSON', "id",
+           upper(regexp_replace("bankAccount", '[^0-9A-Za-z]', '', 'g'))
+    FROM "Person" WHERE "bankAccount" IS NOT NULL
+) AS src
+CROSS JOIN LATERAL (
+    SELECT CASE
+        WHEN src."raw" ~ '^[0-9]{26}$' THEN 'PL' || src."raw"
+        WHEN src."raw" ~ '^PL[0-9]{26}$' THEN src."raw"
+    END AS "iban"
+) AS n
+WHERE n."iban" IS NOT NULL
+  AND (substr(n."iban", 5) || '2521' || substr(n."iban", 3, 2))::numeric % 97 = 1;
+
+INSERT INTO "BankAccount" ("number", "countryCode", "updatedAt")
+SELECT DISTINCT "iban", 'PL', CURRENT_TIMESTAMP FROM "_account_backfill"
+ON CONFLICT DO NOTHING;
+
+UPDATE "Report" r SET "bankAccountNumber" = b."iban"
+FROM "_account_backfill" b
+WHERE b."kind" = 'REPORT' AND b."refId" = r."id";
+
+INSERT INTO "_BankAccountToPerson" ("A", "B")
+SELECT DISTINCT "iban", "refId" FROM "_account_backfill" WHERE "kind" = 'PERSON'
+ON CONFLICT DO NOTHING;
+
+DROP TABLE "_account_backfill";
@@ -0,0 +1,20 @@
+-- CreateIndex
+CREATE INDEX "Person_phone_idx" ON "Person"("phone");
+
+-- CreateIndex
+CREATE INDEX "Person_email_idx" ON "Person"("email");
+
+-- CreateIndex
+CREATE INDEX "Report_companyNip_idx" ON "Report"("companyNip");
+
+-- CreateIndex
+CREATE INDEX "Report_personId_idx" ON "Report"("personId");
+
+-- CreateIndex
+CREATE INDEX "Report_phoneNumber_idx" ON "Report"("phoneNumber");
+
+-- CreateIndex
+CREATE INDEX "Report_reportedEmail_idx" ON "Report"("reportedEmail");
+
+-- CreateIndex
+CREATE INDEX "Report_facebookLink_idx" ON "Report"("facebookLink");
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Person" ADD COLUMN     "mergedIntoId" INTEGER,
+ADD COLUMN     "normalizedName" TEXT;
+
+-- CreateTable
+CREATE TABLE "PersonMergeLog" (
+    "id" SERIAL NOT NULL,
+    "action" TEXT NOT NULL,
+    "sourceId" INTEGER NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "reportIds" INTEGER[],
+    "snapshot" JSONB,
+    "actorId" INTEGER,
+    "revertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PersonMergeLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Person_normalizedName_idx" ON "Person"("normalizedName");
+
+-- CreateIndex
+CREATE INDEX "PersonMergeLog_sourceId_idx" ON "PersonMergeLog"("sourceId");
+
+-- CreateIndex
+CREATE INDEX "PersonMergeLog_targetId_idx" ON "PersonMergeLog"("targetId");
+
+-- AddForeignKey
+ALTER TABLE "Person" ADD CONSTRAINT "Person_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "Person"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: to samo co normalizePersonName() w person-similarity.util.ts
+UPDATE "Person" SET "normalizedName" = trim(regexp_replace(
+    translate(lower("name"), 'ąćęłńóśźżáäéëíöüúý', 'acelnoszzaaeeiouuy'),
+    '[^a-z0-9]+', ' ', 'g'
+));
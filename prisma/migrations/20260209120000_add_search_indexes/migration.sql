@@ -0,0 +1,27 @@
+-- Wyszukiwanie rozmyte (trigramy) i pełnotekstowe - indeksy na wyrażeniach,
+-- których nie da się opisać w schema.prisma (używa ich SearchService)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "Person_normalizedName_trgm_idx" ON "Person" USING GIN ("normalizedName" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Person_email_trgm_idx" ON "Person" USING GIN (lower("email") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Company_name_trgm_idx" ON "Company" USING GIN (lower("name") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "BankAccount_number_trgm_idx" ON "BankAccount" USING GIN ("number" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Report_reportedEmail_trgm_idx" ON "Report" USING GIN (lower("reportedEmail") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Report_facebookLink_trgm_idx" ON "Report" USING GIN (lower("facebookLink") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Report_scammerName_trgm_idx" ON "Report" USING GIN (lower("scammerName") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Report_comment_fts_idx" ON "Report" USING GIN (to_tsvector('simple', coalesce("comment", '')));
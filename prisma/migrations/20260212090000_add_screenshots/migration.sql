@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "screenshotHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "Screenshot" (
+    "hash" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "thumbnailPath" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "perceptualHash" TEXT NOT NULL,
+    "similarToHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Screenshot_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Screenshot_path_key" ON "Screenshot"("path");
+
+-- CreateIndex
+CREATE INDEX "Screenshot_similarToHash_idx" ON "Screenshot"("similarToHash");
+
+-- CreateIndex
+CREATE INDEX "Report_screenshotHash_idx" ON "Report"("screenshotHash");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_screenshotHash_fkey" FOREIGN KEY ("screenshotHash") REFERENCES "Screenshot"("hash") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Screenshot" ADD CONSTRAINT "Screenshot_similarToHash_fkey" FOREIGN KEY ("similarToHash") REFERENCES "Screenshot"("hash") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ReportIdentifier" (
+    "id" SERIAL NOT NULL,
+    "reportId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "raw" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportIdentifier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportIdentifier_reportId_type_value_key" ON "ReportIdentifier"("reportId", "type", "value");
+
+-- CreateIndex
+CREATE INDEX "ReportIdentifier_type_value_idx" ON "ReportIdentifier"("type", "value");
+
+-- AddForeignKey
+ALTER TABLE "ReportIdentifier" ADD CONSTRAINT "ReportIdentifier_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Istniejące komentarze: npm run reports:extract-identifiers
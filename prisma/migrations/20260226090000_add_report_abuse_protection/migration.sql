@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "flags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Report_userId_createdAt_idx" ON "Report"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Report_ipAddress_createdAt_idx" ON "Report"("ipAddress", "createdAt");
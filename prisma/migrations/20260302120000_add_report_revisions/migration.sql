@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN "withdrawnAt" TIMESTAMP(3),
+ADD COLUMN "updatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ReportRevision" (
+    "id" SERIAL NOT NULL,
+    "reportId" INTEGER NOT NULL,
+    "editorId" INTEGER,
+    "action" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReportRevision_reportId_createdAt_idx" ON "ReportRevision"("reportId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReportRevision" ADD CONSTRAINT "ReportRevision_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportRevision" ADD CONSTRAINT "ReportRevision_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
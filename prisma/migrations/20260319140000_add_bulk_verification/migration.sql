@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "BulkVerificationJob" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "totalRows" INTEGER NOT NULL,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "failedRows" INTEGER NOT NULL DEFAULT 0,
+    "leaseUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BulkVerificationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BulkVerificationItem" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "row" INTEGER NOT NULL,
+    "type" TEXT,
+    "input" TEXT NOT NULL,
+    "value" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "trustScore" INTEGER,
+    "riskLevel" TEXT,
+    "alerts" TEXT[],
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BulkVerificationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BulkVerificationJob_status_createdAt_idx" ON "BulkVerificationJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BulkVerificationJob_userId_createdAt_idx" ON "BulkVerificationJob"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BulkVerificationItem_jobId_status_idx" ON "BulkVerificationItem"("jobId", "status");
+
+-- AddForeignKey
+ALTER TABLE "BulkVerificationJob" ADD CONSTRAINT "BulkVerificationJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulkVerificationItem" ADD CONSTRAINT "BulkVerificationItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "BulkVerificationJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "CompanyStatusEvent" (
+    "id" SERIAL NOT NULL,
+    "companyNip" TEXT NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CompanyStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CompanyStatusEvent_companyNip_detectedAt_idx" ON "CompanyStatusEvent"("companyNip", "detectedAt");
+
+-- AddForeignKey
+ALTER TABLE "CompanyStatusEvent" ADD CONSTRAINT "CompanyStatusEvent_companyNip_fkey" FOREIGN KEY ("companyNip") REFERENCES "Company"("nip") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ScreenshotUpload" (
+    "screenshotHash" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScreenshotUpload_pkey" PRIMARY KEY ("screenshotHash","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "ScreenshotUpload_userId_idx" ON "ScreenshotUpload"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ScreenshotUpload" ADD CONSTRAINT "ScreenshotUpload_screenshotHash_fkey" FOREIGN KEY ("screenshotHash") REFERENCES "Screenshot"("hash") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScreenshotUpload" ADD CONSTRAINT "ScreenshotUpload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Dotychczasowe zrzuty przypisujemy autorom zgłoszeń, które już je wskazują
+INSERT INTO "ScreenshotUpload" ("screenshotHash", "userId")
+SELECT DISTINCT "screenshotHash", "userId" FROM "Report"
+WHERE "screenshotHash" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,4 @@
+-- Zdarzenie report.created (niezmoderowane zgłoszenia) zostało usunięte
+UPDATE "WebhookSubscription"
+SET "events" = array_remove("events", 'report.created')
+WHERE 'report.created' = ANY("events");
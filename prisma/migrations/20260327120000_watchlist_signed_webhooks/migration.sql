@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "WatchlistEntry" ADD COLUMN "webhookSecret" TEXT;
+
+-- Istniejące adresy dostają sekret; właściciel odczyta go przez rotację
+UPDATE "WatchlistEntry"
+SET "webhookSecret" = 'whsec_' || replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+WHERE "webhookUrl" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ALTER COLUMN "subscriptionId" DROP NOT NULL,
+ADD COLUMN "watchlistEntryId" INTEGER;
+
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_target_check"
+    CHECK (("subscriptionId" IS NULL) <> ("watchlistEntryId" IS NULL));
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_watchlistEntryId_idx" ON "WebhookDelivery"("watchlistEntryId");
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_watchlistEntryId_fkey" FOREIGN KEY ("watchlistEntryId") REFERENCES "WatchlistEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Ponowny backfill zgodny z normalizePersonName() w person-similarity.util.ts:
+-- ł -> l, rozkład NFD i usunięcie znaków diakrytycznych (wszystkich, nie tylko
+-- z listy w translate), małe litery, wszystko poza [a-z0-9] -> spacja.
+UPDATE "Person" SET "normalizedName" = trim(regexp_replace(
+    lower(regexp_replace(
+        normalize(translate("name", 'łŁ', 'll'), NFD),
+        '[\u0300-\u036f]', '', 'g'
+    )),
+    '[^a-z0-9]+', ' ', 'g'
+));
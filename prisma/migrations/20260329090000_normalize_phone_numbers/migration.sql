@@ -0,0 +1,54 @@
+-- Numery telefonów w E.164, tak jak normalizePhone() w query-classifier.ts.
+-- Dotąd zgłoszenia zapisywały numer w postaci wpisanej przez autora ("500 600 700",
+-- "0048500600700"), a wyszukiwanie szuka po "+48500600700". W SQL obsługujemy
+-- tylko jednoznaczne przypadki: "+..."/"00..." oraz polskie numery 9-cyfrowe
+-- (z prefiksem 48 lub bez). Pozostałe zostają bez zmian.
+CREATE TEMP TABLE "_phone_map" AS
+SELECT "old", "new" FROM (
+    SELECT "old", CASE
+        WHEN "digits" ~ '^\+[0-9]{8,15}$' THEN "digits"
+        WHEN "digits" ~ '^00[0-9]{8,15}$' THEN '+' || substr("digits", 3)
+        WHEN "digits" ~ '^48[0-9]{9}$' THEN '+' || "digits"
+        WHEN "digits" ~ '^[0-9]{9}$' THEN '+48' || "digits"
+    END AS "new"
+    FROM (
+        SELECT "number" AS "old", regexp_replace("number", '[^0-9+]', '', 'g') AS "digits"
+        FROM "PhoneNumber"
+        UNION
+        SELECT "phoneNumber", regexp_replace("phoneNumber", '[^0-9+]', '', 'g')
+        FROM "Report" WHERE "phoneNumber" IS NOT NULL
+        UNION
+        SELECT "phone", regexp_replace("phone", '[^0-9+]', '', 'g')
+        FROM "Person" WHERE "phone" IS NOT NULL
+    ) AS "raw"
+) AS "mapped"
+WHERE "new" IS NOT NULL AND "new" <> "old";
+
+-- Kilka zapisów tego samego numeru scalamy w jeden wiersz (najstarszy wygrywa)
+INSERT INTO "PhoneNumber" ("number", "countryCode", "trustScore", "companyNip", "createdAt", "updatedAt")
+SELECT DISTINCT ON (m."new") m."new", p."countryCode", p."trustScore", p."companyNip", p."createdAt", now()
+FROM "_phone_map" m
+JOIN "PhoneNumber" p ON p."number" = m."old"
+ORDER BY m."new", p."createdAt"
+ON CONFLICT ("number") DO NOTHING;
+
+-- Powiązanie z firmą nie może zginąć przy scalaniu
+UPDATE "PhoneNumber" AS target
+SET "companyNip" = source."companyNip"
+FROM "_phone_map" m
+JOIN "PhoneNumber" source ON source."number" = m."old"
+WHERE target."number" = m."new"
+  AND target."companyNip" IS NULL
+  AND source."companyNip" IS NOT NULL;
+
+UPDATE "Report" r SET "phoneNumber" = m."new"
+FROM "_phone_map" m
+WHERE r."phoneNumber" = m."old";
+
+UPDATE "Person" p SET "phone" = m."new"
+FROM "_phone_map" m
+WHERE p."phone" = m."old";
+
+DELETE FROM "PhoneNumber" WHERE "number" IN (SELECT "old" FROM "_phone_map");
+
+DROP TABLE "_phone_map";
@@ -0,0 +1,7 @@
+-- report.created wraca, ale z okrojoną treścią (bez celu, oceny i opisu).
+-- Migracja 20260327090000 zostawiła subskrypcje bez żadnego zdarzenia - te miały
+-- tylko report.created. Przywracamy je, ale wyłączone: partner sam włącza
+-- subskrypcję (PATCH /webhooks/:id, active=true) po sprawdzeniu nowego formatu.
+UPDATE "WebhookSubscription"
+SET "events" = ARRAY['report.created'], "active" = false, "updatedAt" = now()
+WHERE cardinality("events") = 0;
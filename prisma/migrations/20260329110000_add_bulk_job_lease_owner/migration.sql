@@ -0,0 +1,2 @@
+-- Token instancji trzymającej lease - odnowienie i zapis wierszy tylko przez właściciela
+ALTER TABLE "BulkVerificationJob" ADD COLUMN "leaseOwner" TEXT;
@@ -0,0 +1,10 @@
+-- Minutowe okna limitu zapytań bez klucza API (per adres IP)
+CREATE TABLE "AnonymousRateWindow" (
+    "ip" TEXT NOT NULL,
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "AnonymousRateWindow_pkey" PRIMARY KEY ("ip","windowStart")
+);
+
+CREATE INDEX "AnonymousRateWindow_windowStart_idx" ON "AnonymousRateWindow"("windowStart");
@@ -0,0 +1,50 @@
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeyGuard', () => {
+  let apiKeysService: {
+    consumeAnonymous: jest.Mock;
+    authenticate: jest.Mock;
+    consume: jest.Mock;
+  };
+  let guard: ApiKeyGuard;
+  let res: { setHeader: jest.Mock };
+
+  const context = (headers: Record<string, string> = {}) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers, ip: '203.0.113.7' }),
+        getResponse: () => res,
+      }),
+      getHandler: () => undefined,
+    }) as any;
+
+  beforeEach(() => {
+    apiKeysService = {
+      consumeAnonymous: jest
+        .fn()
+        .mockResolvedValue({ rateLimit: 30, rateRemaining: 29 }),
+      authenticate: jest.fn(),
+      consume: jest.fn(),
+    };
+    res = { setHeader: jest.fn() };
+    guard = new ApiKeyGuard(
+      { get: () => 'company' } as any,
+      apiKeysService as unknown as ApiKeysService,
+    );
+  });
+
+  it('should throttle calls without an API key by IP', async () => {
+    await expect(guard.canActivate(context())).resolves.toBe(true);
+
+    expect(apiKeysService.consumeAnonymous).toHaveBeenCalledWith('203.0.113.7');
+    expect(apiKeysService.authenticate).not.toHaveBeenCalled();
+    expect(res.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', 29);
+  });
+
+  it('should reject an anonymous call over the limit', async () => {
+    apiKeysService.consumeAnonymous.mockRejectedValue(new Error('429'));
+
+    await expect(guard.canActivate(context())).rejects.toThrow('429');
+  });
+});
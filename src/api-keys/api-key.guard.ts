@@ -0,0 +1,47 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from './api-keys.service';
+import { API_KEY_HEADER } from './api-key.util';
+
+export const METERED_ENDPOINT_KEY = 'meteredEndpoint';
+
+// Klucz API jest opcjonalny - świadomie. Te same endpointy obsługują stronę www,
+// więc zapytanie bez nagłówka X-API-Key przechodzi anonimowo: z minutowym limitem
+// per IP (ANONYMOUS_RATE_LIMIT_PER_MINUTE) i bez licznika zużycia (nie jest
+// przypisywane żadnej organizacji). Z nagłówkiem - weryfikacja klucza (zły lub
+// unieważniony = 401), limity klucza i licznik zużycia.
+// Klient B2B nie "oszczędzi" limitu, pomijając nagłówek: dostaje wtedy dokładnie
+// to, co anonimowy użytkownik strony, a req.apiKey pozostaje puste.
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest();
+    const res = context.switchToHttp().getResponse();
+    const rawKey = req.headers[API_KEY_HEADER];
+    if (!rawKey) {
+      const usage = await this.apiKeysService.consumeAnonymous(req.ip);
+      res.setHeader('X-RateLimit-Limit', usage.rateLimit);
+      res.setHeader('X-RateLimit-Remaining', usage.rateRemaining);
+      return true;
+    }
+
+    const key = await this.apiKeysService.authenticate(String(rawKey));
+    const endpoint = this.reflector.get<string>(
+      METERED_ENDPOINT_KEY,
+      context.getHandler(),
+    );
+    const usage = await this.apiKeysService.consume(key, endpoint);
+    req.apiKey = key;
+
+    res.setHeader('X-RateLimit-Limit', usage.rateLimit);
+    res.setHeader('X-RateLimit-Remaining', usage.rateRemaining);
+    res.setHeader('X-Quota-Limit', usage.quota);
+    res.setHeader('X-Quota-Remaining', usage.quotaRemaining);
+    return true;
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  apiKeyPrefix,
+  generateApiKey,
+  nextPeriodStart,
+  rateWindowStart,
+  usagePeriod,
+} from './api-key.util';
+
+describe('api-key.util', () => {
+  it('should generate keys whose prefix can be read back', () => {
+    const { key, prefix } = generateApiKey();
+    expect(prefix).toMatch(/^tc_[a-z0-9]{8}$/);
+    expect(key.startsWith(`${prefix}_`)).toBe(true);
+    expect(apiKeyPrefix(key)).toBe(prefix);
+  });
+
+  it('should generate a different key every time', () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+
+  it('should reject strings that are not API keys', () => {
+    expect(apiKeyPrefix('Bearer abc')).toBeNull();
+    expect(apiKeyPrefix('tc_abcdefgh_short')).toBeNull();
+  });
+
+  it('should compute monthly periods and their boundaries in UTC', () => {
+    const date = new Date('2026-12-31T23:30:00Z');
+    expect(usagePeriod(date)).toBe('2026-12');
+    expect(nextPeriodStart(date).toISOString()).toBe(
+      '2027-01-01T00:00:00.000Z',
+    );
+  });
+
+  it('should truncate rate windows to the minute', () => {
+    expect(
+      rateWindowStart(new Date('2026-03-15T10:42:37.512Z')).toISOString(),
+    ).toBe('2026-03-15T10:42:00.000Z');
+  });
+});
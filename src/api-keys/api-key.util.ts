@@ -0,0 +1,33 @@
+import { randomBytes } from 'crypto';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+// Klucz: "tc_<8 znaków prefiksu>_<sekret>". Prefiks jest jawny (lista kluczy,
+// logi klienta), w bazie poza nim jest tylko SHA-256 całego klucza.
+const KEY_PATTERN = /^(tc_[a-z0-9]{8})_[A-Za-z0-9_-]{32,}$/;
+
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = `tc_${randomBytes(4).toString('hex')}`;
+  return { key: `${prefix}_${randomBytes(32).toString('base64url')}`, prefix };
+}
+
+// null = to nie wygląda na nasz klucz (nie ma sensu pytać bazy)
+export function apiKeyPrefix(key: string): string | null {
+  return KEY_PATTERN.exec(key)?.[1] ?? null;
+}
+
+// Okres rozliczeniowy limitu miesięcznego, np. "2026-03" (UTC)
+export function usagePeriod(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function nextPeriodStart(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+// Początek minutowego okna limitu zapytań
+export function rateWindowStart(date = new Date()): Date {
+  const start = new Date(date);
+  start.setUTCSeconds(0, 0);
+  return start;
+}
@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
+import { CurrentActor } from '../audit/current-actor.decorator';
+import type { AuditActor } from '../audit/audit-log';
+import { ApiKeysService } from './api-keys.service';
+import { API_KEY_HEADER } from './api-key.util';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { UsageQueryDto } from './dto/usage-query.dto';
+
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  // === DLA KLIENTA (uwierzytelnienie kluczem API) ===
+
+  // curl -H "X-API-Key: tc_..." /api-keys/me/usage?period=2026-03
+  @Get('me/usage')
+  async getOwnUsage(
+    @Headers(API_KEY_HEADER) rawKey: string | undefined,
+    @Query() query: UsageQueryDto,
+  ) {
+    if (!rawKey) throw new UnauthorizedException('Brak nagłówka X-API-Key');
+    const key = await this.apiKeysService.authenticate(rawKey);
+    return this.apiKeysService.getKeyUsage(key, query.period);
+  }
+
+  // === PANEL ADMINISTRACYJNY ===
+
+  @Get('organizations')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  listOrganizations() {
+    return this.apiKeysService.listOrganizations();
+  }
+
+  @Post('organizations')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  createOrganization(
+    @Body() body: CreateOrganizationDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.apiKeysService.createOrganization(body.name, actor);
+  }
+
+  @Get('organizations/:id/keys')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  listKeys(@Param('id', ParseIntPipe) id: number) {
+    return this.apiKeysService.listKeys(id);
+  }
+
+  // Odpowiedź zawiera pełny klucz - jedyny raz, kiedy da się go zobaczyć
+  @Post('organizations/:id/keys')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  createKey(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: CreateApiKeyDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.apiKeysService.createKey(id, body, actor);
+  }
+
+  @Get('organizations/:id/usage')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  getOrganizationUsage(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: UsageQueryDto,
+  ) {
+    return this.apiKeysService.getOrganizationUsage(id, query.period);
+  }
+
+  @Patch(':id')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  updateKey(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateApiKeyDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.apiKeysService.updateKey(id, body, actor);
+  }
+
+  // Unieważnienie działa od razu; klucz zostaje w bazie z historią zużycia
+  @Delete(':id')
+  @RequirePermissions(Permission.MANAGE_API_KEYS)
+  revokeKey(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.apiKeysService.revokeKey(id, actor);
+  }
+}
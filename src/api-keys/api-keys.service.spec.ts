@@ -0,0 +1,41 @@
+import { HttpStatus } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService.consumeAnonymous', () => {
+  let prisma: { $queryRaw: jest.Mock };
+  let service: ApiKeysService;
+
+  beforeEach(() => {
+    prisma = { $queryRaw: jest.fn() };
+    service = new ApiKeysService(
+      prisma as any,
+      {} as any,
+      {
+        get: (_key: string, fallback: unknown) => fallback,
+      } as any,
+    );
+  });
+
+  it('should count the call in the minute window of the IP', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ count: 5 }]);
+
+    await expect(service.consumeAnonymous('203.0.113.7')).resolves.toEqual({
+      rateLimit: 30,
+      rateRemaining: 25,
+    });
+    expect(prisma.$queryRaw.mock.calls[0]).toContain('203.0.113.7');
+  });
+
+  it('should answer 429 with a retry hint over the limit', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ count: 31 }]);
+
+    await expect(service.consumeAnonymous('203.0.113.7')).rejects.toMatchObject(
+      {
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        response: expect.objectContaining({
+          retryAfterSeconds: expect.any(Number),
+        }),
+      },
+    );
+  });
+});
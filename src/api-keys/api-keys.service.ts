@@ -0,0 +1,369 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service';
+import { hashToken } from '../auth/token.util';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActor, AuditEntity } from '../audit/audit-log';
+import {
+  apiKeyPrefix,
+  generateApiKey,
+  nextPeriodStart,
+  rateWindowStart,
+  usagePeriod,
+} from './api-key.util';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+
+// Klucz przypięty do żądania przez ApiKeyGuard (req.apiKey)
+export interface ApiKeyPrincipal {
+  id: number;
+  organizationId: number;
+  prefix: string;
+  rateLimitPerMinute: number;
+  monthlyQuota: number;
+}
+
+export interface ApiKeyConsumption {
+  rateLimit: number;
+  rateRemaining: number;
+  quota: number;
+  quotaRemaining: number;
+}
+
+// Skrót klucza na listach i w odpowiedziach - bez hasha
+const keySelect = {
+  id: true,
+  organizationId: true,
+  name: true,
+  prefix: true,
+  rateLimitPerMinute: true,
+  monthlyQuota: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+const RATE_WINDOW_RETENTION_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class ApiKeysService {
+  private readonly anonymousRateLimit: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+    config: ConfigService,
+  ) {
+    this.anonymousRateLimit = Number(
+      config.get('ANONYMOUS_RATE_LIMIT_PER_MINUTE', 30),
+    );
+  }
+
+  // === ORGANIZACJE I KLUCZE (panel) ===
+
+  listOrganizations() {
+    return this.prisma.organization.findMany({
+      include: {
+        _count: { select: { apiKeys: { where: { revokedAt: null } } } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async createOrganization(name: string, actor: AuditActor) {
+    const created = await this.prisma.organization.create({
+      data: { name: name.trim() },
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.ORGANIZATION_CREATE,
+      entityType: AuditEntity.ORGANIZATION,
+      entityId: created.id,
+      after: created,
+    });
+    return created;
+  }
+
+  async listKeys(organizationId: number) {
+    await this.findOrganization(organizationId);
+    return this.prisma.apiKey.findMany({
+      where: { organizationId },
+      select: keySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Pełny klucz zwracamy tylko tutaj - później nie da się go odczytać
+  async createKey(
+    organizationId: number,
+    dto: CreateApiKeyDto,
+    actor: AuditActor,
+  ) {
+    await this.findOrganization(organizationId);
+    const { key, prefix } = generateApiKey();
+    const created = await this.prisma.apiKey.create({
+      data: {
+        organizationId,
+        name: dto.name,
+        prefix,
+        keyHash: hashToken(key),
+        rateLimitPerMinute: dto.rateLimitPerMinute,
+        monthlyQuota: dto.monthlyQuota,
+        createdById: actor.userId,
+      },
+      select: keySelect,
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.API_KEY_CREATE,
+      entityType: AuditEntity.API_KEY,
+      entityId: created.id,
+      after: created,
+    });
+    return { ...created, key };
+  }
+
+  async updateKey(id: number, dto: UpdateApiKeyDto, actor: AuditActor) {
+    const before = await this.findKey(id);
+    const updated = await this.prisma.apiKey.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        rateLimitPerMinute: dto.rateLimitPerMinute,
+        monthlyQuota: dto.monthlyQuota,
+      },
+      select: keySelect,
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.API_KEY_UPDATE,
+      entityType: AuditEntity.API_KEY,
+      entityId: id,
+      before,
+      after: updated,
+    });
+    return updated;
+  }
+
+  async revokeKey(id: number, actor: AuditActor) {
+    const before = await this.findKey(id);
+    if (before.revokedAt) return before;
+
+    const revoked = await this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: keySelect,
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.API_KEY_REVOKE,
+      entityType: AuditEntity.API_KEY,
+      entityId: id,
+      before,
+      after: revoked,
+    });
+    return revoked;
+  }
+
+  // === UWIERZYTELNIANIE I LIMITY ===
+
+  async authenticate(rawKey: string): Promise<ApiKeyPrincipal> {
+    const prefix = apiKeyPrefix(rawKey);
+    const key = prefix
+      ? await this.prisma.apiKey.findUnique({
+          where: { keyHash: hashToken(rawKey) },
+        })
+      : null;
+    if (!key || key.prefix !== prefix || key.revokedAt) {
+      throw new UnauthorizedException(
+        'Nieprawidłowy lub unieważniony klucz API',
+      );
+    }
+    return {
+      id: key.id,
+      organizationId: key.organizationId,
+      prefix: key.prefix,
+      rateLimitPerMinute: key.rateLimitPerMinute,
+      monthlyQuota: key.monthlyQuota,
+    };
+  }
+
+  // Limit minutowy, potem miesięczny; dopiero przepuszczone zapytanie jest liczone
+  async consume(
+    key: ApiKeyPrincipal,
+    endpoint: string,
+  ): Promise<ApiKeyConsumption> {
+    const now = new Date();
+
+    // Licznik okna w jednym zapytaniu - bez wyścigu między instancjami API
+    const [{ count }] = await this.prisma.$queryRaw<{ count: number }[]>`
+      INSERT INTO "ApiKeyRateWindow" ("apiKeyId", "windowStart", "count")
+      VALUES (${key.id}, ${rateWindowStart(now)}, 1)
+      ON CONFLICT ("apiKeyId", "windowStart")
+      DO UPDATE SET "count" = "ApiKeyRateWindow"."count" + 1
+      RETURNING "count"
+    `;
+    if (count > key.rateLimitPerMinute) {
+      this.tooManyRequests(
+        `Przekroczono limit ${key.rateLimitPerMinute} zapytań na minutę`,
+        60 - now.getUTCSeconds(),
+      );
+    }
+
+    const period = usagePeriod(now);
+    // Blokada wiersza klucza szereguje równoległe zapytania tym samym kluczem -
+    // odczyt zużycia i zapis licznika nie mogą się przepleść (inaczej limit
+    // dałoby się przekroczyć serią równoczesnych zapytań)
+    const usedThisMonth = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT 1 FROM "ApiKey" WHERE "id" = ${key.id} FOR UPDATE`;
+      const used = await tx.apiKeyUsage.aggregate({
+        where: { apiKeyId: key.id, period },
+        _sum: { count: true },
+      });
+      const usedBefore: number = used._sum.count ?? 0;
+      if (usedBefore >= key.monthlyQuota) {
+        this.tooManyRequests(
+          `Wykorzystano miesięczny limit ${key.monthlyQuota} zapytań`,
+          Math.ceil((nextPeriodStart(now).getTime() - now.getTime()) / 1000),
+        );
+      }
+
+      await tx.apiKeyUsage.upsert({
+        where: {
+          apiKeyId_period_endpoint: { apiKeyId: key.id, period, endpoint },
+        },
+        update: { count: { increment: 1 } },
+        create: { apiKeyId: key.id, period, endpoint, count: 1 },
+      });
+      await tx.apiKey.update({
+        where: { id: key.id },
+        data: { lastUsedAt: now },
+      });
+      return usedBefore;
+    });
+
+    return {
+      rateLimit: key.rateLimitPerMinute,
+      rateRemaining: Math.max(key.rateLimitPerMinute - count, 0),
+      quota: key.monthlyQuota,
+      quotaRemaining: Math.max(key.monthlyQuota - usedThisMonth - 1, 0),
+    };
+  }
+
+  // Zapytania bez klucza (strona www) - tylko limit minutowy per IP, bez licznika
+  // zużycia. Inaczej pominięcie nagłówka X-API-Key omijałoby wszystkie limity.
+  async consumeAnonymous(
+    ip: string,
+  ): Promise<Pick<ApiKeyConsumption, 'rateLimit' | 'rateRemaining'>> {
+    const now = new Date();
+    const [{ count }] = await this.prisma.$queryRaw<{ count: number }[]>`
+      INSERT INTO "AnonymousRateWindow" ("ip", "windowStart", "count")
+      VALUES (${ip}, ${rateWindowStart(now)}, 1)
+      ON CONFLICT ("ip", "windowStart")
+      DO UPDATE SET "count" = "AnonymousRateWindow"."count" + 1
+      RETURNING "count"
+    `;
+    if (count > this.anonymousRateLimit) {
+      this.tooManyRequests(
+        `Przekroczono limit ${this.anonymousRateLimit} zapytań na minutę bez klucza API`,
+        60 - now.getUTCSeconds(),
+      );
+    }
+    return {
+      rateLimit: this.anonymousRateLimit,
+      rateRemaining: Math.max(this.anonymousRateLimit - count, 0),
+    };
+  }
+
+  // === ZUŻYCIE ===
+
+  // Zużycie organizacji w miesiącu: per klucz i per endpoint
+  async getOrganizationUsage(organizationId: number, period = usagePeriod()) {
+    const organization = await this.findOrganization(organizationId);
+    const keys = await this.prisma.apiKey.findMany({
+      where: { organizationId },
+      select: {
+        ...keySelect,
+        usage: {
+          where: { period },
+          select: { endpoint: true, count: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      organization: { id: organization.id, name: organization.name },
+      period,
+      total: keys.reduce(
+        (sum, key) => sum + key.usage.reduce((s, u) => s + u.count, 0),
+        0,
+      ),
+      keys: keys.map(({ usage, ...key }) => this.withUsage(key, usage)),
+    };
+  }
+
+  // Zużycie klucza, którym klient się uwierzytelnił (GET /api-keys/me/usage)
+  async getKeyUsage(key: ApiKeyPrincipal, period = usagePeriod()) {
+    const usage = await this.prisma.apiKeyUsage.findMany({
+      where: { apiKeyId: key.id, period },
+      select: { endpoint: true, count: true },
+    });
+    return { period, ...this.withUsage(key, usage) };
+  }
+
+  // Stare okna minutowe nie są już potrzebne do liczenia limitu
+  @Cron(CronExpression.EVERY_HOUR)
+  async pruneRateWindows() {
+    const where = {
+      windowStart: { lt: new Date(Date.now() - RATE_WINDOW_RETENTION_MS) },
+    };
+    await this.prisma.apiKeyRateWindow.deleteMany({ where });
+    await this.prisma.anonymousRateWindow.deleteMany({ where });
+  }
+
+  private withUsage(
+    key: Record<string, any>,
+    usage: { endpoint: string; count: number }[],
+  ) {
+    const used = usage.reduce((sum, u) => sum + u.count, 0);
+    return {
+      ...key,
+      used,
+      remaining: Math.max(key.monthlyQuota - used, 0),
+      byEndpoint: Object.fromEntries(usage.map((u) => [u.endpoint, u.count])),
+    };
+  }
+
+  private tooManyRequests(message: string, retryAfterSeconds: number): never {
+    throw new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private async findOrganization(id: number) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id },
+    });
+    if (!organization) throw new NotFoundException('Organizacja nie istnieje');
+    return organization;
+  }
+
+  private async findKey(id: number) {
+    const key = await this.prisma.apiKey.findUnique({
+      where: { id },
+      select: keySelect,
+    });
+    if (!key) throw new NotFoundException('Klucz API nie istnieje');
+    return key;
+  }
+}
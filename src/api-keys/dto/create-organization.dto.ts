@@ -0,0 +1,8 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class CreateOrganizationDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name: string;
+}
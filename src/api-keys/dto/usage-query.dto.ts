@@ -0,0 +1,7 @@
+import { IsOptional, Matches } from 'class-validator';
+
+export class UsageQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'Okres w formacie RRRR-MM' })
+  period?: string; // Domyślnie bieżący miesiąc
+}
@@ -0,0 +1,10 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { ApiKeyGuard, METERED_ENDPOINT_KEY } from './api-key.guard';
+
+// Endpoint dostępny także po kluczu API; nazwa trafia do licznika zużycia.
+// Nie wymaga klucza - zapytania bez X-API-Key są anonimowe, z limitem per IP (ApiKeyGuard).
+export const MeteredEndpoint = (name: string) =>
+  applyDecorators(
+    SetMetadata(METERED_ENDPOINT_KEY, name),
+    UseGuards(ApiKeyGuard),
+  );
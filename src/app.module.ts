@@ -1,19 +1,38 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { VerificationModule } from './verification/verification.module';
 import { IntegrationModule } from './integration/integration.module';
 import { ReportsModule } from './reports/reports.module';
 import { PrismaModule } from './prisma.module';
 import { AuthModule } from './auth/auth.module';
+import { StorageModule } from './storage/storage.module';
+import { MailModule } from './mail/mail.module';
+import { AuditModule } from './audit/audit.module';
+import { WatchlistModule } from './watchlist/watchlist.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { BulkVerificationModule } from './bulk-verification/bulk-verification.module';
+import { RetryAfterFilter } from './common/http/retry-after.filter';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
+    ScheduleModule.forRoot(),
     PrismaModule,
+    StorageModule,
+    MailModule,
+    AuditModule,
     VerificationModule,
     IntegrationModule,
     ReportsModule,
     AuthModule,
+    WatchlistModule,
+    WebhooksModule,
+    ApiKeysModule,
+    BulkVerificationModule,
   ],
+  providers: [{ provide: APP_FILTER, useClass: RetryAfterFilter }],
 })
 export class AppModule {}
@@ -0,0 +1,41 @@
+import { diffSnapshots } from './audit-log';
+
+describe('diffSnapshots', () => {
+  it('should list only changed fields', () => {
+    const before = { name: 'ABC', trustScore: 50, riskLevel: 'Nieznany' };
+    const after = { name: 'ABC', trustScore: 10, riskLevel: 'Wysokie' };
+    expect(diffSnapshots(before, after)).toEqual({
+      trustScore: { from: 50, to: 10 },
+      riskLevel: { from: 'Nieznany', to: 'Wysokie' },
+    });
+  });
+
+  it('should treat undefined and null as equal', () => {
+    expect(diffSnapshots({ email: null }, { email: undefined })).toEqual({});
+  });
+
+  it('should compare dates and json by value and ignore updatedAt', () => {
+    const before = {
+      createdAt: new Date('2026-03-01T10:00:00Z'),
+      updatedAt: new Date('2026-03-01T10:00:00Z'),
+      rawData: { vat: 'Czynny' },
+    };
+    const after = {
+      createdAt: new Date('2026-03-01T10:00:00Z'),
+      updatedAt: new Date('2026-03-05T10:00:00Z'),
+      rawData: { vat: 'Zwolniony' },
+    };
+    expect(diffSnapshots(before, after)).toEqual({
+      rawData: { from: { vat: 'Czynny' }, to: { vat: 'Zwolniony' } },
+    });
+  });
+
+  it('should record every field of a created record', () => {
+    expect(
+      diffSnapshots(null, { number: '+48500100200', trustScore: 70 }),
+    ).toEqual({
+      number: { from: null, to: '+48500100200' },
+      trustScore: { from: null, to: 70 },
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// Kto wykonał zmianę w panelu (req.user + adres IP)
+export interface AuditActor {
+  userId: number;
+  ip?: string | null;
+}
+
+export const AuditAction = {
+  COMPANY_CREATE: 'COMPANY_CREATE',
+  COMPANY_UPDATE: 'COMPANY_UPDATE',
+  PHONE_LINK: 'PHONE_LINK',
+  PERSON_UPDATE: 'PERSON_UPDATE',
+  PERSON_MERGE: 'PERSON_MERGE',
+  PERSON_MERGE_REVERT: 'PERSON_MERGE_REVERT',
+  PERSON_SPLIT: 'PERSON_SPLIT',
+  USER_ROLE_CHANGE: 'USER_ROLE_CHANGE',
+  REPORT_MODERATE: 'REPORT_MODERATE',
+  REPORT_EDIT: 'REPORT_EDIT',
+  REPORT_WITHDRAW: 'REPORT_WITHDRAW',
+  WEBHOOK_CREATE: 'WEBHOOK_CREATE',
+  WEBHOOK_UPDATE: 'WEBHOOK_UPDATE',
+  WEBHOOK_DELETE: 'WEBHOOK_DELETE',
+  WEBHOOK_SECRET_ROTATE: 'WEBHOOK_SECRET_ROTATE',
+  ORGANIZATION_CREATE: 'ORGANIZATION_CREATE',
+  API_KEY_CREATE: 'API_KEY_CREATE',
+  API_KEY_UPDATE: 'API_KEY_UPDATE',
+  API_KEY_REVOKE: 'API_KEY_REVOKE',
+} as const;
+
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction];
+
+export const AuditEntity = {
+  COMPANY: 'COMPANY',
+  PHONE: 'PHONE',
+  PERSON: 'PERSON',
+  USER: 'USER',
+  REPORT: 'REPORT',
+  WEBHOOK: 'WEBHOOK',
+  ORGANIZATION: 'ORGANIZATION',
+  API_KEY: 'API_KEY',
+} as const;
+
+export type AuditEntity = (typeof AuditEntity)[keyof typeof AuditEntity];
+
+export const AUDIT_ENTITY_TYPES = Object.values(AuditEntity);
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Pola, które zmieniają się przy każdym zapisie i tylko zaśmiecają historię
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+// Daty i obiekty (Json, Decimal) porównujemy po postaci zapisywanej w logu
+function toComparable(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.parse(JSON.stringify(value));
+  return value;
+}
+
+// { pole: { from, to } } dla pól różniących się między stanem przed i po zmianie.
+// null po jednej stronie oznacza utworzenie albo usunięcie rekordu.
+export function diffSnapshots(
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = toComparable(before?.[field]);
+    const to = toComparable(after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,29 @@
+import { Controller, Get, Param, ParseEnumPipe, Query } from '@nestjs/common';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
+import { AuditService } from './audit.service';
+import { AuditQueryDto } from './dto/audit-query.dto';
+import { AuditEntity } from './audit-log';
+
+@Controller('admin/audit-log')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  // /admin/audit-log?entityType=COMPANY&actorId=3&from=2026-03-01
+  @Get()
+  @RequirePermissions(Permission.VIEW_AUDIT_LOG)
+  browse(@Query() query: AuditQueryDto) {
+    return this.auditService.browse(query);
+  }
+
+  // /admin/audit-log/COMPANY/5213017228
+  @Get(':entityType/:entityId')
+  @RequirePermissions(Permission.VIEW_AUDIT_LOG)
+  getEntityHistory(
+    @Param('entityType', new ParseEnumPipe(AuditEntity))
+    entityType: AuditEntity,
+    @Param('entityId') entityId: string,
+  ) {
+    return this.auditService.getEntityHistory(entityType, entityId);
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import {
+  AuditAction,
+  AuditActor,
+  AuditChanges,
+  AuditEntity,
+  diffSnapshots,
+} from './audit-log';
+import { AuditQueryDto } from './dto/audit-query.dto';
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntity;
+  entityId: string | number;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  changes?: AuditChanges; // Gotowy opis zmian, gdy nie wynika z porównania rekordów
+}
+
+const actorSelect = { select: { id: true, email: true, role: true } };
+
+@Injectable()
+export class AuditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // W transakcji przekazujemy `tx`, żeby wpis powstał razem ze zmianą albo wcale
+  async record(
+    actor: AuditActor,
+    entry: AuditEntry,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const changes =
+      entry.changes ?? diffSnapshots(entry.before ?? null, entry.after ?? null);
+    if (!Object.keys(changes).length) return null;
+
+    return await client.auditLog.create({
+      data: {
+        actorId: actor.userId,
+        ip: actor.ip ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: String(entry.entityId),
+        changes,
+      },
+    });
+  }
+
+  // Ta sama operacja na wielu rekordach (np. masowa moderacja) - jeden wpis na rekord
+  async recordMany(
+    actor: AuditActor,
+    entries: AuditEntry[],
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const data = entries
+      .map((entry) => ({
+        actorId: actor.userId,
+        ip: actor.ip ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: String(entry.entityId),
+        changes:
+          entry.changes ??
+          diffSnapshots(entry.before ?? null, entry.after ?? null),
+      }))
+      .filter((row) => Object.keys(row.changes).length);
+    if (!data.length) return { count: 0 };
+
+    return await client.auditLog.createMany({ data });
+  }
+
+  async browse(query: AuditQueryDto) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+
+    const createdAt: Record<string, Date> = {};
+    if (query.from) createdAt.gte = new Date(query.from);
+    if (query.to) createdAt.lte = new Date(query.to);
+
+    const where = {
+      actorId: query.actorId,
+      action: query.action,
+      entityType: query.entityType,
+      entityId: query.entityId,
+      createdAt: Object.keys(createdAt).length ? createdAt : undefined,
+    };
+
+    const [total, items] = await this.prisma.$transaction([
+      this.prisma.auditLog.count({ where }),
+      this.prisma.auditLog.findMany({
+        where,
+        include: { actor: actorSelect },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return { total, page, limit, items };
+  }
+
+  // Pełna historia zmian jednego rekordu (firmy, osoby, telefonu...)
+  getEntityHistory(entityType: AuditEntity, entityId: string) {
+    return this.prisma.auditLog.findMany({
+      where: { entityType, entityId },
+      include: { actor: actorSelect },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuditActor } from './audit-log';
+
+// Zalogowany administrator + IP żądania - do zapisu w dzienniku zmian
+export const CurrentActor = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuditActor => {
+    const req = ctx.switchToHttp().getRequest();
+    return { userId: req.user.userId, ip: req.ip ?? null };
+  },
+);
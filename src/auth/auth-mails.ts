@@ -0,0 +1,29 @@
+import { MailMessage } from '../mail/mailer';
+
+export function verificationMail(to: string, link: string): MailMessage {
+  return {
+    to,
+    subject: 'Potwierdź adres e-mail',
+    text: [
+      'Dziękujemy za rejestrację.',
+      '',
+      `Aby potwierdzić adres e-mail i móc dodawać zgłoszenia, otwórz link: ${link}`,
+      '',
+      'Link jest ważny 24 godziny. Jeśli to nie Ty zakładałeś konto, zignoruj tę wiadomość.',
+    ].join('\n'),
+  };
+}
+
+export function passwordResetMail(to: string, link: string): MailMessage {
+  return {
+    to,
+    subject: 'Reset hasła',
+    text: [
+      'Otrzymaliśmy prośbę o zresetowanie hasła do Twojego konta.',
+      '',
+      `Aby ustawić nowe hasło, otwórz link: ${link}`,
+      '',
+      'Link jest ważny 1 godzinę. Jeśli to nie Ty, zignoruj tę wiadomość - hasło się nie zmieni.',
+    ].join('\n'),
+  };
+}
@@ -1,19 +1,105 @@
-import { Controller, Post, Body, UnauthorizedException } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  UnauthorizedException,
+  Get,
+  Patch,
+  Param,
+  ParseIntPipe,
+  Request,
+  UseGuards,
+  HttpCode,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
 import { AuthService } from './auth.service';
+import { RequirePermissions } from './roles.decorator';
+import { Permission, Role } from './roles';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { LogoutDto } from './dto/logout.dto';
+import { LoginDto } from './dto/login.dto';
+import { RegisterDto } from './dto/register.dto';
+import { EmailTokenDto } from './dto/email-token.dto';
+import { RequestPasswordResetDto } from './dto/request-password-reset.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { CurrentActor } from '../audit/current-actor.decorator';
+import type { AuditActor } from '../audit/audit-log';
 
 @Controller('auth')
 export class AuthController {
   constructor(private authService: AuthService) {}
 
   @Post('login')
-  async login(@Body() body: any) {
+  async login(@Body() body: LoginDto) {
     const user = await this.authService.validateUser(body.email, body.password);
     if (!user) throw new UnauthorizedException('Błędne dane logowania');
     return this.authService.login(user);
   }
 
   @Post('register')
-  async register(@Body() body: any) {
+  async register(@Body() body: RegisterDto) {
     return this.authService.register(body.email, body.password);
   }
+
+  @Post('verify-email')
+  @HttpCode(200)
+  async verifyEmail(@Body() body: EmailTokenDto) {
+    return this.authService.verifyEmail(body.token);
+  }
+
+  @Post('verify-email/resend')
+  @HttpCode(200)
+  @UseGuards(AuthGuard('jwt'))
+  async resendVerification(@Request() req: any) {
+    return this.authService.resendVerification(req.user.userId);
+  }
+
+  @Post('password-reset/request')
+  @HttpCode(200)
+  async requestPasswordReset(@Body() body: RequestPasswordResetDto) {
+    return this.authService.requestPasswordReset(body.email);
+  }
+
+  @Post('password-reset/confirm')
+  @HttpCode(200)
+  async resetPassword(@Body() body: ResetPasswordDto) {
+    return this.authService.resetPassword(body.token, body.password);
+  }
+
+  @Post('refresh')
+  @HttpCode(200)
+  async refresh(@Body() body: RefreshTokenDto) {
+    return this.authService.refresh(body.refreshToken);
+  }
+
+  // Bieżąca sesja albo wszystkie ({ allSessions: true })
+  @Post('logout')
+  @HttpCode(200)
+  @UseGuards(AuthGuard('jwt'))
+  async logout(@Body() body: LogoutDto, @Request() req: any) {
+    return this.authService.logout(
+      req.user.userId,
+      req.user.sessionId,
+      body.allSessions,
+    );
+  }
+
+  // === ADMIN: ROLE UŻYTKOWNIKÓW ===
+
+  @Get('admin/users')
+  @RequirePermissions(Permission.MANAGE_USERS)
+  getAllUsers() {
+    return this.authService.getAllUsers();
+  }
+
+  @Patch('admin/users/:id/role')
+  @RequirePermissions(Permission.MANAGE_USERS)
+  async setUserRole(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateUserRoleDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.authService.setUserRole(actor, id, body.role as Role);
+  }
 }
@@ -1,22 +1,28 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
 import { PrismaModule } from '../prisma.module';
+import { RefreshTokenService } from './refresh-token.service';
 
 @Module({
   imports: [
     PrismaModule,
     PassportModule,
-    JwtModule.register({
-      secret: 'SECRET_KEY_MVP_123', // W produkcji użyj env!
-      signOptions: { expiresIn: '7d' }, // Token ważny 7 dni
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        secret: config.getOrThrow<string>('JWT_SECRET'),
+        // Krótko - dłuższą sesję utrzymuje refresh token
+        signOptions: { expiresIn: config.get('JWT_ACCESS_TTL', '15m') },
+      }),
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, JwtStrategy, RefreshTokenService],
   exports: [AuthService],
 })
 export class AuthModule {}
@@ -0,0 +1,196 @@
+import { BadRequestException } from '@nestjs/common';
+import { AuthService, UserTokenType } from './auth.service';
+import { hashToken } from './token.util';
+
+describe('AuthService', () => {
+  const now = new Date('2026-03-20T12:00:00Z');
+  let prisma: any;
+  let mailer: { send: jest.Mock };
+  let refreshTokenService: { issue: jest.Mock; revokeAllForUser: jest.Mock };
+  let service: AuthService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    prisma = {
+      user: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ id: 1, emailVerifiedAt: null }),
+        create: jest.fn(({ data }) => ({ id: 1, role: 'USER', ...data })),
+        update: jest.fn(),
+      },
+      userToken: {
+        findUnique: jest.fn(),
+        create: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        count: jest.fn().mockResolvedValue(0),
+      },
+    };
+    mailer = { send: jest.fn() };
+    refreshTokenService = {
+      issue: jest.fn().mockResolvedValue({
+        token: 'refresh',
+        familyId: 'family',
+        expiresAt: now,
+      }),
+      revokeAllForUser: jest.fn().mockResolvedValue({ count: 2 }),
+    };
+    service = new AuthService(
+      prisma,
+      { sign: () => 'access' } as any,
+      refreshTokenService as any,
+      mailer,
+      {} as any,
+      { get: (_key: string, fallback: unknown) => fallback } as any,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('register', () => {
+    it('should create the account and log in even when the mail cannot be sent', async () => {
+      mailer.send.mockRejectedValue(new Error('SMTP niedostępny'));
+
+      const result = await service.register('jan@example.com', 'haslo1234');
+
+      expect(prisma.user.create).toHaveBeenCalledTimes(1);
+      expect(result.access_token).toBe('access');
+      expect(result.user).toMatchObject({ id: 1, emailVerified: false });
+    });
+
+    it('should reject an email that is already taken', async () => {
+      prisma.user.findFirst.mockResolvedValue({ id: 1 });
+
+      await expect(
+        service.register('Jan@Example.com', 'haslo1234'),
+      ).rejects.toThrow('Email zajęty');
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    const stored = { id: 5, userId: 1 };
+
+    it('should consume a valid token once and mark the email as verified', async () => {
+      prisma.userToken.findUnique.mockResolvedValue(stored);
+
+      await service.verifyEmail('token');
+
+      expect(prisma.userToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('token') },
+      });
+      expect(prisma.userToken.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 5,
+          type: UserTokenType.EMAIL_VERIFICATION,
+          usedAt: null,
+          expiresAt: { gt: now },
+        },
+        data: { usedAt: now },
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { emailVerifiedAt: now },
+      });
+    });
+
+    it('should reject an expired, used or wrong-type token', async () => {
+      // Warunki usedAt/expiresAt/type odrzuca już zapytanie
+      prisma.userToken.findUnique.mockResolvedValue(stored);
+      prisma.userToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.verifyEmail('token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown token without touching other tokens', async () => {
+      prisma.userToken.findUnique.mockResolvedValue(null);
+
+      await expect(service.verifyEmail('token')).rejects.toThrow(
+        'Link jest nieprawidłowy lub wygasł',
+      );
+      expect(prisma.userToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should invalidate previous reset links and issue one valid for an hour', async () => {
+      prisma.user.findFirst.mockResolvedValue({
+        id: 1,
+        email: 'jan@example.com',
+      });
+
+      await service.requestPasswordReset('jan@example.com');
+
+      expect(prisma.userToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, type: UserTokenType.PASSWORD_RESET, usedAt: null },
+        data: { usedAt: now },
+      });
+      expect(prisma.userToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: UserTokenType.PASSWORD_RESET,
+          expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+        }),
+      });
+      expect(mailer.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer the same way when the mail cannot be sent', async () => {
+      prisma.user.findFirst.mockResolvedValue({
+        id: 1,
+        email: 'jan@example.com',
+      });
+      mailer.send.mockRejectedValue(new Error('SMTP niedostępny'));
+
+      const known = await service.requestPasswordReset('jan@example.com');
+      prisma.user.findFirst.mockResolvedValue(null);
+      const unknown = await service.requestPasswordReset('nikt@example.com');
+
+      expect(known).toEqual(unknown);
+    });
+
+    it('should not send another link within five minutes', async () => {
+      prisma.user.findFirst.mockResolvedValue({
+        id: 1,
+        email: 'jan@example.com',
+      });
+      prisma.userToken.count.mockResolvedValue(1);
+
+      await service.requestPasswordReset('jan@example.com');
+
+      expect(prisma.userToken.count).toHaveBeenCalledWith({
+        where: {
+          userId: 1,
+          type: UserTokenType.PASSWORD_RESET,
+          createdAt: { gt: new Date(now.getTime() - 5 * 60 * 1000) },
+        },
+      });
+      expect(prisma.userToken.create).not.toHaveBeenCalled();
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should change the password, verify the email and end all sessions', async () => {
+      prisma.userToken.findUnique.mockResolvedValue({ id: 6, userId: 1 });
+
+      await service.resetPassword('token', 'noweHaslo123');
+
+      expect(prisma.userToken.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            type: UserTokenType.PASSWORD_RESET,
+          }),
+        }),
+      );
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { password: expect.any(String), emailVerifiedAt: now },
+      });
+      expect(refreshTokenService.revokeAllForUser).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -1,18 +1,60 @@
-import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  BadRequestException,
+  NotFoundException,
+  Inject,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma.service';
 import * as bcrypt from 'bcrypt';
+import { Role } from './roles';
+import { RefreshTokenService } from './refresh-token.service';
+import { generateToken, hashToken } from './token.util';
+import { passwordResetMail, verificationMail } from './auth-mails';
+import { MAILER } from '../mail/mailer';
+import type { Mailer } from '../mail/mailer';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActor, AuditEntity } from '../audit/audit-log';
+
+export const UserTokenType = {
+  EMAIL_VERIFICATION: 'EMAIL_VERIFICATION',
+  PASSWORD_RESET: 'PASSWORD_RESET',
+} as const;
+
+const HOUR = 60 * 60 * 1000;
+const TOKEN_TTL: Record<string, number> = {
+  [UserTokenType.EMAIL_VERIFICATION]: 24 * HOUR,
+  [UserTokenType.PASSWORD_RESET]: HOUR,
+};
+// Kolejny link resetu dla tego samego konta najwcześniej po tym czasie -
+// inaczej formularz pozwalałby zasypać czyjąś skrzynkę mailami
+const PASSWORD_RESET_COOLDOWN = 5 * 60 * 1000;
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly frontendUrl: string;
+
   constructor(
     private prisma: PrismaService,
-    private jwtService: JwtService
-  ) {}
+    private jwtService: JwtService,
+    private refreshTokenService: RefreshTokenService,
+    @Inject(MAILER) private mailer: Mailer,
+    private auditService: AuditService,
+    config: ConfigService,
+  ) {
+    this.frontendUrl = config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+  }
 
   async register(email: string, pass: string) {
-    // Sprawdź czy user istnieje
-    const existing = await this.prisma.user.findUnique({ where: { email } });
+    // Sprawdź czy user istnieje (stare konta mogą mieć wielkie litery)
+    const existing = await this.findByEmail(email);
     if (existing) throw new BadRequestException('Email zajęty');
 
     // Hashuj hasło
@@ -23,23 +65,242 @@ export class AuthService {
       data: { email, password: hashedPassword }
     });
 
+    // Zalogowany od razu, ale zgłoszenia dopiero po potwierdzeniu adresu.
+    // Konto już istnieje - błąd SMTP nie może skończyć się 500 (ponowna
+    // rejestracja trafiłaby na "Email zajęty"); link da się wysłać ponownie.
+    try {
+      await this.sendVerificationMail(user);
+    } catch (err) {
+      this.logger.error(
+        `Nie wysłano maila weryfikacyjnego do użytkownika ${user.id}: ${err}`,
+      );
+    }
     return this.login(user);
   }
 
+  // === POTWIERDZENIE E-MAILA I RESET HASŁA ===
+
+  async resendVerification(userId: number) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('Użytkownik nie istnieje');
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Adres e-mail jest już potwierdzony');
+    }
+    await this.sendVerificationMail(user);
+    return { success: true };
+  }
+
+  async verifyEmail(token: string) {
+    const userId = await this.consumeToken(
+      token,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+    return { success: true };
+  }
+
+  // Odpowiedź zawsze taka sama - nie zdradzamy, czy konto istnieje (także gdy
+  // link nie wyszedł: błąd SMTP albo poprzedni wysłany przed chwilą)
+  async requestPasswordReset(email: string) {
+    const user = await this.findByEmail(email);
+    if (user && !(await this.resetRequestedRecently(user.id))) {
+      try {
+        const token = await this.createToken(
+          user.id,
+          UserTokenType.PASSWORD_RESET,
+        );
+        await this.mailer.send(
+          passwordResetMail(
+            user.email,
+            `${this.frontendUrl}/reset-password?token=${token}`,
+          ),
+        );
+      } catch (err) {
+        this.logger.error(
+          `Nie wysłano linku resetu hasła do użytkownika ${user.id}: ${err}`,
+        );
+      }
+    }
+    return {
+      message: 'Jeśli konto istnieje, wysłaliśmy link do zresetowania hasła.',
+    };
+  }
+
+  async resetPassword(token: string, password: string) {
+    const userId = await this.consumeToken(
+      token,
+      UserTokenType.PASSWORD_RESET,
+    );
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: await bcrypt.hash(password, 10),
+        // Link z maila dowodzi dostępu do skrzynki
+        emailVerifiedAt: user?.emailVerifiedAt ?? new Date(),
+      },
+    });
+    // Nowe hasło = wylogowanie ze wszystkich urządzeń
+    await this.refreshTokenService.revokeAllForUser(userId);
+    return { success: true };
+  }
+
+  private async sendVerificationMail(user: { id: number; email: string }) {
+    const token = await this.createToken(
+      user.id,
+      UserTokenType.EMAIL_VERIFICATION,
+    );
+    await this.mailer.send(
+      verificationMail(
+        user.email,
+        `${this.frontendUrl}/verify-email?token=${token}`,
+      ),
+    );
+  }
+
+  // Nowy token unieważnia poprzednie tego samego typu
+  private async resetRequestedRecently(userId: number): Promise<boolean> {
+    const recent = await this.prisma.userToken.count({
+      where: {
+        userId,
+        type: UserTokenType.PASSWORD_RESET,
+        createdAt: { gt: new Date(Date.now() - PASSWORD_RESET_COOLDOWN) },
+      },
+    });
+    return recent > 0;
+  }
+
+  private async createToken(userId: number, type: string): Promise<string> {
+    const token = generateToken();
+    await this.prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    await this.prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL[type]),
+      },
+    });
+    return token;
+  }
+
+  private async consumeToken(token: string, type: string): Promise<number> {
+    const stored = await this.prisma.userToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+    // Warunek usedAt: null w updateMany - token da się użyć tylko raz
+    const { count } = stored
+      ? await this.prisma.userToken.updateMany({
+          where: {
+            id: stored.id,
+            type,
+            usedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+          data: { usedAt: new Date() },
+        })
+      : { count: 0 };
+    if (!count) {
+      throw new BadRequestException('Link jest nieprawidłowy lub wygasł');
+    }
+    return stored.userId;
+  }
+
+  private findByEmail(email: string) {
+    return this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+    });
+  }
+
   async login(user: any) {
-    const payload = { email: user.email, sub: user.id, role: user.role };
+    const session = await this.refreshTokenService.issue(user.id);
+    return this.buildTokens(user, session);
+  }
+
+  // Zużywa refresh token i wydaje nową parę (rotacja)
+  async refresh(refreshToken: string) {
+    const session = await this.refreshTokenService.rotate(refreshToken);
+    const user = await this.prisma.user.findUnique({
+      where: { id: session.userId },
+    });
+    if (!user) throw new UnauthorizedException();
+    return this.buildTokens(user, session);
+  }
+
+  async logout(userId: number, sessionId: string, allSessions = false) {
+    const { count } = allSessions
+      ? await this.refreshTokenService.revokeAllForUser(userId)
+      : await this.refreshTokenService.revokeFamily(sessionId);
+    return { success: true, revokedTokens: count };
+  }
+
+  // sid w access tokenie wiąże go z sesją - po wylogowaniu JwtStrategy go odrzuci
+  private buildTokens(
+    user: any,
+    session: { token: string; familyId: string; expiresAt: Date },
+  ) {
+    const payload = {
+      email: user.email,
+      sub: user.id,
+      role: user.role,
+      sid: session.familyId,
+    };
     return {
       access_token: this.jwtService.sign(payload),
-      user: { id: user.id, email: user.email, role: user.role }
+      refresh_token: session.token,
+      refresh_token_expires_at: session.expiresAt,
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        emailVerified: !!user.emailVerifiedAt,
+      }
     };
   }
 
   async validateUser(email: string, pass: string): Promise<any> {
-    const user = await this.prisma.user.findUnique({ where: { email } });
+    const user = await this.findByEmail(email);
     if (user && await bcrypt.compare(pass, user.password)) {
       const { password, ...result } = user;
       return result;
     }
     return null;
   }
+
+  // === ZARZĄDZANIE ROLAMI (ADMIN) ===
+
+  getAllUsers() {
+    return this.prisma.user.findMany({
+      select: { id: true, email: true, role: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async setUserRole(actor: AuditActor, userId: number, role: Role) {
+    if (actor.userId === userId) {
+      throw new BadRequestException('Nie możesz zmienić własnej roli');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new NotFoundException('Użytkownik nie istnieje');
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { role },
+      select: { id: true, email: true, role: true },
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.USER_ROLE_CHANGE,
+      entityType: AuditEntity.USER,
+      entityId: userId,
+      changes: { role: { from: user.role, to: role } },
+    });
+    return updated;
+  }
 }
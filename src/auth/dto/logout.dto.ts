@@ -0,0 +1,7 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class LogoutDto {
+  @IsOptional()
+  @IsBoolean()
+  allSessions?: boolean; // true = wyloguj ze wszystkich urządzeń
+}
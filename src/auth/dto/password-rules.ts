@@ -0,0 +1,17 @@
+import { IsStrongPassword } from 'class-validator';
+
+// Wspólne reguły dla rejestracji i resetu hasła
+export const IsValidPassword = () =>
+  IsStrongPassword(
+    {
+      minLength: 10,
+      minLowercase: 1,
+      minUppercase: 1,
+      minNumbers: 1,
+      minSymbols: 0,
+    },
+    {
+      message:
+        'Hasło musi mieć co najmniej 10 znaków, małą i wielką literę oraz cyfrę',
+    },
+  );
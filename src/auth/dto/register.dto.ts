@@ -0,0 +1,15 @@
+import { Transform } from 'class-transformer';
+import { IsEmail, MaxLength } from 'class-validator';
+import { IsValidPassword } from './password-rules';
+
+export class RegisterDto {
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value,
+  )
+  @IsEmail({}, { message: 'Niepoprawny adres e-mail' })
+  email: string;
+
+  @IsValidPassword()
+  @MaxLength(72) // bcrypt i tak ucina dłuższe
+  password: string;
+}
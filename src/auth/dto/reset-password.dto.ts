@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { IsValidPassword } from './password-rules';
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @IsValidPassword()
+  @MaxLength(72)
+  password: string;
+}
@@ -0,0 +1,8 @@
+import { IsIn, IsString } from 'class-validator';
+import { ALL_ROLES } from '../roles';
+
+export class UpdateUserRoleDto {
+  @IsString()
+  @IsIn(ALL_ROLES)
+  role: string;
+}
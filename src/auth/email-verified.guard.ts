@@ -0,0 +1,20 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+
+// Używać po AuthGuard('jwt'): @UseGuards(AuthGuard('jwt'), EmailVerifiedGuard)
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const user = context.switchToHttp().getRequest().user;
+    if (!user?.emailVerified) {
+      throw new ForbiddenException(
+        'Potwierdź adres e-mail, aby dodawać zgłoszenia',
+      );
+    }
+    return true;
+  }
+}
@@ -1,18 +1,46 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma.service';
+import { RefreshTokenService } from './refresh-token.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly refreshTokenService: RefreshTokenService,
+    config: ConfigService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: 'SECRET_KEY_MVP_123',
+      secretOrKey: config.getOrThrow<string>('JWT_SECRET'),
     });
   }
 
   async validate(payload: any) {
-    return { userId: payload.sub, email: payload.email, role: payload.role };
+    // Rolę bierzemy z bazy, a nie z tokena - degradacja działa od razu
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.sub },
+      select: { id: true, email: true, role: true, emailVerifiedAt: true },
+    });
+    if (!user) throw new UnauthorizedException();
+
+    // Wylogowana / unieważniona sesja - token odrzucamy mimo ważnego podpisu
+    if (
+      !payload.sid ||
+      !(await this.refreshTokenService.isSessionActive(payload.sid))
+    ) {
+      throw new UnauthorizedException('Sesja wygasła');
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      emailVerified: !!user.emailVerifiedAt,
+      sessionId: payload.sid,
+    };
   }
 }
@@ -0,0 +1,10 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+// Jak AuthGuard('jwt'), ale bez tokenu przepuszcza anonimowo (req.user = null)
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser = any>(err: unknown, user: TUser): TUser {
+    return user || (null as TUser);
+  }
+}
@@ -0,0 +1,139 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { RefreshTokenService, RevokeReason } from './refresh-token.service';
+import { hashToken } from './token.util';
+
+describe('RefreshTokenService', () => {
+  const now = new Date('2026-03-20T12:00:00Z');
+  const DAY = 24 * 60 * 60 * 1000;
+  let prisma: any;
+  let service: RefreshTokenService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    prisma = {
+      refreshToken: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        count: jest.fn(),
+      },
+    };
+    service = new RefreshTokenService(prisma, {
+      get: (_key: string, fallback: unknown) => fallback,
+    } as any);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  const storedToken = (overrides: object = {}) => ({
+    id: 10,
+    userId: 1,
+    familyId: 'family-1',
+    revokedAt: null,
+    revokeReason: null,
+    expiresAt: new Date(now.getTime() + DAY),
+    ...overrides,
+  });
+
+  describe('rotate', () => {
+    it('should revoke the used token and issue the next one in the same family', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+
+      const next = await service.rotate('old-token');
+
+      expect(prisma.refreshToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('old-token') },
+      });
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 10, revokedAt: null },
+        data: { revokedAt: now, revokeReason: RevokeReason.ROTATED },
+      });
+      expect(next).toMatchObject({
+        userId: 1,
+        familyId: 'family-1',
+        expiresAt: new Date(now.getTime() + 30 * DAY),
+      });
+      expect(next.token).not.toBe('old-token');
+      expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          familyId: 'family-1',
+          tokenHash: hashToken(next.token),
+        }),
+      });
+    });
+
+    it('should revoke the whole family when a rotated token comes back', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ revokedAt: now, revokeReason: RevokeReason.ROTATED }),
+      );
+
+      await expect(service.rotate('old-token')).rejects.toThrow(
+        'Sesja została unieważniona',
+      );
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: { revokedAt: now, revokeReason: RevokeReason.REUSE_DETECTED },
+      });
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a parallel refresh used the token first', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      prisma.refreshToken.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      await expect(service.rotate('old-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.refreshToken.updateMany).toHaveBeenLastCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: { revokedAt: now, revokeReason: RevokeReason.REUSE_DETECTED },
+      });
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token from a logged-out session without further revocation', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ revokedAt: now, revokeReason: RevokeReason.LOGOUT }),
+      );
+
+      await expect(service.rotate('old-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown and expired tokens', async () => {
+      prisma.refreshToken.findUnique.mockResolvedValueOnce(null);
+      await expect(service.rotate('unknown')).rejects.toThrow(
+        'Nieprawidłowy refresh token',
+      );
+
+      prisma.refreshToken.findUnique.mockResolvedValueOnce(
+        storedToken({ expiresAt: new Date(now.getTime() - 1) }),
+      );
+      await expect(service.rotate('old-token')).rejects.toThrow(
+        'Refresh token wygasł',
+      );
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should count only unrevoked, unexpired tokens of the family', async () => {
+      prisma.refreshToken.count.mockResolvedValueOnce(1);
+      expect(await service.isSessionActive('family-1')).toBe(true);
+      expect(prisma.refreshToken.count).toHaveBeenCalledWith({
+        where: {
+          familyId: 'family-1',
+          revokedAt: null,
+          expiresAt: { gt: now },
+        },
+      });
+
+      prisma.refreshToken.count.mockResolvedValueOnce(0);
+      expect(await service.isSessionActive('family-1')).toBe(false);
+    });
+  });
+});
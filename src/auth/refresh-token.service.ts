@@ -0,0 +1,90 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { generateToken, hashToken } from './token.util';
+
+export const RevokeReason = {
+  ROTATED: 'ROTATED',
+  LOGOUT: 'LOGOUT',
+  LOGOUT_ALL: 'LOGOUT_ALL',
+  REUSE_DETECTED: 'REUSE_DETECTED',
+} as const;
+
+// Refresh tokeny są jednorazowe: każde odświeżenie unieważnia stary i wydaje nowy
+// w tej samej rodzinie (sesji). Ponowne użycie zużytego tokenu = wyciek -> cała sesja ginie.
+@Injectable()
+export class RefreshTokenService {
+  private readonly ttlMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    config: ConfigService,
+  ) {
+    const days = Number(config.get('REFRESH_TOKEN_TTL_DAYS', 30));
+    this.ttlMs = days * 24 * 60 * 60 * 1000;
+  }
+
+  // Nowa sesja (familyId pomijamy) albo kolejny token istniejącej
+  async issue(userId: number, familyId: string = randomUUID()) {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + this.ttlMs);
+    await this.prisma.refreshToken.create({
+      data: { userId, familyId, tokenHash: hashToken(token), expiresAt },
+    });
+    return { token, familyId, expiresAt };
+  }
+
+  async rotate(token: string) {
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (!stored) throw new UnauthorizedException('Nieprawidłowy refresh token');
+
+    if (stored.revokedAt) {
+      // Zużyty token wrócił - ktoś go skopiował. Zabijamy całą sesję.
+      if (stored.revokeReason === RevokeReason.ROTATED) {
+        await this.revokeFamily(stored.familyId, RevokeReason.REUSE_DETECTED);
+      }
+      throw new UnauthorizedException('Sesja została unieważniona');
+    }
+    if (stored.expiresAt < new Date()) {
+      throw new UnauthorizedException('Refresh token wygasł');
+    }
+
+    // Warunek revokedAt: null chroni przed wyścigiem dwóch równoległych odświeżeń
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date(), revokeReason: RevokeReason.ROTATED },
+    });
+    if (!count) {
+      await this.revokeFamily(stored.familyId, RevokeReason.REUSE_DETECTED);
+      throw new UnauthorizedException('Sesja została unieważniona');
+    }
+
+    const next = await this.issue(stored.userId, stored.familyId);
+    return { userId: stored.userId, ...next };
+  }
+
+  revokeFamily(familyId: string, reason: string = RevokeReason.LOGOUT) {
+    return this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date(), revokeReason: reason },
+    });
+  }
+
+  revokeAllForUser(userId: number) {
+    return this.prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokeReason: RevokeReason.LOGOUT_ALL },
+    });
+  }
+
+  // Sesja żyje, dopóki ma choć jeden nieunieważniony token
+  async isSessionActive(familyId: string): Promise<boolean> {
+    const active = await this.prisma.refreshToken.count({
+      where: { familyId, revokedAt: null, expiresAt: { gt: new Date() } },
+    });
+    return active > 0;
+  }
+}
@@ -0,0 +1,18 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from './roles.guard';
+import { Permission, PERMISSIONS_KEY, Role, ROLES_KEY } from './roles';
+
+// Wymaga zalogowania i jednej z podanych ról
+export const Roles = (...roles: Role[]) =>
+  applyDecorators(
+    SetMetadata(ROLES_KEY, roles),
+    UseGuards(AuthGuard('jwt'), RolesGuard),
+  );
+
+// Wymaga zalogowania i WSZYSTKICH podanych uprawnień
+export const RequirePermissions = (...permissions: Permission[]) =>
+  applyDecorators(
+    SetMetadata(PERMISSIONS_KEY, permissions),
+    UseGuards(AuthGuard('jwt'), RolesGuard),
+  );
@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  hasPermission,
+  Permission,
+  PERMISSIONS_KEY,
+  Role,
+  ROLES_KEY,
+} from './roles';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, targets);
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      targets,
+    );
+
+    if (!roles?.length && !permissions?.length) return true;
+
+    const user = context.switchToHttp().getRequest().user;
+    if (!user) throw new ForbiddenException('Brak uprawnień');
+
+    if (roles?.length && !roles.includes(user.role)) {
+      throw new ForbiddenException('Brak uprawnień');
+    }
+    if (permissions?.some((p) => !hasPermission(user.role, p))) {
+      throw new ForbiddenException('Brak uprawnień');
+    }
+    return true;
+  }
+}
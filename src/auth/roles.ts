@@ -0,0 +1,53 @@
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
+
+// Role użytkowników (kolumna User.role jest zwykłym stringiem)
+export const Role = {
+  USER: 'USER',
+  MODERATOR: 'MODERATOR',
+  ADMIN: 'ADMIN',
+} as const;
+
+export type Role = (typeof Role)[keyof typeof Role];
+
+export const ALL_ROLES: Role[] = [Role.USER, Role.MODERATOR, Role.ADMIN];
+
+// Uprawnienia do pojedynczych akcji w panelu
+export const Permission = {
+  VIEW_ADMIN_PANEL: 'VIEW_ADMIN_PANEL', // listy firm / osób
+  EDIT_SCORES: 'EDIT_SCORES', // zmiana trustScore / riskLevel / danych firmy i osoby
+  LINK_PHONES: 'LINK_PHONES', // przypisywanie telefonów do firm
+  VIEW_RAW_DATA: 'VIEW_RAW_DATA', // surowa odpowiedź z API MF (rawData)
+  MANAGE_USERS: 'MANAGE_USERS', // nadawanie i odbieranie ról
+  MODERATE_REPORTS: 'MODERATE_REPORTS', // kolejka moderacji zgłoszeń
+  MERGE_PERSONS: 'MERGE_PERSONS', // scalanie i rozdzielanie duplikatów osób
+  VIEW_AUDIT_LOG: 'VIEW_AUDIT_LOG', // dziennik zmian administracyjnych (tylko ADMIN)
+  MANAGE_WEBHOOKS: 'MANAGE_WEBHOOKS', // subskrypcje webhooków partnerów (tylko ADMIN)
+  MANAGE_API_KEYS: 'MANAGE_API_KEYS', // organizacje B2B, klucze API i ich zużycie (tylko ADMIN)
+} as const;
+
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  USER: [],
+  MODERATOR: [
+    Permission.VIEW_ADMIN_PANEL,
+    Permission.EDIT_SCORES,
+    Permission.LINK_PHONES,
+    Permission.MODERATE_REPORTS,
+    Permission.MERGE_PERSONS,
+  ],
+  ADMIN: Object.values(Permission),
+};
+
+export function isRole(value: unknown): value is Role {
+  return ALL_ROLES.includes(value as Role);
+}
+
+export function hasPermission(
+  role: string | undefined,
+  permission: Permission,
+): boolean {
+  if (!isRole(role)) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,10 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Losowy token do wysłania użytkownikowi; w bazie trzymamy tylko hashToken()
+export function generateToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
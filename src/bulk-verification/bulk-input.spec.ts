@@ -0,0 +1,61 @@
+import { extractBulkRows, parseCsv } from './bulk-input';
+
+describe('parseCsv', () => {
+  it('should detect semicolon-separated files exported from Excel', () => {
+    expect(parseCsv('\uFEFFNIP;Telefon\r\n5213017228;500 600 700\r\n')).toEqual(
+      [
+        ['NIP', 'Telefon'],
+        ['5213017228', '500 600 700'],
+      ],
+    );
+  });
+
+  it('should handle quoted fields with delimiters, quotes and newlines', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+});
+
+describe('extractBulkRows', () => {
+  it('should read only known columns when the file has a header', () => {
+    const rows = extractBulkRows([
+      ['Dostawca', 'NIP', 'Numer konta'],
+      ['ACME', 'PL 521-301-72-28', '61 1090 1014 0000 0712 1981 2874'],
+      ['Foo', '1234567890', ''],
+    ]);
+
+    expect(rows).toEqual([
+      { row: 2, type: 'NIP', input: 'PL 521-301-72-28', value: '5213017228' },
+      {
+        row: 2,
+        type: 'ACCOUNT',
+        input: '61 1090 1014 0000 0712 1981 2874',
+        value: 'PL61109010140000071219812874',
+      },
+      {
+        row: 3,
+        type: 'NIP',
+        input: '1234567890',
+        value: null,
+        error: 'Niepoprawny NIP',
+      },
+    ]);
+  });
+
+  it('should classify every cell when there is no header', () => {
+    const rows = extractBulkRows([
+      ['5213017228'],
+      ['+48 500 600 700'],
+      ['jan@example.com'],
+    ]);
+
+    expect(rows.map((r) => [r.row, r.type, r.value])).toEqual([
+      [1, 'NIP', '5213017228'],
+      [2, 'PHONE', '+48500600700'],
+      [3, null, null],
+    ]);
+    expect(rows[2].error).toMatch(/Nie rozpoznano/);
+  });
+});
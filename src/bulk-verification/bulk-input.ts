@@ -0,0 +1,150 @@
+import { isValidNip, classifyQuery } from '../verification/query-classifier';
+import { normalizeBankAccount } from '../verification/bank-account.util';
+import { BULK_ITEM_TYPES, BulkItemType } from './bulk-jobs';
+
+// Jedna wartość z pliku; type = null, gdy nie udało się jej rozpoznać
+export interface BulkInputRow {
+  row: number; // Numer wiersza w pliku (od 1, razem z nagłówkiem)
+  type: BulkItemType | null;
+  input: string; // Wartość jak w pliku
+  value: string | null; // Postać znormalizowana, przekazywana do weryfikacji
+  error?: string;
+}
+
+// Nagłówki kolumn (małymi literami) -> rodzaj wartości
+const HEADER_ALIASES: Record<string, BulkItemType> = {
+  nip: 'NIP',
+  'nip dostawcy': 'NIP',
+  'vat id': 'NIP',
+  telefon: 'PHONE',
+  'numer telefonu': 'PHONE',
+  phone: 'PHONE',
+  konto: 'ACCOUNT',
+  'numer konta': 'ACCOUNT',
+  rachunek: 'ACCOUNT',
+  'rachunek bankowy': 'ACCOUNT',
+  iban: 'ACCOUNT',
+  account: 'ACCOUNT',
+};
+
+const INVALID_VALUE: Record<BulkItemType, string> = {
+  NIP: 'Niepoprawny NIP',
+  PHONE: 'Niepoprawny numer telefonu',
+  ACCOUNT: 'Niepoprawny numer konta (NRB/IBAN)',
+};
+
+// CSV z Excela: średnik albo przecinek (albo tabulator), pola w cudzysłowach,
+// "" jako cudzysłów w polu, BOM na początku pliku
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const counts = [';', ',', '\t'].map((d) => ({
+    d,
+    count: firstLine.split(d).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].d : ';';
+}
+
+// Wiersze arkusza -> wartości do sprawdzenia. Jeśli pierwszy wiersz ma znane
+// nagłówki (NIP, telefon, konto), czytamy tylko te kolumny i sprawdzamy format;
+// bez nagłówka rodzaj każdej komórki rozpoznajemy jak w wyszukiwarce.
+export function extractBulkRows(table: string[][]): BulkInputRow[] {
+  const header = (table[0] ?? []).map((cell) => HEADER_ALIASES[toHeader(cell)]);
+  const hasHeader = header.some(Boolean);
+  const result: BulkInputRow[] = [];
+
+  table.forEach((cells, index) => {
+    if (hasHeader && index === 0) return;
+    cells.forEach((cell, column) => {
+      const input = cell.trim();
+      if (!input) return;
+      if (hasHeader && !header[column]) return;
+      result.push(
+        hasHeader
+          ? parseTyped(index + 1, input, header[column])
+          : parseDetected(index + 1, input),
+      );
+    });
+  });
+  return result;
+}
+
+function parseTyped(
+  row: number,
+  input: string,
+  type: BulkItemType,
+): BulkInputRow {
+  const value = normalizeValue(type, input);
+  return value
+    ? { row, type, input, value }
+    : { row, type, input, value: null, error: INVALID_VALUE[type] };
+}
+
+function parseDetected(row: number, input: string): BulkInputRow {
+  const { type, normalized } = classifyQuery(input);
+  if ((BULK_ITEM_TYPES as readonly string[]).includes(type)) {
+    return { row, type: type as BulkItemType, input, value: normalized };
+  }
+  return {
+    row,
+    type: null,
+    input,
+    value: null,
+    error: 'Nie rozpoznano NIP, numeru telefonu ani numeru konta',
+  };
+}
+
+function normalizeValue(type: BulkItemType, input: string): string | null {
+  if (type === 'NIP') {
+    const nip = input.replace(/[\s\-.]/g, '').replace(/^PL/i, '');
+    return isValidNip(nip) ? nip : null;
+  }
+  if (type === 'ACCOUNT') return normalizeBankAccount(input)?.number ?? null;
+  const detected = classifyQuery(input);
+  return detected.type === 'PHONE' ? detected.normalized : null;
+}
+
+function toHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,26 @@
+export const BulkJobStatus = {
+  QUEUED: 'QUEUED',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type BulkJobStatus = (typeof BulkJobStatus)[keyof typeof BulkJobStatus];
+
+export const BulkItemStatus = {
+  PENDING: 'PENDING',
+  DONE: 'DONE',
+  ERROR: 'ERROR',
+} as const;
+
+export type BulkItemStatus =
+  (typeof BulkItemStatus)[keyof typeof BulkItemStatus];
+
+// Rodzaje wartości, które umiemy zweryfikować z pliku
+export const BULK_ITEM_TYPES = ['NIP', 'PHONE', 'ACCOUNT'] as const;
+
+export type BulkItemType = (typeof BULK_ITEM_TYPES)[number];
+
+// Większe pliki trzeba podzielić - jedno zadanie nie może blokować kolejki na wiele godzin
+export const MAX_BULK_ROWS = 5000;
+export const MAX_BULK_FILE_SIZE = 5 * 1024 * 1024;
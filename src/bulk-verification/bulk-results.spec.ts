@@ -0,0 +1,75 @@
+import {
+  BulkVerification,
+  resultsToCsv,
+  summarizeAlerts,
+} from './bulk-results';
+
+describe('summarizeAlerts', () => {
+  // Tylko pola, z których korzysta podsumowanie
+  const verified = (type: BulkVerification['type'], result: object) =>
+    summarizeAlerts({ type, result } as BulkVerification);
+
+  it('should flag inactive VAT payers, unregistered accounts and reports', () => {
+    expect(
+      verified('NIP', {
+        company: { vat: 'Zwolniony' },
+        accountAlerts: [{}, {}],
+        community: { alerts: 3 },
+      }),
+    ).toEqual([
+      'Status VAT: Zwolniony',
+      'Konta ze zgłoszeń spoza białej listy MF: 2',
+      'Negatywne zgłoszenia: 3',
+    ]);
+  });
+
+  it('should flag companies missing from the VAT register', () => {
+    expect(verified('NIP', { trustScore: 0 })).toEqual([
+      'Brak podmiotu w rejestrze VAT (biała lista MF)',
+    ]);
+  });
+
+  it('should return no alerts for a clean result', () => {
+    expect(
+      verified('ACCOUNT', {
+        onWhiteList: true,
+        community: { alerts: 0 },
+      }),
+    ).toEqual([]);
+    expect(verified('PHONE', { community: { alerts: 0 } })).toEqual([]);
+  });
+});
+
+describe('resultsToCsv', () => {
+  it('should write a semicolon-separated sheet with escaped fields', () => {
+    const csv = resultsToCsv([
+      {
+        row: 2,
+        type: 'NIP',
+        input: '5213017228',
+        status: 'DONE',
+        trustScore: 40,
+        riskLevel: 'Średni',
+        alerts: ['Status VAT: Zwolniony', 'Negatywne zgłoszenia: 1'],
+        error: null,
+      },
+      {
+        row: 3,
+        type: null,
+        input: 'a;"b"',
+        status: 'ERROR',
+        trustScore: null,
+        riskLevel: null,
+        alerts: [],
+        error: 'Nie rozpoznano',
+      },
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFrow;type;input;status;trustScore;riskLevel;alerts;error',
+      '2;NIP;5213017228;DONE;40;Średni;Status VAT: Zwolniony | Negatywne zgłoszenia: 1;',
+      '3;;"a;""b""";ERROR;;;;Nie rozpoznano',
+      '',
+    ]);
+  });
+});
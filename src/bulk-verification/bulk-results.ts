@@ -0,0 +1,91 @@
+import type { BankAccountVerificationService } from '../verification/bank-account-verification.service';
+import type { PhoneVerificationService } from '../verification/phone-verification.service';
+import type { VerificationService } from '../verification/verification.service';
+
+// Wynik weryfikacji wiersza - odpowiedź tego samego serwisu co w API
+export type BulkVerification =
+  | {
+      type: 'NIP';
+      result: Awaited<ReturnType<VerificationService['verifyCompany']>>;
+    }
+  | {
+      type: 'PHONE';
+      result: Awaited<ReturnType<PhoneVerificationService['checkPhone']>>;
+    }
+  | {
+      type: 'ACCOUNT';
+      result: Awaited<
+        ReturnType<BankAccountVerificationService['checkAccount']>
+      >;
+    };
+
+// Wynik wiersza w eksporcie (CSV/JSON)
+export interface BulkResultRow {
+  row: number;
+  type: string | null;
+  input: string;
+  status: string;
+  trustScore: number | null;
+  riskLevel: string | null;
+  alerts: string[];
+  error: string | null;
+}
+
+const RESULT_COLUMNS: (keyof BulkResultRow)[] = [
+  'row',
+  'type',
+  'input',
+  'status',
+  'trustScore',
+  'riskLevel',
+  'alerts',
+  'error',
+];
+
+// Najważniejsze sygnały z pełnej odpowiedzi weryfikacji - tyle mieści się w arkuszu
+export function summarizeAlerts({ type, result }: BulkVerification): string[] {
+  const alerts: string[] = [];
+
+  if (type === 'NIP') {
+    // Podmiotu nie ma w rejestrze - odpowiedź bez sekcji company
+    if (!('company' in result)) {
+      alerts.push('Brak podmiotu w rejestrze VAT (biała lista MF)');
+    } else {
+      if (result.company.vat !== 'Czynny') {
+        alerts.push(`Status VAT: ${result.company.vat}`);
+      }
+      if (result.accountAlerts.length) {
+        alerts.push(
+          `Konta ze zgłoszeń spoza białej listy MF: ${result.accountAlerts.length}`,
+        );
+      }
+    }
+  }
+  if (type === 'ACCOUNT' && !result.onWhiteList) {
+    alerts.push('Konto spoza białej listy MF');
+  }
+  if ('community' in result && result.community.alerts) {
+    alerts.push(`Negatywne zgłoszenia: ${result.community.alerts}`);
+  }
+  return alerts;
+}
+
+// Średnik i BOM - Excel z polskimi ustawieniami otwiera taki plik bez importu
+export function resultsToCsv(rows: BulkResultRow[]): string {
+  const lines = [
+    RESULT_COLUMNS.join(';'),
+    ...rows.map((row) =>
+      RESULT_COLUMNS.map((column) => {
+        const value = row[column];
+        return csvField(Array.isArray(value) ? value.join(' | ') : value);
+      }).join(';'),
+    ),
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Request,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { BulkVerificationService } from './bulk-verification.service';
+import { resultsToCsv } from './bulk-results';
+import { ResultsQueryDto } from './dto/results-query.dto';
+
+@Controller('bulk-verification')
+@UseGuards(AuthGuard('jwt'))
+export class BulkVerificationController {
+  constructor(
+    private readonly bulkVerificationService: BulkVerificationService,
+  ) {}
+
+  // multipart/form-data, pole "file": CSV albo XLSX z kolumnami NIP / telefon / konto
+  // (bez nagłówka rodzaj każdej komórki jest rozpoznawany automatycznie)
+  @Post()
+  @UseInterceptors(FileInterceptor('file'))
+  create(@UploadedFile() file: Express.Multer.File, @Request() req: any) {
+    return this.bulkVerificationService.createJob(req.user.userId, file);
+  }
+
+  @Get()
+  list(@Request() req: any) {
+    return this.bulkVerificationService.listJobs(req.user.userId);
+  }
+
+  // Postęp: status, processedRows / totalRows, progress (%)
+  @Get(':id')
+  get(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.bulkVerificationService.getJob(req.user.userId, id);
+  }
+
+  // ?format=csv - plik do otwarcia w Excelu; domyślnie JSON
+  @Get(':id/results')
+  async getResults(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ResultsQueryDto,
+    @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const results = await this.bulkVerificationService.getResults(
+      req.user.userId,
+      id,
+    );
+    if (query.format !== 'csv') return results;
+
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="weryfikacja-${id}.csv"`,
+    });
+    return new StreamableFile(Buffer.from(resultsToCsv(results.rows)));
+  }
+
+  @Delete(':id')
+  cancel(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.bulkVerificationService.cancelJob(req.user.userId, id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
+import { memoryStorage } from 'multer';
+import { VerificationModule } from '../verification/verification.module';
+import { BulkVerificationController } from './bulk-verification.controller';
+import { BulkVerificationService } from './bulk-verification.service';
+import { BulkVerificationWorker } from './bulk-verification.worker';
+import { MAX_BULK_FILE_SIZE } from './bulk-jobs';
+
+@Module({
+  imports: [
+    MulterModule.register({
+      storage: memoryStorage(),
+      limits: { fileSize: MAX_BULK_FILE_SIZE },
+    }),
+    VerificationModule,
+  ],
+  controllers: [BulkVerificationController],
+  providers: [BulkVerificationService, BulkVerificationWorker],
+})
+export class BulkVerificationModule {}
@@ -0,0 +1,186 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import { PrismaService } from '../prisma.service';
+import { extractBulkRows, parseCsv } from './bulk-input';
+import { BulkResultRow } from './bulk-results';
+import { BulkItemStatus, BulkJobStatus, MAX_BULK_ROWS } from './bulk-jobs';
+
+const XLSX_MIME =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const JOB_LIST_LIMIT = 50;
+
+@Injectable()
+export class BulkVerificationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Plik jest czytany od razu (błędy formatu wracają w odpowiedzi),
+  // a weryfikację wykonuje w tle BulkVerificationWorker
+  async createJob(userId: number, file: Express.Multer.File) {
+    if (!file) throw new BadRequestException('Brak pliku do weryfikacji');
+
+    const rows = extractBulkRows(await this.readTable(file));
+    if (!rows.length) {
+      throw new BadRequestException(
+        'Plik nie zawiera NIP-ów, numerów telefonów ani numerów kont',
+      );
+    }
+    if (rows.length > MAX_BULK_ROWS) {
+      throw new BadRequestException(
+        `Plik może zawierać najwyżej ${MAX_BULK_ROWS} wartości - podziel go na części`,
+      );
+    }
+
+    // Nierozpoznane wartości od razu trafiają do wyników jako błędy
+    const now = new Date();
+    const invalid = rows.filter((r) => r.error).length;
+    const finished = invalid === rows.length;
+
+    const job = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.bulkVerificationJob.create({
+        data: {
+          userId,
+          fileName: file.originalname,
+          status: finished ? BulkJobStatus.COMPLETED : BulkJobStatus.QUEUED,
+          totalRows: rows.length,
+          processedRows: invalid,
+          failedRows: invalid,
+          finishedAt: finished ? now : null,
+        },
+      });
+      await tx.bulkVerificationItem.createMany({
+        data: rows.map((r) => ({
+          jobId: created.id,
+          row: r.row,
+          type: r.type,
+          input: r.input,
+          value: r.value,
+          status: r.error ? BulkItemStatus.ERROR : BulkItemStatus.PENDING,
+          error: r.error ?? null,
+          processedAt: r.error ? now : null,
+        })),
+      });
+      return created;
+    });
+    return this.toProgress(job);
+  }
+
+  async listJobs(userId: number) {
+    const jobs = await this.prisma.bulkVerificationJob.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: JOB_LIST_LIMIT,
+    });
+    return jobs.map((job) => this.toProgress(job));
+  }
+
+  async getJob(userId: number, id: number) {
+    return this.toProgress(await this.findJob(userId, id));
+  }
+
+  // Wyniki są dostępne także w trakcie - wiersze jeszcze nieprzetworzone mają status PENDING
+  async getResults(userId: number, id: number) {
+    const job = await this.findJob(userId, id);
+    const items = await this.prisma.bulkVerificationItem.findMany({
+      where: { jobId: id },
+      orderBy: [{ row: 'asc' }, { id: 'asc' }],
+    });
+    const rows: BulkResultRow[] = items.map((item) => ({
+      row: item.row,
+      type: item.type,
+      input: item.input,
+      status: item.status,
+      trustScore: item.trustScore,
+      riskLevel: item.riskLevel,
+      alerts: item.alerts,
+      error: item.error,
+    }));
+    return { job: this.toProgress(job), rows };
+  }
+
+  // Przerwane zadanie zachowuje wyniki wierszy sprawdzonych do tej pory
+  async cancelJob(userId: number, id: number) {
+    const job = await this.findJob(userId, id);
+    if (
+      job.status !== BulkJobStatus.QUEUED &&
+      job.status !== BulkJobStatus.RUNNING
+    ) {
+      throw new BadRequestException('Zadanie zostało już zakończone');
+    }
+    const cancelled = await this.prisma.bulkVerificationJob.update({
+      where: { id },
+      data: {
+        status: BulkJobStatus.CANCELLED,
+        finishedAt: new Date(),
+        leaseUntil: null,
+        leaseOwner: null,
+      },
+    });
+    return this.toProgress(cancelled);
+  }
+
+  private toProgress(job: any) {
+    return {
+      id: job.id,
+      fileName: job.fileName,
+      status: job.status,
+      totalRows: job.totalRows,
+      processedRows: job.processedRows,
+      failedRows: job.failedRows,
+      progress: job.totalRows
+        ? Math.floor((job.processedRows / job.totalRows) * 100)
+        : 100,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    };
+  }
+
+  // Cudzych zadań nie ujawniamy - dla nich też 404
+  private async findJob(userId: number, id: number) {
+    const job = await this.prisma.bulkVerificationJob.findUnique({
+      where: { id },
+    });
+    if (!job || job.userId !== userId) {
+      throw new NotFoundException('Zadanie weryfikacji nie istnieje');
+    }
+    return job;
+  }
+
+  private async readTable(file: Express.Multer.File): Promise<string[][]> {
+    const name = file.originalname.toLowerCase();
+    if (name.endsWith('.xlsx') || file.mimetype === XLSX_MIME) {
+      return this.readXlsx(file.buffer);
+    }
+    if (name.endsWith('.csv') || file.mimetype.startsWith('text/')) {
+      return parseCsv(file.buffer.toString('utf8'));
+    }
+    throw new BadRequestException('Obsługiwane formaty plików: CSV, XLSX');
+  }
+
+  // Pierwszy arkusz skoroszytu; numery wierszy zgodne z Excelem
+  private async readXlsx(buffer: Buffer): Promise<string[][]> {
+    const workbook = new Workbook();
+    try {
+      // Typy exceljs deklarują Buffer jako ArrayBuffer - przekazujemy kopię
+      // bajtów pliku (buffer z multera bywa widokiem na większy bufor)
+      await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+    } catch {
+      throw new BadRequestException('Nie udało się odczytać pliku XLSX');
+    }
+    const sheet = workbook.worksheets[0];
+    const table: string[][] = [];
+    sheet?.eachRow((row, rowNumber) => {
+      const cells: string[] = [];
+      row.eachCell((cell, column) => {
+        cells[column - 1] = cell.text;
+      });
+      table[rowNumber - 1] = Array.from(cells, (cell) => cell ?? '');
+    });
+    return Array.from(table, (cells) => cells ?? []);
+  }
+}
@@ -0,0 +1,82 @@
+import { Logger } from '@nestjs/common';
+import { BulkVerificationWorker } from './bulk-verification.worker';
+import { BulkItemStatus, BulkJobStatus } from './bulk-jobs';
+
+describe('BulkVerificationWorker', () => {
+  let prisma: any;
+  let verificationService: { verifyCompany: jest.Mock };
+  let worker: BulkVerificationWorker;
+
+  beforeEach(() => {
+    prisma = {
+      bulkVerificationJob: {
+        findFirst: jest.fn().mockResolvedValue({
+          id: 1,
+          status: BulkJobStatus.QUEUED,
+          leaseUntil: null,
+          startedAt: null,
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      bulkVerificationItem: {
+        findMany: jest
+          .fn()
+          .mockResolvedValueOnce([{ id: 10, type: 'NIP', value: '5260250274' }])
+          .mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      $transaction: jest.fn((fn) => fn(prisma)),
+    };
+    verificationService = {
+      verifyCompany: jest
+        .fn()
+        .mockResolvedValue({ trustScore: 80, riskLevel: 'Bardzo Niski' }),
+    };
+    worker = new BulkVerificationWorker(
+      prisma,
+      {} as any,
+      {} as any,
+      verificationService as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  const jobWhere = () =>
+    prisma.bulkVerificationJob.updateMany.mock.calls.map(
+      ([args]) => args.where,
+    );
+
+  it('should renew the lease and save rows only with its own lease token', async () => {
+    await worker.tick();
+
+    const [claim, ...owned] = prisma.bulkVerificationJob.updateMany.mock.calls;
+    const owner = claim[0].data.leaseOwner;
+    expect(owner).toEqual(expect.any(String));
+    expect(owned.length).toBeGreaterThan(0);
+    for (const where of jobWhere().slice(1)) {
+      expect(where).toEqual({
+        id: 1,
+        status: BulkJobStatus.RUNNING,
+        leaseOwner: owner,
+      });
+    }
+    expect(prisma.bulkVerificationItem.updateMany).toHaveBeenCalledWith({
+      where: { id: 10, status: BulkItemStatus.PENDING },
+      data: expect.objectContaining({ status: BulkItemStatus.DONE }),
+    });
+  });
+
+  it('should roll back the row counters when another instance saved the row', async () => {
+    prisma.bulkVerificationItem.updateMany.mockResolvedValue({ count: 0 });
+    const logError = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+
+    await worker.tick();
+
+    await expect(prisma.$transaction.mock.results[0].value).rejects.toThrow();
+    expect(logError).not.toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { VerificationService } from '../verification/verification.service';
+import { PhoneVerificationService } from '../verification/phone-verification.service';
+import { BankAccountVerificationService } from '../verification/bank-account-verification.service';
+import { BulkVerification, summarizeAlerts } from './bulk-results';
+import { BulkItemStatus, BulkItemType, BulkJobStatus } from './bulk-jobs';
+
+const INTERVAL_NAME = 'bulk-verification-worker';
+const BATCH_SIZE = 10;
+// Lease odnawiany po każdej partii; jeśli proces padnie, zadanie przejmie inna instancja
+const LEASE_MS = 5 * 60 * 1000;
+
+// Wiersz zapisała już inna instancja - wycofuje transakcję razem z licznikami zadania
+class ItemAlreadyProcessed extends Error {}
+
+interface JobLease {
+  jobId: number;
+  owner: string; // Losowy token instancji, która przejęła zadanie
+}
+
+// Worker zadań BulkVerificationJob: jedno zadanie naraz na instancję, wiersz po wierszu.
+// Zapytania do MF ogranicza limiter w VatService, więc zadania nie zagłodzą API MF,
+// a firmy sprawdzone w ciągu doby idą z cache (verifyCompany).
+// BULK_WORKER_ENABLED=false wyłącza go (np. w instancjach tylko z API).
+@Injectable()
+export class BulkVerificationWorker
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(BulkVerificationWorker.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly scheduler: SchedulerRegistry,
+    private readonly config: ConfigService,
+    private readonly verificationService: VerificationService,
+    private readonly phoneVerificationService: PhoneVerificationService,
+    private readonly bankAccountVerificationService: BankAccountVerificationService,
+  ) {}
+
+  onModuleInit() {
+    if (this.config.get<string>('BULK_WORKER_ENABLED', 'true') !== 'true') {
+      return;
+    }
+    const every = Number(this.config.get('BULK_POLL_INTERVAL_MS', 5000));
+    this.scheduler.addInterval(
+      INTERVAL_NAME,
+      setInterval(() => void this.tick(), every),
+    );
+  }
+
+  onApplicationShutdown() {
+    if (this.scheduler.doesExist('interval', INTERVAL_NAME)) {
+      this.scheduler.deleteInterval(INTERVAL_NAME);
+    }
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const lease = await this.claimNextJob();
+      if (lease) await this.process(lease);
+    } catch (err) {
+      this.logger.error(`Błąd kolejki masowej weryfikacji: ${err}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Najstarsze zadanie w kolejce albo porzucone przez instancję, która padła
+  private async claimNextJob(): Promise<JobLease | null> {
+    const now = new Date();
+    const job = await this.prisma.bulkVerificationJob.findFirst({
+      where: {
+        OR: [
+          { status: BulkJobStatus.QUEUED },
+          { status: BulkJobStatus.RUNNING, leaseUntil: { lt: now } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, status: true, leaseUntil: true, startedAt: true },
+    });
+    if (!job) return null;
+
+    const owner = randomUUID();
+    const claimed = await this.prisma.bulkVerificationJob.updateMany({
+      where: { id: job.id, status: job.status, leaseUntil: job.leaseUntil },
+      data: {
+        status: BulkJobStatus.RUNNING,
+        leaseOwner: owner,
+        leaseUntil: new Date(now.getTime() + LEASE_MS),
+        startedAt: job.startedAt ?? now,
+      },
+    });
+    return claimed.count === 1 ? { jobId: job.id, owner } : null;
+  }
+
+  // Zadanie, które nadal należy do tej instancji (nie anulowane i nie przejęte
+  // po wygaśnięciu lease przez inną)
+  private owned({ jobId, owner }: JobLease) {
+    return { id: jobId, status: BulkJobStatus.RUNNING, leaseOwner: owner };
+  }
+
+  private async process(lease: JobLease) {
+    const { jobId } = lease;
+    // Ta sama wartość kilka razy w pliku - sprawdzamy ją raz
+    const seen = new Map<string, Promise<BulkVerification>>();
+
+    for (;;) {
+      const items = await this.prisma.bulkVerificationItem.findMany({
+        where: { jobId, status: BulkItemStatus.PENDING },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (!items.length) {
+        await this.prisma.bulkVerificationJob.updateMany({
+          where: this.owned(lease),
+          data: {
+            status: BulkJobStatus.COMPLETED,
+            finishedAt: new Date(),
+            leaseUntil: null,
+            leaseOwner: null,
+          },
+        });
+        return;
+      }
+
+      for (const item of items) {
+        const key = `${item.type}:${item.value}`;
+        if (!seen.has(key)) seen.set(key, this.verify(item.type, item.value));
+        await this.complete(lease, item, seen.get(key)!);
+      }
+
+      // Anulowane lub przejęte w międzyczasie - kończymy bez dalszych zapytań
+      const renewed = await this.prisma.bulkVerificationJob.updateMany({
+        where: this.owned(lease),
+        data: { leaseUntil: new Date(Date.now() + LEASE_MS) },
+      });
+      if (renewed.count === 0) return;
+    }
+  }
+
+  private async verify(
+    type: BulkItemType,
+    value: string,
+  ): Promise<BulkVerification> {
+    if (type === 'NIP') {
+      return {
+        type,
+        result: await this.verificationService.verifyCompany(value),
+      };
+    }
+    if (type === 'PHONE') {
+      return {
+        type,
+        result: await this.phoneVerificationService.checkPhone(value),
+      };
+    }
+    return {
+      type,
+      result: await this.bankAccountVerificationService.checkAccount(value),
+    };
+  }
+
+  private async complete(
+    lease: JobLease,
+    item: { id: number },
+    verification: Promise<BulkVerification>,
+  ) {
+    let data: Prisma.BulkVerificationItemUpdateManyMutationInput;
+    let failed = false;
+    try {
+      const verified = await verification;
+      data = {
+        status: BulkItemStatus.DONE,
+        trustScore: verified.result.trustScore,
+        riskLevel: verified.result.riskLevel,
+        alerts: summarizeAlerts(verified),
+      };
+    } catch (err) {
+      failed = true;
+      data = {
+        status: BulkItemStatus.ERROR,
+        error: (err instanceof Error ? err.message : String(err)).slice(0, 500),
+      };
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Zadanie anulowane lub przejęte w trakcie partii - wiersz zostaje nieprzetworzony
+        const counted = await tx.bulkVerificationJob.updateMany({
+          where: this.owned(lease),
+          data: {
+            processedRows: { increment: 1 },
+            ...(failed && { failedRows: { increment: 1 } }),
+          },
+        });
+        if (counted.count === 0) return;
+        const updated = await tx.bulkVerificationItem.updateMany({
+          where: { id: item.id, status: BulkItemStatus.PENDING },
+          data: { ...data, processedAt: new Date() },
+        });
+        if (updated.count === 0) throw new ItemAlreadyProcessed();
+      });
+    } catch (err) {
+      if (!(err instanceof ItemAlreadyProcessed)) throw err;
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export class ResultsQueryDto {
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv';
+}
@@ -0,0 +1,51 @@
+import {
+  ArgumentsHost,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { RetryAfterFilter } from './retry-after.filter';
+
+describe('RetryAfterFilter', () => {
+  let filter: RetryAfterFilter;
+  let superCatch: jest.SpyInstance;
+  let res: { setHeader: jest.Mock };
+  let host: ArgumentsHost;
+
+  beforeEach(() => {
+    filter = new RetryAfterFilter();
+    // Zapis odpowiedzi to już zachowanie Nesta - sprawdzamy tylko nagłówek
+    superCatch = jest
+      .spyOn(BaseExceptionFilter.prototype, 'catch')
+      .mockImplementation(() => undefined);
+    res = { setHeader: jest.fn() };
+    host = {
+      switchToHttp: () => ({ getResponse: () => res }),
+    } as unknown as ArgumentsHost;
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should copy retryAfterSeconds of a 429 into the Retry-After header', () => {
+    const error = new HttpException(
+      { message: 'Za dużo zgłoszeń', retryAfterSeconds: 120 },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+
+    filter.catch(error, host);
+
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '120');
+    expect(superCatch).toHaveBeenCalledWith(error, host);
+  });
+
+  it('should leave other errors untouched', () => {
+    filter.catch(new NotFoundException(), host);
+    filter.catch(
+      new HttpException('Za dużo', HttpStatus.TOO_MANY_REQUESTS),
+      host,
+    );
+
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+});
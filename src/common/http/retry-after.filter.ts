@@ -0,0 +1,28 @@
+import {
+  ArgumentsHost,
+  Catch,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import type { Response } from 'express';
+
+// 429 z polem retryAfterSeconds w treści (limity zgłoszeń, klucze API) dostaje też
+// standardowy nagłówek Retry-After - klienci HTTP i proxy nie czytają treści błędu
+@Catch(HttpException)
+export class RetryAfterFilter extends BaseExceptionFilter {
+  catch(exception: HttpException, host: ArgumentsHost) {
+    const body = exception.getResponse();
+    if (
+      exception.getStatus() === Number(HttpStatus.TOO_MANY_REQUESTS) &&
+      typeof body === 'object' &&
+      'retryAfterSeconds' in body
+    ) {
+      host
+        .switchToHttp()
+        .getResponse<Response>()
+        .setHeader('Retry-After', String(body.retryAfterSeconds));
+    }
+    super.catch(exception, host);
+  }
+}
@@ -0,0 +1,73 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  decodeCursor,
+  encodeCursor,
+  ListConfig,
+  parseListQuery,
+  rangeFilter,
+  toPage,
+} from './cursor-pagination';
+
+describe('cursor-pagination', () => {
+  const config: ListConfig = {
+    sortFields: ['createdAt', 'trustScore', 'id'],
+    defaultSort: '-createdAt',
+    idField: 'id',
+  };
+
+  it('should use the default sort with the id as a tie-breaker', () => {
+    const list = parseListQuery({}, config);
+    expect(list.orderBy).toEqual([{ createdAt: 'desc' }, { id: 'desc' }]);
+    expect(list.take).toBe(25);
+    expect(list.cursorWhere).toEqual({});
+  });
+
+  it('should reject unknown sort fields', () => {
+    expect(() => parseListQuery({ sort: 'password' }, config)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should round-trip a cursor into a keyset condition', () => {
+    const rows = [
+      { id: 7, trustScore: 40 },
+      { id: 3, trustScore: 40 },
+      { id: 9, trustScore: 55 },
+    ];
+    const first = parseListQuery({ sort: 'trustScore', limit: 2 }, config);
+    const page = toPage(rows, 10, first);
+
+    expect(page.items).toHaveLength(2);
+    expect(page.total).toBe(10);
+    expect(page.nextCursor).not.toBeNull();
+
+    const next = parseListQuery(
+      { sort: 'trustScore', limit: 2, cursor: page.nextCursor! },
+      config,
+    );
+    expect(next.cursorWhere).toEqual({
+      OR: [{ trustScore: { gt: 40 } }, { trustScore: 40, id: { gt: 3 } }],
+    });
+  });
+
+  it('should return no cursor on the last page', () => {
+    const list = parseListQuery({ limit: 2 }, config);
+    expect(toPage([{ id: 1 }], 1, list).nextCursor).toBeNull();
+  });
+
+  it('should refuse a cursor taken from a differently sorted list', () => {
+    const cursor = encodeCursor({ sort: '-createdAt', value: null, id: 1 });
+    expect(() =>
+      parseListQuery({ sort: 'trustScore', cursor }, config),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+  });
+
+  it('should build range filters only when a bound is given', () => {
+    expect(rangeFilter()).toBeUndefined();
+    expect(rangeFilter(10, undefined)).toEqual({ gte: 10, lte: undefined });
+  });
+});
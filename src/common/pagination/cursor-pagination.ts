@@ -0,0 +1,160 @@
+import { BadRequestException } from '@nestjs/common';
+
+export const DEFAULT_PAGE_LIMIT = 25;
+export const MAX_PAGE_LIMIT = 100;
+
+export type SortDirection = 'asc' | 'desc';
+
+// Konfiguracja listy: po czym wolno sortować i co jest unikalnym kluczem
+export interface ListConfig {
+  sortFields: readonly string[];
+  defaultSort: string; // np. "-createdAt" (minus = malejąco)
+  idField: string; // Rozstrzyga remisy i jest częścią kursora
+}
+
+export interface ListQuery {
+  cursor?: string;
+  limit?: number;
+  sort?: string;
+}
+
+export interface ParsedListQuery {
+  sortKey: string; // Postać z parametru sort, zapisywana w kursorze
+  sortField: string;
+  direction: SortDirection;
+  take: number;
+  orderBy: Record<string, SortDirection>[];
+  cursorWhere: Record<string, unknown>;
+  idField: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  nextCursor: string | null;
+}
+
+// Kursor to zakodowana pozycja ostatniego elementu strony (wartość sortowania + id)
+interface CursorPayload {
+  sort: string;
+  value: unknown;
+  id: unknown;
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (typeof payload?.sort !== 'string' || !('id' in payload)) {
+      throw new Error('invalid cursor');
+    }
+    return payload;
+  } catch {
+    throw new BadRequestException('Niepoprawny kursor stronicowania');
+  }
+}
+
+export function parseSort(
+  sort: string | undefined,
+  config: ListConfig,
+): { field: string; direction: SortDirection } {
+  const raw = (sort || config.defaultSort).trim();
+  const direction: SortDirection = raw.startsWith('-') ? 'desc' : 'asc';
+  const field = raw.replace(/^[-+]/, '');
+  if (!config.sortFields.includes(field)) {
+    throw new BadRequestException(
+      `Nie można sortować po "${field}". Dozwolone: ${config.sortFields.join(', ')}`,
+    );
+  }
+  return { field, direction };
+}
+
+// Warunek "elementy po kursorze" dla sortowania po (pole, id) - keyset pagination,
+// więc kolejne strony nie gubią ani nie dublują rekordów przy nowych wpisach
+function afterCursor(
+  field: string,
+  direction: SortDirection,
+  idField: string,
+  cursor: CursorPayload,
+): Record<string, unknown> {
+  const op = direction === 'desc' ? 'lt' : 'gt';
+  if (field === idField) {
+    return { [idField]: { [op]: cursor.id } };
+  }
+  return {
+    OR: [
+      { [field]: { [op]: cursor.value } },
+      { [field]: cursor.value, [idField]: { [op]: cursor.id } },
+    ],
+  };
+}
+
+export function parseListQuery(
+  query: ListQuery,
+  config: ListConfig,
+): ParsedListQuery {
+  const { field, direction } = parseSort(query.sort, config);
+  const sortKey = `${direction === 'desc' ? '-' : ''}${field}`;
+  const take = Math.min(query.limit ?? DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT);
+
+  let cursorWhere: Record<string, unknown> = {};
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (cursor.sort !== sortKey) {
+      throw new BadRequestException(
+        'Kursor pochodzi z listy o innym sortowaniu',
+      );
+    }
+    cursorWhere = afterCursor(field, direction, config.idField, cursor);
+  }
+
+  const orderBy = [{ [field]: direction }];
+  if (field !== config.idField) orderBy.push({ [config.idField]: direction });
+
+  return {
+    sortKey,
+    sortField: field,
+    direction,
+    take,
+    orderBy,
+    cursorWhere,
+    idField: config.idField,
+  };
+}
+
+// Rekordy pobieramy z take + 1 - nadmiarowy oznacza, że jest następna strona
+export function toPage<T extends Record<string, any>>(
+  rows: T[],
+  total: number,
+  list: ParsedListQuery,
+): Page<T> {
+  const items = rows.slice(0, list.take);
+  const last = items[items.length - 1];
+  const hasMore = rows.length > list.take;
+
+  return {
+    items,
+    total,
+    limit: list.take,
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({
+            sort: list.sortKey,
+            value: last[list.sortField],
+            id: last[list.idField],
+          })
+        : null,
+  };
+}
+
+// { gte, lte } albo undefined, gdy nie podano żadnej granicy
+export function rangeFilter<T>(min?: T, max?: T) {
+  if (min === undefined && max === undefined) return undefined;
+  return { gte: min, lte: max };
+}
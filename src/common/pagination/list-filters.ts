@@ -0,0 +1,17 @@
+import { rangeFilter } from './cursor-pagination';
+import { ListQueryDto } from './list-query.dto';
+
+// Filtry wspólne dla firm, osób i telefonów (każdy model ma trustScore, createdAt i reports)
+export function commonListFilters(query: ListQueryDto) {
+  const where: Record<string, unknown> = {
+    trustScore: rangeFilter(query.minScore, query.maxScore),
+    createdAt: rangeFilter(
+      query.createdFrom ? new Date(query.createdFrom) : undefined,
+      query.createdTo ? new Date(query.createdTo) : undefined,
+    ),
+  };
+  if (query.hasReports !== undefined) {
+    where.reports = query.hasReports ? { some: {} } : { none: {} };
+  }
+  return where;
+}
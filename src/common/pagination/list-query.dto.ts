@@ -0,0 +1,65 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_PAGE_LIMIT } from './cursor-pagination';
+
+// Query string ma tylko teksty - "true"/"false" zamieniamy na boolean
+export const ToBoolean = () =>
+  Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  );
+
+// Wspólne parametry list w panelu: ?cursor=...&limit=50&sort=-trustScore&minScore=0&maxScore=30
+export class ListQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  cursor?: string; // nextCursor z poprzedniej strony
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_LIMIT)
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  sort?: string; // Nazwa pola, z "-" na początku malejąco
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  minScore?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  maxScore?: number;
+
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  hasReports?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  createdFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  createdTo?: string;
+}
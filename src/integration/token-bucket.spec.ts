@@ -0,0 +1,50 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  let clock: number;
+  let waits: number[];
+
+  const bucket = (capacity: number, ratePerMinute: number) =>
+    new TokenBucket(
+      capacity,
+      ratePerMinute,
+      () => clock,
+      (ms) => {
+        waits.push(ms);
+        clock += ms;
+        return Promise.resolve();
+      },
+    );
+
+  beforeEach(() => {
+    clock = 0;
+    waits = [];
+  });
+
+  it('should let a burst through without waiting', async () => {
+    const limiter = bucket(3, 60);
+    await Promise.all([limiter.take(), limiter.take(), limiter.take()]);
+    expect(waits).toEqual([]);
+  });
+
+  it('should space out calls beyond the burst at the configured rate', async () => {
+    const limiter = bucket(1, 60);
+    await limiter.take();
+    await limiter.take();
+    await limiter.take();
+    expect(waits).toEqual([1000, 1000]);
+    expect(clock).toBe(2000);
+  });
+
+  it('should refill while idle, but not above capacity', async () => {
+    const limiter = bucket(2, 60);
+    await limiter.take();
+    await limiter.take();
+    clock += 60_000;
+    await limiter.take();
+    await limiter.take();
+    expect(waits).toEqual([]);
+    await limiter.take();
+    expect(waits).toEqual([1000]);
+  });
+});
@@ -0,0 +1,44 @@
+// Kubełek tokenów: średnio `ratePerMinute` zapytań, chwilowo do `capacity` naraz.
+// Oczekujący dostają tokeny w kolejności wywołań take().
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+  private readonly refillPerMs: number;
+
+  constructor(
+    private readonly capacity: number,
+    ratePerMinute: number,
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms)),
+  ) {
+    this.refillPerMs = ratePerMinute / 60_000;
+    this.tokens = capacity;
+    this.updatedAt = this.now();
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken() {
+    this.refill();
+    if (this.tokens < 1) {
+      await this.sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill() {
+    const now = this.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.refillPerMs,
+    );
+    this.updatedAt = now;
+  }
+}
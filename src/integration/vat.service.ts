@@ -4,13 +4,22 @@ import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 import { AxiosError } from 'axios';
+import { TokenBucket } from './token-bucket';
 
 @Injectable()
 export class VatService {
+  // Limit zapytań do API MF na instancję - obejmuje też masowe weryfikacje z plików
+  private readonly limiter: TokenBucket;
+
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
-  ) {}
+  ) {
+    this.limiter = new TokenBucket(
+      Number(this.configService.get('MF_API_BURST', 5)),
+      Number(this.configService.get('MF_API_RATE_PER_MINUTE', 30)),
+    );
+  }
 
   async checkVatStatus(nip: string) {
     // API MF wymaga daty zapytania (format YYYY-MM-DD)
@@ -20,6 +29,7 @@ export class VatService {
     // Budujemy URL: https://wl-api.mf.gov.pl/api/search/nip/1234567890?date=2025-01-11
     const url = `${baseUrl}${nip}?date=${today}`;
 
+    await this.limiter.take();
     console.log(`[VatService] Odpytuję URL: ${url}`);
 
     try {
@@ -29,6 +39,21 @@ export class VatService {
           catchError((error: AxiosError) => {
             // Obsługa błędów HTTP (np. 404, 500 z ministerstwa)
             console.error('Błąd API MF:', error.response?.data || error.message);
+            // 4xx (poza limitem zapytań) = problem z tym NIP-em, nie z API -
+            // odświeżanie w tle przechodzi wtedy do kolejnej firmy
+            const status = error.response?.status;
+            if (status === HttpStatus.TOO_MANY_REQUESTS) {
+              throw new HttpException(
+                'Przekroczony limit zapytań do rejestru VAT',
+                HttpStatus.TOO_MANY_REQUESTS
+              );
+            }
+            if (status && status >= 400 && status < 500) {
+              throw new HttpException(
+                'Rejestr VAT odrzucił zapytanie o ten NIP',
+                HttpStatus.BAD_REQUEST
+              );
+            }
             throw new HttpException(
               'Nie udało się pobrać danych z rejestru VAT', 
               HttpStatus.BAD_GATEWAY
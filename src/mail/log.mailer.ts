@@ -0,0 +1,14 @@
+import { Logger } from '@nestjs/common';
+import { Mailer, MailMessage } from './mailer';
+
+// Domyślny w developmencie - zamiast wysyłać, wypisuje wiadomość w logach
+export class LogMailer implements Mailer {
+  private readonly logger = new Logger('Mailer');
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Do: ${message.to} | Temat: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,32 @@
+import { LogMailer } from './log.mailer';
+import { createMailer } from './mail.module';
+import { SmtpMailer } from './smtp.mailer';
+
+describe('createMailer', () => {
+  const configWith = (env: Record<string, string>) =>
+    ({
+      get: (key: string, fallback?: unknown) => env[key] ?? fallback,
+      getOrThrow: (key: string) => env[key],
+    }) as any;
+
+  it('should log mails outside production by default', () => {
+    expect(createMailer(configWith({}))).toBeInstanceOf(LogMailer);
+  });
+
+  it('should refuse to start in production without SMTP', () => {
+    expect(() => createMailer(configWith({ NODE_ENV: 'production' }))).toThrow(
+      'MAIL_DRIVER=smtp',
+    );
+  });
+
+  it('should send through SMTP when configured', () => {
+    const mailer = createMailer(
+      configWith({
+        NODE_ENV: 'production',
+        MAIL_DRIVER: 'smtp',
+        SMTP_HOST: 'smtp.example.com',
+      }),
+    );
+    expect(mailer).toBeInstanceOf(SmtpMailer);
+  });
+});
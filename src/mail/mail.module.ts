@@ -0,0 +1,46 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport } from 'nodemailer';
+import { LogMailer } from './log.mailer';
+import { Mailer, MAILER } from './mailer';
+import { SmtpMailer } from './smtp.mailer';
+
+// MAIL_DRIVER=log (domyślnie) albo smtp. Lokalna zaślepka SMTP, np. MailHog:
+// MAIL_DRIVER=smtp SMTP_HOST=localhost SMTP_PORT=1025
+// Z NODE_ENV=production wymagany jest smtp - inaczej linki z maili trafiałyby
+// tylko do logów, a aplikacja nie zgłosiłaby żadnego błędu.
+export function createMailer(config: ConfigService): Mailer {
+  if (config.get<string>('MAIL_DRIVER', 'log') !== 'smtp') {
+    if (config.get<string>('NODE_ENV') === 'production') {
+      throw new Error(
+        'MAIL_DRIVER=smtp jest wymagany przy NODE_ENV=production',
+      );
+    }
+    return new LogMailer();
+  }
+
+  const user = config.get<string>('SMTP_USER');
+  const transporter = createTransport({
+    host: config.getOrThrow<string>('SMTP_HOST'),
+    port: Number(config.get('SMTP_PORT', 587)),
+    secure: config.get<string>('SMTP_SECURE') === 'true',
+    auth: user ? { user, pass: config.get<string>('SMTP_PASS') } : undefined,
+  });
+  return new SmtpMailer(
+    transporter,
+    config.get<string>('MAIL_FROM', 'TrustCheck <no-reply@localhost>'),
+  );
+}
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAILER,
+      useFactory: createMailer,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MAILER],
+})
+export class MailModule {}
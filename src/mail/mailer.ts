@@ -0,0 +1,13 @@
+// Token DI - wstrzykiwanie: @Inject(MAILER) private mailer: Mailer
+export const MAILER = 'MAILER';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { createTransport } from 'nodemailer';
+import { SmtpMailer } from './smtp.mailer';
+
+describe('SmtpMailer', () => {
+  it('should hand messages to the transport with the configured sender', async () => {
+    // jsonTransport - transport nodemailera bez sieci, zwraca zbudowaną wiadomość
+    const transporter = createTransport({ jsonTransport: true });
+    const sendMail = jest.spyOn(transporter, 'sendMail');
+    const mailer = new SmtpMailer(transporter, 'TrustCheck <no-reply@test>');
+
+    await mailer.send({
+      to: 'jan@example.com',
+      subject: 'Potwierdź adres e-mail',
+      text: 'Link: https://example.com',
+    });
+
+    expect(sendMail).toHaveBeenCalledWith({
+      from: 'TrustCheck <no-reply@test>',
+      to: 'jan@example.com',
+      subject: 'Potwierdź adres e-mail',
+      text: 'Link: https://example.com',
+    });
+    const info = (await sendMail.mock.results[0].value) as {
+      message: string;
+    };
+    expect(JSON.parse(info.message)).toMatchObject({
+      subject: 'Potwierdź adres e-mail',
+    });
+  });
+});
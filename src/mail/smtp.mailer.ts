@@ -0,0 +1,14 @@
+import { Transporter } from 'nodemailer';
+import { Mailer, MailMessage } from './mailer';
+
+// Dowolny serwer SMTP - produkcyjny albo lokalna zaślepka (MailHog, smtp4dev)
+export class SmtpMailer implements Mailer {
+  constructor(
+    private readonly transporter: Transporter,
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
@@ -0,0 +1,10 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsInt } from 'class-validator';
+import { ModerateReportDto } from './moderate-report.dto';
+
+export class BulkModerateReportsDto extends ModerateReportDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  ids: number[];
+}
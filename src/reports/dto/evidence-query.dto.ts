@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsHexadecimal, IsInt, IsString, Length } from 'class-validator';
+
+export class EvidenceQueryDto {
+  @IsString()
+  key: string;
+
+  @Type(() => Number)
+  @IsInt()
+  expires: number;
+
+  @IsHexadecimal()
+  @Length(64, 64)
+  signature: string;
+}
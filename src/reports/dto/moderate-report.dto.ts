@@ -0,0 +1,13 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { MODERATION_STATUSES } from '../report-status';
+
+export class ModerateReportDto {
+  @IsString()
+  @IsIn(MODERATION_STATUSES)
+  status: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string; // Wymagane przy odrzuceniu
+}
@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ReportStatus } from '../report-status';
+
+export class ModerationQueueQueryDto {
+  @IsOptional()
+  @IsEnum(ReportStatus)
+  status?: ReportStatus; // Domyślnie PENDING
+}
@@ -1,4 +1,13 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { PartialType, PickType } from '@nestjs/mapped-types';
 import { CreateReportDto } from './create-report.dto';
 
-export class UpdateReportDto extends PartialType(CreateReportDto) {}
+// Cel zgłoszenia (targetType/targetValue) jest niezmienny - zmienia się tylko treść
+export class UpdateReportDto extends PartialType(
+  PickType(CreateReportDto, [
+    'rating',
+    'reason',
+    'comment',
+    'screenshotUrl',
+    'screenshotPath',
+  ] as const),
+) {}
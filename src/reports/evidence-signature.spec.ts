@@ -0,0 +1,55 @@
+import { signEvidenceKey, verifyEvidenceSignature } from './evidence-signature';
+
+describe('evidence-signature', () => {
+  const secret = 'test-secret';
+  const key = 'screenshots/abc.jpg';
+  const now = new Date('2026-02-15T12:00:00Z');
+  const expires = Math.floor(now.getTime() / 1000) + 300;
+
+  it('should accept a valid, unexpired signature', () => {
+    const signature = signEvidenceKey(secret, key, expires);
+    expect(verifyEvidenceSignature(secret, key, expires, signature, now)).toBe(
+      true,
+    );
+  });
+
+  it('should reject expired links', () => {
+    const signature = signEvidenceKey(secret, key, expires);
+    const later = new Date(now.getTime() + 301 * 1000);
+    expect(
+      verifyEvidenceSignature(secret, key, expires, signature, later),
+    ).toBe(false);
+  });
+
+  it('should reject tampered keys, expiry or secrets', () => {
+    const signature = signEvidenceKey(secret, key, expires);
+    expect(
+      verifyEvidenceSignature(
+        secret,
+        'screenshots/x.jpg',
+        expires,
+        signature,
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      verifyEvidenceSignature(secret, key, expires + 3600, signature, now),
+    ).toBe(false);
+    expect(
+      verifyEvidenceSignature(
+        secret,
+        key,
+        expires,
+        signEvidenceKey('other', key, expires),
+        now,
+      ),
+    ).toBe(false);
+  });
+
+  it('should reject malformed signatures', () => {
+    expect(verifyEvidenceSignature(secret, key, expires, 'zz', now)).toBe(
+      false,
+    );
+    expect(verifyEvidenceSignature(secret, key, expires, '', now)).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Podpis linku do dowodu: HMAC-SHA256(klucz pliku + czas wygaśnięcia)
+export function signEvidenceKey(
+  secret: string,
+  key: string,
+  expires: number, // Unix timestamp (sekundy)
+): string {
+  return createHmac('sha256', secret)
+    .update(`${key}\n${expires}`)
+    .digest('hex');
+}
+
+export function verifyEvidenceSignature(
+  secret: string,
+  key: string,
+  expires: number,
+  signature: string,
+  now = new Date(),
+): boolean {
+  if (!Number.isInteger(expires) || expires * 1000 < now.getTime()) {
+    return false;
+  }
+  const expected = Buffer.from(signEvidenceKey(secret, key, expires), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
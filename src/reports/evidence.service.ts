@@ -0,0 +1,102 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { hasPermission, Permission } from '../auth/roles';
+import { PrismaService } from '../prisma.service';
+import { STORAGE_DRIVER, toStorageKey } from '../storage/storage.driver';
+import type { StorageDriver } from '../storage/storage.driver';
+import { signEvidenceKey, verifyEvidenceSignature } from './evidence-signature';
+import { ReportStatus } from './report-status';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+export interface EvidenceLink {
+  url: string;
+  expiresAt: Date;
+}
+
+// Zrzuty ekranu są prywatne: dostęp tylko przez krótko ważne, podpisane linki
+@Injectable()
+export class EvidenceService {
+  private readonly secret: string;
+  private readonly ttlSeconds: number;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    config: ConfigService,
+  ) {
+    this.secret = config.getOrThrow<string>('EVIDENCE_SIGNING_SECRET');
+    this.ttlSeconds = Number(config.get('EVIDENCE_URL_TTL_SECONDS', 300));
+    this.baseUrl = config.get<string>('BACKEND_URL', 'http://localhost:3001');
+  }
+
+  createLink(pathOrKey: string, now = new Date()): EvidenceLink {
+    const key = toStorageKey(pathOrKey);
+    const expires = Math.floor(now.getTime() / 1000) + this.ttlSeconds;
+    const params = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: signEvidenceKey(this.secret, key, expires),
+    });
+    return {
+      url: `${this.baseUrl}/reports/evidence?${params}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  // Autor zgłoszenia, moderatorzy albo każdy - gdy zgłoszenie jest zatwierdzone
+  async getReportEvidence(
+    reportId: number,
+    user: { userId: number; role: string } | null,
+  ) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      include: { screenshot: { select: { path: true, thumbnailPath: true } } },
+    });
+    if (!report) throw new NotFoundException('Zgłoszenie nie istnieje');
+
+    const allowed =
+      report.status === ReportStatus.APPROVED ||
+      report.userId === user?.userId ||
+      (!!user && hasPermission(user.role, Permission.MODERATE_REPORTS));
+    if (!allowed) throw new ForbiddenException('Brak dostępu do dowodów');
+
+    // Podpisujemy tylko zrzut powiązany przez ScreenshotService - samo
+    // screenshotPath to dane od użytkownika i mogłoby wskazywać cudzy plik
+    const { screenshot } = report;
+    return {
+      reportId,
+      screenshot: screenshot ? this.createLink(screenshot.path) : null,
+      thumbnail: screenshot ? this.createLink(screenshot.thumbnailPath) : null,
+    };
+  }
+
+  async read(key: string, expires: number, signature: string) {
+    if (!verifyEvidenceSignature(this.secret, key, expires, signature)) {
+      throw new ForbiddenException('Link wygasł lub jest nieprawidłowy');
+    }
+    if (!(await this.storage.exists(key))) {
+      throw new NotFoundException('Plik nie istnieje');
+    }
+    return {
+      data: await this.storage.get(key),
+      contentType:
+        CONTENT_TYPES[path.extname(key).toLowerCase()] ??
+        'application/octet-stream',
+      maxAge: Math.max(0, expires - Math.floor(Date.now() / 1000)),
+    };
+  }
+}
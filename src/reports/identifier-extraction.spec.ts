@@ -0,0 +1,59 @@
+import { extractIdentifiers } from './identifier-extraction';
+
+const values = (text: string) =>
+  extractIdentifiers(text).map(({ type, value }) => `${type}:${value}`);
+
+describe('extractIdentifiers', () => {
+  it('should return nothing for empty input', () => {
+    expect(extractIdentifiers(null)).toEqual([]);
+    expect(extractIdentifiers('Sprzedawca nie odpisuje.')).toEqual([]);
+  });
+
+  it('should find phone numbers in various formats', () => {
+    expect(
+      values(
+        'Dzwonił z 500 600 700, potem z +44 7911 123456 i 0048 501-601-701.',
+      ),
+    ).toEqual([
+      'PHONE:+48500600700',
+      'PHONE:+447911123456',
+      'PHONE:+48501601701',
+    ]);
+  });
+
+  it('should find account numbers without reading them as phones', () => {
+    expect(
+      values(
+        'Przelew na 61 1090 1014 0000 0712 1981 2874, a potem DE89370400440532013000',
+      ),
+    ).toEqual([
+      'ACCOUNT:PL61109010140000071219812874',
+      'ACCOUNT:DE89370400440532013000',
+    ]);
+  });
+
+  it('should find emails and links', () => {
+    expect(
+      values(
+        'Pisał z Oszust@WP.pl, profil https://m.facebook.com/jan.oszust?ref=share oraz www.tanie-telefony.pl/oferta.',
+      ),
+    ).toEqual([
+      'EMAIL:oszust@wp.pl',
+      'URL:https://facebook.com/jan.oszust',
+      'URL:https://tanie-telefony.pl/oferta',
+    ]);
+  });
+
+  it('should only accept NIPs with a valid checksum', () => {
+    expect(values('Faktura z NIP 526-025-02-74')).toEqual(['NIP:5260250274']);
+    expect(values('Faktura z NIP 526-025-02-75')).not.toContain(
+      'NIP:5260250275',
+    );
+  });
+
+  it('should deduplicate repeated identifiers', () => {
+    expect(values('Tel. 500600700, powtarzam: 500 600 700')).toEqual([
+      'PHONE:+48500600700',
+    ]);
+  });
+});
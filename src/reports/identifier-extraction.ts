@@ -0,0 +1,96 @@
+import { PhoneNumberFormat, PhoneNumberUtil } from 'google-libphonenumber';
+import { normalizeBankAccount } from '../verification/bank-account.util';
+import { classifyQuery, isValidNip } from '../verification/query-classifier';
+
+export type IdentifierType = 'PHONE' | 'ACCOUNT' | 'EMAIL' | 'URL' | 'NIP';
+
+export interface ExtractedIdentifier {
+  type: IdentifierType;
+  value: string; // Postać znormalizowana (E.164, IBAN, małe litery...)
+  raw: string; // Fragment tekstu, z którego pochodzi
+}
+
+const phoneUtil = PhoneNumberUtil.getInstance();
+
+// Kolejność ma znaczenie: dopasowany fragment jest "wycinany", żeby np.
+// cyfry z numeru konta nie zostały potem odczytane jako telefon
+const PATTERNS: { type: IdentifierType; regex: RegExp }[] = [
+  { type: 'EMAIL', regex: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi },
+  {
+    type: 'URL',
+    regex:
+      /\b(?:https?:\/\/|www\.)[^\s<>"']+|\b(?:facebook|fb|instagram|tiktok|olx)\.(?:com|me|pl)\/[^\s<>"']+/gi,
+  },
+  // IBAN z prefiksem kraju lub NRB (26 cyfr), z odstępami co 4 znaki albo bez.
+  // Bez flagi "i" - inaczej słowo przed numerem ("na 61 1090...") wziąłby za kod kraju
+  {
+    type: 'ACCOUNT',
+    regex:
+      /\b(?:[A-Z]{2}\s?)?\d{2}(?:[ -]?[A-Z0-9]{4}){3,7}(?:[ -]?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    type: 'NIP',
+    regex:
+      /\b(?:PL\s?)?\d{3}-?\d{3}-?\d{2}-?\d{2}\b|\b\d{3}-\d{2}-\d{2}-\d{3}\b/gi,
+  },
+  { type: 'PHONE', regex: /(?:\+|\b00)?\d[\d\s().-]{7,16}\d\b/g },
+];
+
+export function extractIdentifiers(
+  text: string | null | undefined,
+  defaultRegion = 'PL',
+): ExtractedIdentifier[] {
+  if (!text) return [];
+
+  let remaining = text;
+  const found = new Map<string, ExtractedIdentifier>();
+
+  for (const { type, regex } of PATTERNS) {
+    for (const match of remaining.match(regex) ?? []) {
+      const raw = match.replace(/[.,;:!?)\]]+$/, ''); // Interpunkcja na końcu zdania
+      const value = normalize(type, raw, defaultRegion);
+      if (!value) continue;
+      found.set(`${type}:${value}`, { type, value, raw });
+      remaining = remaining.replace(raw, ' ');
+    }
+  }
+
+  return [...found.values()];
+}
+
+function normalize(
+  type: IdentifierType,
+  raw: string,
+  region: string,
+): string | null {
+  switch (type) {
+    case 'EMAIL':
+      return raw.toLowerCase();
+    case 'URL': {
+      const detected = classifyQuery(raw);
+      return detected.type === 'URL' || detected.type === 'SOCIAL_PROFILE'
+        ? detected.normalized
+        : null;
+    }
+    case 'ACCOUNT':
+      // "TO 61 1090..." - wielkie litery przed NRB to nie zawsze kod kraju
+      return (
+        normalizeBankAccount(raw)?.number ??
+        normalizeBankAccount(raw.replace(/^[A-Z]{2}\s?/, ''))?.number ??
+        null
+      );
+    case 'NIP': {
+      const nip = raw.replace(/^PL/i, '').replace(/\D/g, '');
+      return isValidNip(nip) ? nip : null;
+    }
+    case 'PHONE':
+      try {
+        const number = phoneUtil.parse(raw.replace(/^00/, '+'), region);
+        return phoneUtil.isValidNumber(number)
+          ? phoneUtil.format(number, PhoneNumberFormat.E164)
+          : null;
+      } catch {
+        return null;
+      }
+  }
+}
@@ -0,0 +1,124 @@
+import { ConflictException, HttpException, HttpStatus } from '@nestjs/common';
+import { ReportAbuseService } from './report-abuse.service';
+
+describe('ReportAbuseService', () => {
+  const now = new Date('2026-03-20T12:00:00Z');
+  let prisma: any;
+  let service: ReportAbuseService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    prisma = {
+      report: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      $executeRaw: jest.fn(),
+      $transaction: jest.fn((fn) => fn(prisma)),
+    };
+    service = new ReportAbuseService(prisma, {
+      get: (_key: string, fallback: unknown) => fallback,
+    } as any);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  const minutesAgo = (minutes: number) =>
+    new Date(now.getTime() - minutes * 60 * 1000);
+
+  describe('assertWithinRateLimits', () => {
+    it('should reject the sixth report within an hour with the time to wait', async () => {
+      prisma.report.findMany.mockResolvedValueOnce(
+        [50, 40, 30, 20, 10].map((m) => ({ createdAt: minutesAgo(m) })),
+      );
+
+      const error: HttpException = await service
+        .assertWithinRateLimits(1)
+        .catch((err) => err);
+
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      // Najstarsze zgłoszenie wypada z okna za 10 minut
+      expect(error.getResponse()).toMatchObject({ retryAfterSeconds: 600 });
+    });
+
+    it('should check the IP limit only when the IP is known', async () => {
+      await service.assertWithinRateLimits(1);
+      expect(prisma.report.findMany).toHaveBeenCalledTimes(2);
+
+      await service.assertWithinRateLimits(1, '10.0.0.1');
+      expect(prisma.report.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ ipAddress: '10.0.0.1' }),
+        }),
+      );
+    });
+
+    it('should read through the given transaction client', async () => {
+      const tx = { report: { findMany: jest.fn().mockResolvedValue([]) } };
+
+      await service.assertWithinRateLimits(1, '10.0.0.1', tx as any);
+
+      expect(tx.report.findMany).toHaveBeenCalledTimes(3);
+      expect(prisma.report.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertNoActiveReport', () => {
+    it('should point to the existing active report on the same target', async () => {
+      prisma.report.findFirst.mockResolvedValue({ id: 42 });
+
+      const error: ConflictException = await service
+        .assertNoActiveReport(1, [{ companyNip: '5260250274' }])
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toMatchObject({
+        existingReportId: 42,
+        updatePath: '/reports/42',
+      });
+    });
+
+    it('should skip the query when there is no target', async () => {
+      await service.assertNoActiveReport(1, []);
+      expect(prisma.report.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withReportLock', () => {
+    it('should take the user and IP locks before running the callback in the transaction', async () => {
+      const order: string[] = [];
+      prisma.$executeRaw.mockImplementation((sql: TemplateStringsArray) => {
+        order.push(sql.join('?'));
+      });
+
+      const result = await service.withReportLock(7, '10.0.0.1', (tx) => {
+        order.push('callback');
+        expect(tx).toBe(prisma);
+        return Promise.resolve('created');
+      });
+
+      expect(result).toBe('created');
+      expect(order).toHaveLength(3);
+      expect(order[0]).toContain('pg_advisory_xact_lock');
+      expect(order[1]).toContain('hashtext');
+      expect(order[2]).toBe('callback');
+    });
+
+    it('should lock only the user when the IP is unknown', async () => {
+      await service.withReportLock(7, undefined, () => Promise.resolve(null));
+
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('isVelocityBurst', () => {
+    it('should flag the report that reaches the threshold', async () => {
+      prisma.report.count.mockResolvedValue(9);
+      expect(await service.isVelocityBurst([{ personId: 3 }])).toBe(true);
+
+      prisma.report.count.mockResolvedValue(8);
+      expect(await service.isVelocityBurst([{ personId: 3 }])).toBe(false);
+    });
+  });
+});
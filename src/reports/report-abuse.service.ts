@@ -0,0 +1,171 @@
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { ACTIVE_REPORT_STATUSES } from './report-status';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Przestrzenie kluczy pg_advisory_xact_lock(int, int)
+const LOCK_USER = 1;
+const LOCK_IP = 2;
+
+type Db = PrismaService | Prisma.TransactionClient;
+
+// Cel zgłoszenia w postaci warunku Prisma, np. { companyNip } albo { personId }
+export type ReportTarget = Record<string, string | number>;
+
+interface Limit {
+  max: number;
+  windowMs: number;
+  message: string;
+}
+
+// Limity liczone z tabeli Report - działają tak samo przy wielu instancjach.
+// Kontrole bez transakcji to szybkie odrzucenie na początku; wiążące są te same
+// kontrole powtórzone w withReportLock tuż przed zapisem zgłoszenia.
+@Injectable()
+export class ReportAbuseService {
+  private readonly logger = new Logger(ReportAbuseService.name);
+  private readonly userLimits: Limit[];
+  private readonly ipLimit: Limit;
+  private readonly velocityThreshold: number;
+  private readonly velocityWindowMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    config: ConfigService,
+  ) {
+    const num = (key: string, fallback: number) =>
+      Number(config.get(key, fallback));
+
+    this.userLimits = [
+      {
+        max: num('REPORT_LIMIT_USER_PER_HOUR', 5),
+        windowMs: HOUR,
+        message: 'Za dużo zgłoszeń w ciągu godziny',
+      },
+      {
+        max: num('REPORT_LIMIT_USER_PER_DAY', 20),
+        windowMs: DAY,
+        message: 'Wyczerpano dzienny limit zgłoszeń',
+      },
+    ];
+    this.ipLimit = {
+      max: num('REPORT_LIMIT_IP_PER_HOUR', 10),
+      windowMs: HOUR,
+      message: 'Za dużo zgłoszeń z tego adresu IP',
+    };
+    this.velocityThreshold = num('REPORT_VELOCITY_THRESHOLD', 10);
+    this.velocityWindowMs = num('REPORT_VELOCITY_WINDOW_MINUTES', 60) * MINUTE;
+  }
+
+  // Transakcja z blokadą na użytkownika i adres IP - równoległe zgłoszenia
+  // nie przejdą kontroli jednocześnie, bo czekają, aż poprzednie się zapisze
+  withReportLock<T>(
+    userId: number,
+    ip: string | undefined,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${LOCK_USER}::int, ${userId}::int)`;
+      if (ip) {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${LOCK_IP}::int, hashtext(${ip}))`;
+      }
+      return fn(tx);
+    });
+  }
+
+  // 429 z informacją, po jakim czasie można spróbować ponownie
+  async assertWithinRateLimits(
+    userId: number,
+    ip?: string,
+    db: Db = this.prisma,
+  ) {
+    for (const limit of this.userLimits) {
+      await this.checkLimit(db, { userId }, limit);
+    }
+    if (ip) await this.checkLimit(db, { ipAddress: ip }, this.ipLimit);
+  }
+
+  // 409 - na ten sam cel użytkownik ma już aktywne zgłoszenie (trzeba je edytować)
+  async assertNoActiveReport(
+    userId: number,
+    targets: ReportTarget[],
+    db: Db = this.prisma,
+  ) {
+    if (!targets.length) return;
+    const existing = await db.report.findFirst({
+      where: {
+        userId,
+        status: { in: ACTIVE_REPORT_STATUSES },
+        OR: targets,
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'Conflict',
+        message:
+          'Masz już aktywne zgłoszenie dotyczące tego celu - zaktualizuj je zamiast dodawać nowe',
+        existingReportId: existing.id,
+        updatePath: `/reports/${existing.id}`,
+      });
+    }
+  }
+
+  // Nagły wysyp zgłoszeń na jeden cel (np. zorganizowany atak na konkurencję)
+  async isVelocityBurst(targets: ReportTarget[]): Promise<boolean> {
+    if (!targets.length) return false;
+    const recent = await this.prisma.report.count({
+      where: {
+        OR: targets,
+        createdAt: { gte: new Date(Date.now() - this.velocityWindowMs) },
+      },
+    });
+    if (recent + 1 >= this.velocityThreshold) {
+      this.logger.warn(
+        `Wysyp zgłoszeń (${recent + 1}) na cel ${JSON.stringify(targets)}`,
+      );
+      return true;
+    }
+    return false;
+  }
+
+  private async checkLimit(db: Db, where: object, limit: Limit) {
+    const since = new Date(Date.now() - limit.windowMs);
+    const recent = await db.report.findMany({
+      where: { ...where, createdAt: { gte: since } },
+      orderBy: { createdAt: 'asc' },
+      take: limit.max,
+      select: { createdAt: true },
+    });
+    if (recent.length < limit.max) return;
+
+    // Miejsce zwolni się, gdy najstarsze zgłoszenie wypadnie z okna
+    const retryAfterSeconds = Math.max(
+      1,
+      Math.ceil(
+        (recent[0].createdAt.getTime() + limit.windowMs - Date.now()) / 1000,
+      ),
+    );
+    throw new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message: limit.message,
+        retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// Cykl życia zgłoszenia (kolumna Report.status)
+export const ReportStatus = {
+  PENDING: 'PENDING', // czeka w kolejce moderacji
+  APPROVED: 'APPROVED', // liczy się do statystyk i jest publiczne
+  REJECTED: 'REJECTED', // odrzucone przez moderatora
+  HIDDEN: 'HIDDEN', // ukryte (np. zatwierdzone, ale później zdjęte)
+  WITHDRAWN: 'WITHDRAWN', // wycofane przez autora - zostaje tylko do audytu
+} as const;
+
+export type ReportStatus = (typeof ReportStatus)[keyof typeof ReportStatus];
+
+// Powody automatycznego oznaczenia zgłoszenia (Report.flags) dla moderatorów
+export const ReportFlag = {
+  VELOCITY_BURST: 'VELOCITY_BURST', // nagły wysyp zgłoszeń na ten sam cel
+} as const;
+
+// Zgłoszenie "żywe" - użytkownik może mieć tylko jedno takie na dany cel
+export const ACTIVE_REPORT_STATUSES: ReportStatus[] = [
+  ReportStatus.PENDING,
+  ReportStatus.APPROVED,
+];
+
+// Statusy, które moderator może nadać
+export const MODERATION_STATUSES: ReportStatus[] = [
+  ReportStatus.APPROVED,
+  ReportStatus.REJECTED,
+  ReportStatus.HIDDEN,
+];
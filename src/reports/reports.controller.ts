@@ -9,24 +9,51 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  Patch,
+  Param,
+  ParseIntPipe,
+  Query,
+  Res,
+  StreamableFile,
+  Delete,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ReportsService } from './reports.service';
 import { CreateReportDto } from './dto/create-report.dto';
 import { AuthGuard } from '@nestjs/passport';
-import type { Express } from 'express';
+import type { Express, Response } from 'express';
+import { ModerateReportDto } from './dto/moderate-report.dto';
+import { ModerationQueueQueryDto } from './dto/moderation-queue-query.dto';
+import { BulkModerateReportsDto } from './dto/bulk-moderate-reports.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
+import { ReportStatus } from './report-status';
+import { ReputationService } from './reputation.service';
+import { ScreenshotService } from './screenshot.service';
+import { EvidenceService } from './evidence.service';
+import { EvidenceQueryDto } from './dto/evidence-query.dto';
+import { OptionalJwtAuthGuard } from '../auth/optional-jwt-auth.guard';
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
+import { UpdateReportDto } from './dto/update-report.dto';
+import { CurrentActor } from '../audit/current-actor.decorator';
+import type { AuditActor } from '../audit/audit-log';
 
 @Controller('reports')
 export class ReportsController {
-  constructor(private readonly reportsService: ReportsService) {}
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly reputationService: ReputationService,
+    private readonly screenshotService: ScreenshotService,
+    private readonly evidenceService: EvidenceService,
+  ) {}
 
   @Get('latest')
   getLatest() {
     return this.reportsService.getLatestGlobal();
   }
-  
+
   @Post()
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard('jwt'), EmailVerifiedGuard)
   create(
     @Body() createReportDto: CreateReportDto,
     @Ip() ip: string,
@@ -35,8 +62,38 @@ export class ReportsController {
     return this.reportsService.create(createReportDto, req.user.userId, ip);
   }
 
-  @Post('upload-screenshot')
+  // Autor (np. zamiast drugiego zgłoszenia na ten sam cel - 409 z POST /reports)
+  // albo moderator; każda zmiana trafia do historii
+  @Patch(':id')
+  @UseGuards(AuthGuard('jwt'), EmailVerifiedGuard)
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateReportDto,
+    @Request() req: any,
+    @Ip() ip: string,
+  ) {
+    return this.reportsService.update(id, { ...req.user, ip }, body);
+  }
+
+  // Wycofanie (miękkie usunięcie) - zgłoszenie zostaje w bazie do audytu
+  @Delete(':id')
+  @UseGuards(AuthGuard('jwt'))
+  withdraw(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: any,
+    @Ip() ip: string,
+  ) {
+    return this.reportsService.withdraw(id, { ...req.user, ip });
+  }
+
+  @Get(':id/revisions')
   @UseGuards(AuthGuard('jwt'))
+  getRevisions(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.reportsService.getRevisions(id, req.user);
+  }
+
+  @Post('upload-screenshot')
+  @UseGuards(AuthGuard('jwt'), EmailVerifiedGuard)
   @UseInterceptors(FileInterceptor('file'))
   async uploadScreenshot(
     @UploadedFile() file: Express.Multer.File,
@@ -45,11 +102,108 @@ export class ReportsController {
     if (!file) {
       throw new BadRequestException('Brak pliku do uploadowania');
     }
-    const result = await this.reportsService.uploadScreenshot(file);
+    const { screenshot, duplicate, similarReports } =
+      await this.screenshotService.store(file, req.user.userId);
+    // Wgrywający dostaje podgląd od razu; później linki wydaje GET /reports/:id/evidence
+    const link = this.evidenceService.createLink(screenshot.path);
     return {
-      path: result,
-      url: `${process.env.BACKEND_URL || 'http://localhost:3001'}${result}`,
+      path: screenshot.path,
+      url: link.url,
+      thumbnailUrl: this.evidenceService.createLink(screenshot.thumbnailPath)
+        .url,
+      expiresAt: link.expiresAt,
+      hash: screenshot.hash,
+      duplicate, // Identyczny plik był już wgrany
+      similarReports, // Zgłoszenia z tym samym obrazem (także przeskalowanym lub ponownie skompresowanym)
     };
   }
-}
 
+  // Serwowanie pliku po podpisanym linku (bez JWT - link sam jest uprawnieniem)
+  @Get('evidence')
+  async getEvidenceFile(
+    @Query() query: EvidenceQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const file = await this.evidenceService.read(
+      query.key,
+      query.expires,
+      query.signature,
+    );
+    res.set({
+      'Content-Type': file.contentType,
+      'Cache-Control': `private, max-age=${file.maxAge}`,
+      'X-Content-Type-Options': 'nosniff',
+    });
+    return new StreamableFile(file.data);
+  }
+
+  // Wydanie podpisanych linków do dowodów zgłoszenia
+  @Get(':id/evidence')
+  @UseGuards(OptionalJwtAuthGuard)
+  getReportEvidence(
+    @Param('id', ParseIntPipe) id: number,
+    @Request() req: any,
+  ) {
+    return this.evidenceService.getReportEvidence(id, req.user ?? null);
+  }
+
+  @Get('mine')
+  @UseGuards(AuthGuard('jwt'))
+  getMine(@Request() req: any) {
+    return this.reportsService.getMine(req.user.userId);
+  }
+
+  // Reputacja zalogowanego użytkownika (wpływa na wagę jego zgłoszeń)
+  @Get('reputation')
+  @UseGuards(AuthGuard('jwt'))
+  getReputation(@Request() req: any) {
+    return this.reputationService.refresh(req.user.userId);
+  }
+
+  @Post(':id/confirm')
+  @UseGuards(AuthGuard('jwt'), EmailVerifiedGuard)
+  confirm(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.reportsService.confirm(id, req.user.userId);
+  }
+
+  // === MODERACJA ===
+
+  @Get('admin/queue')
+  @RequirePermissions(Permission.MODERATE_REPORTS)
+  getModerationQueue(@Query() query: ModerationQueueQueryDto) {
+    return this.reportsService.getModerationQueue(
+      query.status ?? ReportStatus.PENDING,
+    );
+  }
+
+  @Patch('admin/:id/moderate')
+  @RequirePermissions(Permission.MODERATE_REPORTS)
+  moderate(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: ModerateReportDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.reportsService.moderate(id, actor, body.status, body.reason);
+  }
+
+  // Inne zgłoszenia z tym samym zrzutem ekranu (np. ten sam oszust pod innym numerem)
+  @Get('admin/:id/similar-screenshots')
+  @RequirePermissions(Permission.MODERATE_REPORTS)
+  getSimilarScreenshots(@Param('id', ParseIntPipe) id: number) {
+    return this.screenshotService.getSimilarForReport(id);
+  }
+
+  @Post('admin/bulk')
+  @RequirePermissions(Permission.MODERATE_REPORTS)
+  bulkModerate(
+    @Body() body: BulkModerateReportsDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.reportsService.bulkModerate(
+      body.ids,
+      actor,
+      body.status,
+      body.reason,
+    );
+  }
+}
@@ -2,15 +2,31 @@ import { Module } from '@nestjs/common';
 import { MulterModule } from '@nestjs/platform-express';
 import { ReportsService } from './reports.service';
 import { ReportsController } from './reports.controller';
+import { ReputationService } from './reputation.service';
+import { ReputationScheduler } from './reputation.scheduler';
+import { ScreenshotService } from './screenshot.service';
+import { EvidenceService } from './evidence.service';
+import { ReportAbuseService } from './report-abuse.service';
+import { WatchlistModule } from '../watchlist/watchlist.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
 
 @Module({
   imports: [
     MulterModule.register({
       storage: require('multer').memoryStorage(), // Buffer, nie dysk
     }),
+    WatchlistModule,
+    WebhooksModule,
   ],
   controllers: [ReportsController],
-  providers: [ReportsService],
-  exports: [ReportsService],
+  providers: [
+    ReportsService,
+    ReputationService,
+    ReputationScheduler,
+    ScreenshotService,
+    EvidenceService,
+    ReportAbuseService,
+  ],
+  exports: [ReportsService, ReputationService],
 })
 export class ReportsModule {}
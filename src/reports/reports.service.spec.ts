@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ReportsService } from './reports.service';
+import { VerificationService } from '../verification/verification.service';
 
 describe('ReportsService', () => {
   let service: ReportsService;
@@ -16,3 +17,256 @@ describe('ReportsService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('ReportsService update, withdraw and revisions', () => {
+  const author = { userId: 1, role: 'USER', ip: '127.0.0.1' };
+  const moderator = { userId: 9, role: 'MODERATOR', ip: '127.0.0.1' };
+
+  let prisma: any;
+  let reputationService: { refresh: jest.Mock };
+  let auditService: { record: jest.Mock };
+  let service: ReportsService;
+
+  const stored = (status: string) => ({
+    id: 5,
+    userId: author.userId,
+    status,
+    rating: 2,
+    reason: 'Oszustwo',
+    comment: 'Nie wysłał towaru',
+    screenshotUrl: null,
+    screenshotPath: null,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      report: {
+        findUnique: jest.fn(),
+        update: jest.fn((args) => ({ id: args.where.id, ...args.data })),
+      },
+      reportRevision: {
+        create: jest.fn((args) => args.data),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn((operations) => Promise.all(operations)),
+    };
+    reputationService = { refresh: jest.fn() };
+    auditService = { record: jest.fn() };
+    service = new ReportsService(
+      prisma,
+      reputationService as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      auditService as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  it('should send an approved report edited by its author back to moderation', async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('APPROVED'));
+
+    const updated = await service.update(5, author, { comment: 'Nowy opis' });
+
+    expect(updated.status).toBe('PENDING');
+    expect(prisma.reportRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        reportId: 5,
+        editorId: author.userId,
+        action: 'EDIT',
+        changes: {
+          comment: { from: 'Nie wysłał towaru', to: 'Nowy opis' },
+          status: { from: 'APPROVED', to: 'PENDING' },
+        },
+      }),
+    });
+    expect(reputationService.refresh).toHaveBeenCalledWith(author.userId);
+    expect(auditService.record).not.toHaveBeenCalled();
+  });
+
+  it.each(['REJECTED', 'HIDDEN'])(
+    'should not let the author reopen a %s report by editing it',
+    async (status) => {
+      prisma.report.findUnique.mockResolvedValue(stored(status));
+
+      await expect(
+        service.update(5, author, { comment: 'Nowy opis' }),
+      ).rejects.toThrow('tylko moderator');
+      expect(prisma.report.update).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should let a moderator correct a hidden report without changing its status', async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('HIDDEN'));
+
+    const updated = await service.update(5, moderator, { rating: 1 });
+
+    expect(updated.status).toBeUndefined();
+    expect(auditService.record).toHaveBeenCalledWith(
+      moderator,
+      expect.objectContaining({ changes: { rating: { from: 2, to: 1 } } }),
+    );
+  });
+
+  it('should skip the revision when nothing changed', async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('PENDING'));
+
+    await service.update(5, author, { reason: 'Oszustwo' });
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("should not let another user edit someone's report", async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('PENDING'));
+
+    await expect(
+      service.update(5, { ...author, userId: 2 }, { comment: 'x' }),
+    ).rejects.toThrow('tylko własne');
+  });
+
+  it('should withdraw a report and record the revision', async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('APPROVED'));
+
+    const updated = await service.withdraw(5, author);
+
+    expect(updated.status).toBe('WITHDRAWN');
+    expect(prisma.reportRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'WITHDRAW',
+        changes: { status: { from: 'APPROVED', to: 'WITHDRAWN' } },
+      }),
+    });
+    expect(reputationService.refresh).toHaveBeenCalledWith(author.userId);
+  });
+
+  it('should reject withdrawing or editing a withdrawn report', async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('WITHDRAWN'));
+
+    await expect(service.withdraw(5, author)).rejects.toThrow('już wycofane');
+    await expect(
+      service.update(5, moderator, { comment: 'x' }),
+    ).rejects.toThrow('Wycofanego');
+  });
+
+  it('should list revisions only to the author or a moderator', async () => {
+    prisma.report.findUnique.mockResolvedValue(stored('PENDING'));
+
+    await service.getRevisions(5, moderator);
+    expect(prisma.reportRevision.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { reportId: 5 } }),
+    );
+    await expect(
+      service.getRevisions(5, { ...author, userId: 3 }),
+    ).rejects.toThrow('tylko własne');
+  });
+});
+
+describe('ReportsService.create phone numbers', () => {
+  let prisma: any;
+  let phones: Map<string, object>;
+  let abuseService: Record<string, jest.Mock>;
+  let webhookService: { reportCreated: jest.Mock };
+  let reports: ReportsService;
+  let verification: VerificationService;
+
+  beforeEach(() => {
+    phones = new Map();
+    prisma = {
+      phoneNumber: {
+        upsert: jest.fn(({ where, create }) => {
+          if (!phones.has(where.number)) phones.set(where.number, create);
+          return phones.get(where.number);
+        }),
+        findUnique: jest.fn(({ where }) => phones.get(where.number) ?? null),
+      },
+      person: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(({ data }) => ({ id: 3, ...data })),
+      },
+      report: { create: jest.fn(({ data }) => ({ id: 1, ...data })) },
+    };
+    abuseService = {
+      assertWithinRateLimits: jest.fn(),
+      assertNoActiveReport: jest.fn(),
+      isVelocityBurst: jest.fn().mockResolvedValue(false),
+      withReportLock: jest.fn((_userId, _ip, fn) => fn(prisma)),
+    };
+    webhookService = { reportCreated: jest.fn() };
+    reports = new ReportsService(
+      prisma,
+      {} as any,
+      {} as any,
+      {} as any,
+      abuseService as any,
+      {} as any,
+      {} as any,
+      webhookService as any,
+    );
+    verification = new VerificationService(
+      {} as any,
+      prisma,
+      reports,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  const reportPerson = (phoneNumber: string) =>
+    reports.create(
+      {
+        targetType: 'PERSON',
+        targetValue: 'Jan Kowalski',
+        rating: 1,
+        reason: 'Oszustwo',
+        phoneNumber,
+      } as any,
+      1,
+      '127.0.0.1',
+    );
+
+  it('should store the phone in E.164 so search finds it in any notation', async () => {
+    const report = await reportPerson('500 600 700');
+
+    expect(report.phoneNumber).toBe('+48500600700');
+    expect(webhookService.reportCreated).toHaveBeenCalledWith(report);
+    expect(prisma.person.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ phone: '+48500600700' }),
+    });
+    for (const query of ['500600700', '+48 500-600-700', '0048500600700']) {
+      await expect(verification.search(query)).resolves.toMatchObject({
+        type: 'PHONE',
+        exists: true,
+      });
+    }
+  });
+
+  it('should guard the report target by the normalised phone number', async () => {
+    await reportPerson('0048 500 600 700');
+
+    const targets = [{ phoneNumber: '+48500600700' }];
+    expect(abuseService.assertNoActiveReport).toHaveBeenCalledWith(1, targets);
+    expect(abuseService.isVelocityBurst).toHaveBeenCalledWith(targets);
+  });
+
+  it('should write nothing when the check under the lock rejects the report', async () => {
+    abuseService.assertNoActiveReport
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Masz już aktywne zgłoszenie'));
+
+    await expect(reportPerson('500600700')).rejects.toThrow('aktywne');
+    expect(prisma.person.create).not.toHaveBeenCalled();
+    expect(prisma.phoneNumber.upsert).not.toHaveBeenCalled();
+    expect(prisma.report.create).not.toHaveBeenCalled();
+    expect(webhookService.reportCreated).not.toHaveBeenCalled();
+  });
+
+  it('should reject a phone number that cannot be normalised', async () => {
+    await expect(reportPerson('12345')).rejects.toThrow(
+      'Niepoprawny numer telefonu',
+    );
+    expect(prisma.report.create).not.toHaveBeenCalled();
+  });
+});
@@ -1,21 +1,93 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { CreateReportDto } from './dto/create-report.dto';
 import { PrismaService } from '../prisma.service';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  ACTIVE_REPORT_STATUSES,
+  ReportFlag,
+  ReportStatus,
+} from './report-status';
+import { normalizeBankAccount } from '../verification/bank-account.util';
+import { isValidNip, normalizePhone } from '../verification/query-classifier';
+import {
+  identifiersConflict,
+  nameSimilarity,
+  normalizePersonName,
+  PersonIdentifiers,
+} from '../verification/person-similarity.util';
+import { ReputationService } from './reputation.service';
+import { EvidenceService } from './evidence.service';
+import { ScreenshotService } from './screenshot.service';
+import { extractIdentifiers } from './identifier-extraction';
+import { ReportAbuseService, ReportTarget } from './report-abuse.service';
+import { UpdateReportDto } from './dto/update-report.dto';
+import { hasPermission, Permission } from '../auth/roles';
+import { reputationWeight } from './reputation';
 import * as express from 'express';
+import { AuditService } from '../audit/audit.service';
+import {
+  AuditAction,
+  AuditActor,
+  AuditEntity,
+  diffSnapshots,
+} from '../audit/audit-log';
+import { WatchlistNotifier } from '../watchlist/watchlist-notifier.service';
+import { WebhookService } from '../webhooks/webhook.service';
 
-@Injectable()
-export class ReportsService {
-  private readonly uploadsDir = path.join(process.cwd(), 'uploads/screenshots');
+// Kto wykonuje operację (req.user + IP do dziennika zmian)
+export interface ReportActor extends AuditActor {
+  role: string;
+}
+
+export const RevisionAction = {
+  EDIT: 'EDIT',
+  WITHDRAW: 'WITHDRAW',
+} as const;
+
+const EDITABLE_FIELDS = [
+  'rating',
+  'reason',
+  'comment',
+  'screenshotUrl',
+  'screenshotPath',
+] as const;
 
-  constructor(private readonly prisma: PrismaService) {
-    if (!fs.existsSync(this.uploadsDir)) {
-      fs.mkdirSync(this.uploadsDir, { recursive: true });
+// { pole: { from, to } } tylko dla faktycznie zmienionych pól
+function diffFields(
+  before: Record<string, any>,
+  patch: Record<string, unknown>,
+) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const [field, value] of Object.entries(patch)) {
+    if ((before[field] ?? null) !== (value ?? null)) {
+      changes[field] = { from: before[field] ?? null, to: value ?? null };
     }
   }
+  return changes;
+}
+
+@Injectable()
+export class ReportsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly reputationService: ReputationService,
+    private readonly evidenceService: EvidenceService,
+    private readonly screenshotService: ScreenshotService,
+    private readonly abuseService: ReportAbuseService,
+    private readonly auditService: AuditService,
+    private readonly watchlistNotifier: WatchlistNotifier,
+    private readonly webhookService: WebhookService,
+  ) {}
 
   async create(dto: CreateReportDto, userId: number, ip: string) {
+    await this.abuseService.assertWithinRateLimits(userId, ip);
+    let targets: ReportTarget[] = [];
+
     const data: any = {
       userId,
       rating: dto.rating,
@@ -28,114 +100,387 @@ export class ReportsService {
       bankAccount: dto.bankAccount,
       // Zdjęcia
       screenshotUrl: dto.screenshotUrl,
-      screenshotPath: dto.screenshotPath,
       // Metadane
       isAutoGenerated: dto.isAutoGenerated || false,
       sourceUrl: dto.sourceUrl,
     };
 
-    // --- ŚCIEŻKA 1: FIRMA (COMPANY) ---
-    if (dto.targetType === 'COMPANY') {
-        const nip = dto.targetValue;
-        if (!/^[0-9]{10}$/.test(nip)) {
-           throw new BadRequestException('NIP musi mieć 10 cyfr');
+    // Zrzut wgrany przez /reports/upload-screenshot - tylko własny
+    if (dto.screenshotPath) {
+        const screenshot = await this.resolveScreenshot(dto.screenshotPath, userId);
+        data.screenshotPath = screenshot.path;
+        data.screenshotHash = screenshot.hash;
+    }
+
+    // Telefon w E.164 - inaczej wyszukiwanie "+48 500 600 700" nie trafi na "500600700"
+    let phoneNumber: string | null = null;
+    if (dto.phoneNumber) {
+        phoneNumber = normalizePhone(dto.phoneNumber);
+        if (!phoneNumber) {
+           throw new BadRequestException('Niepoprawny numer telefonu');
         }
+    }
 
-        // 1. Upsert Firmy
-        await this.prisma.company.upsert({
-            where: { nip },
-            update: {
-                // Opcjonalnie aktualizujemy nazwę, jeśli podano nową, ale bezpieczniej zostawić starą
-            },
-            create: {
-                nip,
-                name: dto.scammerName || 'Nieznana Firma', // Fallback name
-                statusVat: 'Nieznany',
-                trustScore: 50,
-                riskLevel: 'Nieznany'
-            }
-        });
+    // Konto bankowe - walidacja NRB/IBAN (wpis do tabeli BankAccount dopiero pod blokadą)
+    let account: ReturnType<typeof normalizeBankAccount> = null;
+    if (dto.bankAccount) {
+        account = normalizeBankAccount(dto.bankAccount);
+        if (!account) {
+           throw new BadRequestException('Niepoprawny numer konta bankowego (NRB/IBAN)');
+        }
+        data.bankAccountNumber = account.number;
+    }
+    const accountNumber = account?.number ?? null;
+
+    // Najpierw wszystkie kontrole, zapisy dopiero w transakcji niżej - odrzucone
+    // zgłoszenie (400/409/429) nie może zostawić po sobie firmy, osoby ani numeru
+    const isCompany = dto.targetType === 'COMPANY';
+    const nip = dto.targetValue;
+    // Person Name to albo scammerName, albo targetValue
+    const name = dto.scammerName || dto.targetValue || 'Nieznany';
+    let existingPerson: Awaited<ReturnType<ReportsService['findMatchingPerson']>> = null;
 
-        data.companyNip = nip;
-        
-        // Jeśli firma ma podany telefon, dodajemy go do tabeli PhoneNumber i wiążemy
-        if (dto.phoneNumber) {
-             await this.prisma.phoneNumber.upsert({
-                 where: { number: dto.phoneNumber },
-                 update: { companyNip: nip }, // Wiążemy numer z firmą
-                 create: { number: dto.phoneNumber, countryCode: 'PL', companyNip: nip }
-             });
-             data.phoneNumber = dto.phoneNumber; // Wiążemy raport też z telefonem
+    if (isCompany) {
+        if (!/^[0-9]{10}$/.test(nip)) {
+           throw new BadRequestException('NIP musi mieć 10 cyfr');
         }
-    } 
-    
-    // --- ŚCIEŻKA 2: OSOBA (PERSON) ---
-    else {
-        // Person Name to albo scammerName, albo targetValue
-        const name = dto.scammerName || dto.targetValue || 'Nieznany';
-        
-        // 1. Szukamy lub tworzymy osobę
-        // Używamy findFirst + update/create zamiast upsert, bo name nie jest unikalne (chyba że dodałeś @unique)
-        const existingPerson = await this.prisma.person.findFirst({
-            where: { name: name }
+        // Bez tego każda literówka zakładałaby nową firmę (i obciążała odświeżanie w tle)
+        if (!isValidNip(nip)) {
+           throw new BadRequestException('Niepoprawny NIP (błędna cyfra kontrolna)');
+        }
+        targets = [{ companyNip: nip }];
+    } else {
+        // name nie jest unikalne - dopasowujemy po identyfikatorach i znormalizowanym imieniu
+        existingPerson = await this.findMatchingPerson(name, {
+            phone: phoneNumber,
+            email: dto.reportedEmail,
+            bankAccounts: accountNumber ? [accountNumber] : [],
         });
 
-        let personId;
+        // Cel = dopasowana osoba i/lub podany telefon
+        if (existingPerson) targets.push({ personId: existingPerson.id });
+        if (phoneNumber) targets.push({ phoneNumber });
+    }
+    await this.guardTarget(userId, targets, data);
 
-        if (existingPerson) {
-            const updated = await this.prisma.person.update({
-                where: { id: existingPerson.id },
-                data: {
-                    email: dto.reportedEmail || existingPerson.email,
-                    bankAccount: dto.bankAccount || existingPerson.bankAccount,
-                    phone: dto.phoneNumber || existingPerson.phone
-                }
+    // Telefony, konta itd. wklejone w komentarz - żeby raport był widoczny w wyszukiwaniu
+    const identifiers = extractIdentifiers(dto.comment);
+    if (identifiers.length) {
+        data.identifiers = { create: identifiers };
+    }
+
+    // TWORZENIE RAPORTU
+    // Obserwujący i pełna treść dla webhooków dopiero po zatwierdzeniu (moderate).
+    // Limity i "jedno aktywne zgłoszenie" jeszcze raz, już pod blokadą - równoległe
+    // żądania przeszłyby wcześniejsze kontrole jednocześnie
+    const report = await this.abuseService.withReportLock(userId, ip, async (tx) => {
+        await this.abuseService.assertWithinRateLimits(userId, ip, tx);
+        await this.abuseService.assertNoActiveReport(userId, targets, tx);
+
+        if (account) {
+            await tx.bankAccount.upsert({
+                where: { number: account.number },
+                update: {},
+                create: { number: account.number, countryCode: account.countryCode }
             });
-            personId = updated.id;
-        } else {
-            const created = await this.prisma.person.create({
-                data: {
-                    name: name,
-                    email: dto.reportedEmail,
-                    bankAccount: dto.bankAccount,
-                    phone: dto.phoneNumber
-                }
+        }
+
+        // --- ŚCIEŻKA 1: FIRMA (COMPANY) ---
+        if (isCompany) {
+            // 1. Upsert Firmy
+            const company = await tx.company.upsert({
+                where: { nip },
+                update: {
+                    // Opcjonalnie aktualizujemy nazwę, jeśli podano nową, ale bezpieczniej zostawić starą
+                },
+                create: {
+                    nip,
+                    name: dto.scammerName || 'Nieznana Firma', // Fallback name
+                    statusVat: 'Nieznany',
+                    trustScore: 50,
+                    riskLevel: 'Nieznany'
+                },
+                include: { bankAccounts: true }
             });
-            personId = created.id;
+
+            data.companyNip = nip;
+
+            // Konto spoza białej listy MF to klasyczny schemat "fałszywej faktury"
+            // (rawData = firma była już sprawdzona w MF, więc znamy jej konta)
+            if (accountNumber && company.rawData) {
+                data.accountOnWhiteList = company.bankAccounts.some(
+                    (a) => a.number === accountNumber
+                );
+            }
+
+            // Jeśli firma ma podany telefon, dodajemy go do tabeli PhoneNumber i wiążemy
+            if (phoneNumber) {
+                 await tx.phoneNumber.upsert({
+                     where: { number: phoneNumber },
+                     update: { companyNip: nip }, // Wiążemy numer z firmą
+                     create: { number: phoneNumber, countryCode: 'PL', companyNip: nip }
+                 });
+                 data.phoneNumber = phoneNumber; // Wiążemy raport też z telefonem
+            }
         }
 
-        data.personId = personId;
-        data.scammerName = name; // Zapisujemy też w raporcie jako snapshot
-
-        // 2. Jeśli podano telefon, zapisujemy go TEŻ w tabeli PhoneNumber i wiążemy raport
-        // Dzięki temu wyszukiwanie "500600700" znajdzie ten raport
-        if (dto.phoneNumber) {
-             await this.prisma.phoneNumber.upsert({
-                 where: { number: dto.phoneNumber },
-                 update: {},
-                 create: { number: dto.phoneNumber, countryCode: 'PL', trustScore: 50 }
-             });
-             data.phoneNumber = dto.phoneNumber;
+        // --- ŚCIEŻKA 2: OSOBA (PERSON) ---
+        else {
+            // 1. Aktualizujemy dopasowaną osobę lub tworzymy nową
+            const person = existingPerson
+                ? await tx.person.update({
+                    where: { id: existingPerson.id },
+                    data: {
+                        email: dto.reportedEmail || existingPerson.email,
+                        bankAccount: accountNumber || existingPerson.bankAccount,
+                        phone: phoneNumber || existingPerson.phone,
+                        ...(accountNumber && {
+                            bankAccounts: { connect: { number: accountNumber } }
+                        })
+                    }
+                })
+                : await tx.person.create({
+                    data: {
+                        name: name,
+                        normalizedName: normalizePersonName(name),
+                        email: dto.reportedEmail,
+                        bankAccount: accountNumber,
+                        phone: phoneNumber,
+                        ...(accountNumber && {
+                            bankAccounts: { connect: { number: accountNumber } }
+                        })
+                    }
+                });
+
+            data.personId = person.id;
+            data.scammerName = name; // Zapisujemy też w raporcie jako snapshot
+
+            // 2. Jeśli podano telefon, zapisujemy go TEŻ w tabeli PhoneNumber i wiążemy raport
+            // Dzięki temu wyszukiwanie "500600700" znajdzie ten raport
+            if (phoneNumber) {
+                 await tx.phoneNumber.upsert({
+                     where: { number: phoneNumber },
+                     update: {},
+                     create: { number: phoneNumber, countryCode: 'PL', trustScore: 50 }
+                 });
+                 data.phoneNumber = phoneNumber;
+            }
         }
+
+        return tx.report.create({ data });
+    });
+    await this.webhookService.reportCreated(report);
+    return report;
+  }
+
+  // Jedno aktywne zgłoszenie na cel + oznaczenie nagłych wysypów zgłoszeń
+  private async guardTarget(userId: number, targets: ReportTarget[], data: any) {
+    await this.abuseService.assertNoActiveReport(userId, targets);
+    if (await this.abuseService.isVelocityBurst(targets)) {
+        data.flags = [ReportFlag.VELOCITY_BURST];
     }
+  }
 
-    // TWORZENIE RAPORTU
-    return this.prisma.report.create({ data });
+  // === EDYCJA I WYCOFANIE (autor lub moderator) ===
+
+  // Edycja autora wraca do kolejki moderacji; moderator poprawia bez zmiany statusu.
+  // Odrzuconego lub ukrytego autor nie zmieni - inaczej edycją wracałby do kolejki
+  // z pominięciem decyzji moderatora.
+  async update(id: number, actor: ReportActor, dto: UpdateReportDto) {
+    const report = await this.findManageable(id, actor);
+    if (report.status === ReportStatus.WITHDRAWN) {
+      throw new BadRequestException('Wycofanego zgłoszenia nie można edytować');
+    }
+    const byAuthor = report.userId === actor.userId;
+    if (byAuthor && !ACTIVE_REPORT_STATUSES.includes(report.status)) {
+      throw new ForbiddenException(
+        'Odrzucone lub ukryte zgłoszenie może zmienić tylko moderator',
+      );
+    }
+
+    const patch: Record<string, unknown> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (dto[field] !== undefined) patch[field] = dto[field];
+    }
+    let screenshotHash: string | null = null;
+    if (patch.screenshotPath) {
+      const screenshot = await this.resolveScreenshot(
+        String(patch.screenshotPath),
+        actor.userId,
+      );
+      patch.screenshotPath = screenshot.path;
+      screenshotHash = screenshot.hash;
+    }
+    const changes = diffFields(report, patch);
+    if (!Object.keys(changes).length) return report;
+
+    const data: any = { ...patch, updatedAt: new Date() };
+    if (byAuthor) {
+      Object.assign(data, {
+        status: ReportStatus.PENDING,
+        moderationReason: null,
+        moderatedAt: null,
+        moderatedById: null,
+      });
+      if (report.status !== ReportStatus.PENDING) {
+        changes.status = { from: report.status, to: ReportStatus.PENDING };
+      }
+    }
+    if (changes.screenshotPath) data.screenshotHash = screenshotHash;
+    if (changes.comment) {
+      data.identifiers = {
+        deleteMany: {},
+        create: extractIdentifiers(data.comment),
+      };
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.report.update({ where: { id }, data }),
+      this.prisma.reportRevision.create({
+        data: {
+          reportId: id,
+          editorId: actor.userId,
+          action: RevisionAction.EDIT,
+          changes,
+        },
+      }),
+    ]);
+    if (!byAuthor) {
+      await this.auditService.record(actor, {
+        action: AuditAction.REPORT_EDIT,
+        entityType: AuditEntity.REPORT,
+        entityId: id,
+        changes,
+      });
+    }
+    // Zatwierdzone przestało się liczyć do reputacji do czasu ponownej moderacji
+    if (changes.status) await this.reputationService.refresh(report.userId);
+    return updated;
   }
 
-  async uploadScreenshot(file: Express.Multer.File): Promise<string> {
-    if (!file) throw new BadRequestException('Brak pliku');
-    const allowedMimes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-    if (!allowedMimes.includes(file.mimetype!)) throw new BadRequestException('Zły format pliku');
-    if (file.size! > 5 * 1024 * 1024) throw new BadRequestException('Plik > 5MB');
-    
-    const timestamp = Date.now();
-    const ext = file.mimetype!.split('/')[1];
-    const filename = `screenshot${timestamp}${Math.random().toString(36).substr(2, 9)}.${ext}`;
-    const filepath = path.join(this.uploadsDir, filename);
-    
-    fs.writeFileSync(filepath, file.buffer!);
-    return `uploads/screenshots/${filename}`;
+  // Miękkie usunięcie: znika ze statystyk, zostaje w bazie do audytu
+  async withdraw(id: number, actor: ReportActor) {
+    const report = await this.findManageable(id, actor);
+    if (report.status === ReportStatus.WITHDRAWN) {
+      throw new BadRequestException('Zgłoszenie jest już wycofane');
+    }
+
+    const [updated] = await this.prisma.$transaction([
+      this.prisma.report.update({
+        where: { id },
+        data: { status: ReportStatus.WITHDRAWN, withdrawnAt: new Date() },
+      }),
+      this.prisma.reportRevision.create({
+        data: {
+          reportId: id,
+          editorId: actor.userId,
+          action: RevisionAction.WITHDRAW,
+          changes: {
+            status: { from: report.status, to: ReportStatus.WITHDRAWN },
+          },
+        },
+      }),
+    ]);
+    if (report.userId !== actor.userId) {
+      await this.auditService.record(actor, {
+        action: AuditAction.REPORT_WITHDRAW,
+        entityType: AuditEntity.REPORT,
+        entityId: id,
+        before: report,
+        after: updated,
+      });
+    }
+    await this.reputationService.refresh(report.userId);
+    return updated;
+  }
+
+  async getRevisions(id: number, actor: ReportActor) {
+    await this.findManageable(id, actor);
+    return this.prisma.reportRevision.findMany({
+      where: { reportId: id },
+      orderBy: { createdAt: 'asc' },
+      include: { editor: { select: { id: true, email: true } } },
+    });
+  }
+
+  // screenshotPath od klienta musi wskazywać zrzut wgrany przez tego użytkownika -
+  // inaczej dałoby się podpiąć (i dostać podpisany link do) cudzego pliku
+  private async resolveScreenshot(screenshotPath: string, userId: number) {
+    const screenshot = await this.screenshotService.findUploadedBy(
+      screenshotPath,
+      userId,
+    );
+    if (!screenshot) {
+      throw new BadRequestException(
+        'Nieznany zrzut ekranu - wgraj go przez /reports/upload-screenshot',
+      );
+    }
+    return screenshot;
+  }
+
+  private async findManageable(id: number, actor: ReportActor) {
+    const report = await this.prisma.report.findUnique({ where: { id } });
+    if (!report) throw new NotFoundException('Zgłoszenie nie istnieje');
+    if (
+      report.userId !== actor.userId &&
+      !hasPermission(actor.role, Permission.MODERATE_REPORTS)
+    ) {
+      throw new ForbiddenException('Możesz zmieniać tylko własne zgłoszenia');
+    }
+    return report;
+  }
+
+  // Najpierw osoba ze wspólnym telefonem/emailem/kontem i podobnym imieniem,
+  // potem to samo imię - ale tylko gdy identyfikatory się nie wykluczają
+  // (dwie różne "Justyny" z różnymi numerami to dwie osoby)
+  private async findMatchingPerson(
+    name: string,
+    identifiers: Omit<PersonIdentifiers, 'name'>,
+  ) {
+    const include = { bankAccounts: { select: { number: true } } };
+    const toIdentifiers = (p: any) => ({
+      phone: p.phone,
+      email: p.email,
+      bankAccounts: p.bankAccounts.map((a) => a.number),
+    });
+
+    const identifierConditions: any[] = [];
+    if (identifiers.phone) {
+      identifierConditions.push({ phone: identifiers.phone });
+    }
+    if (identifiers.email) {
+      identifierConditions.push({
+        email: { equals: identifiers.email, mode: 'insensitive' },
+      });
+    }
+    if (identifiers.bankAccounts?.length) {
+      identifierConditions.push({
+        bankAccounts: { some: { number: { in: identifiers.bankAccounts } } },
+      });
+    }
+
+    if (identifierConditions.length) {
+      const sharing = await this.prisma.person.findMany({
+        where: { mergedIntoId: null, OR: identifierConditions },
+        include,
+        orderBy: { createdAt: 'asc' },
+        take: 20,
+      });
+      const match = sharing.find((p) => nameSimilarity(p.name, name) >= 0.8);
+      if (match) return match;
+    }
+
+    const sameName = await this.prisma.person.findMany({
+      where: { mergedIntoId: null, normalizedName: normalizePersonName(name) },
+      include,
+      orderBy: { createdAt: 'asc' },
+      take: 20,
+    });
+    return (
+      sameName.find(
+        (p) => !identifiersConflict(toIdentifiers(p), identifiers),
+      ) ?? null
+    );
   }
 
   // Statystyki - uproszczone
@@ -149,11 +494,13 @@ export class ReportsService {
         whereCondition = { companyNip: targetValue };
     } else if (isPhone) {
         // Szukamy raportów gdzie phoneNumber jest taki SAMO
-        // LUB gdzie osoba ma taki numer telefonu
+        // LUB gdzie osoba ma taki numer telefonu (wszystko zapisane w E.164)
+        const phone = normalizePhone(targetValue) ?? targetValue;
         whereCondition = {
             OR: [
-                { phoneNumber: targetValue },
-                { person: { phone: targetValue } }
+                { phoneNumber: phone },
+                { person: { phone } },
+                { identifiers: { some: { type: 'PHONE', value: phone } } }
             ]
         };
     } else {
@@ -166,20 +513,45 @@ export class ReportsService {
         };
     }
 
+    // Do statystyk liczą się tylko zatwierdzone zgłoszenia
+    whereCondition.status = ReportStatus.APPROVED;
+
     const reports = await this.prisma.report.findMany({
       where: whereCondition,
       orderBy: { createdAt: 'desc' },
-      include: { user: { select: { email: true } }, person: true },
+      include: {
+        user: { select: { email: true, reputation: true } },
+        person: true,
+        screenshot: { select: { thumbnailPath: true } },
+      },
     });
 
     const negative = reports.filter((r) => r.rating <= 2).length;
     const positive = reports.filter((r) => r.rating >= 4).length;
     
+    // Tylko pola publiczne - bez autora, IP i ścieżek plików w magazynie
     const entries = reports.map(r => ({
-        ...r,
+        id: r.id,
+        rating: r.rating,
+        reason: r.reason,
+        comment: r.comment,
+        createdAt: r.createdAt,
+        weight: reputationWeight(r.user.reputation), // Wpływ wg reputacji autora
+        companyNip: r.companyNip,
+        personId: r.personId,
+        scammerName: r.scammerName,
         phoneNumber: r.phoneNumber,
+        reportedEmail: r.reportedEmail,
+        facebookLink: r.facebookLink,
+        bankAccount: r.bankAccount,
+        bankAccountNumber: r.bankAccountNumber,
+        accountOnWhiteList: r.accountOnWhiteList,
         screenshotUrl: r.screenshotUrl,
-        screenshotPath: r.screenshotPath
+        // Zatwierdzone dowody są publiczne, ale tylko przez krótko ważne linki
+        // (pełny zrzut: GET /reports/:id/evidence)
+        thumbnailLink: r.screenshot
+          ? this.evidenceService.createLink(r.screenshot.thumbnailPath).url
+          : null,
     }));
 
     return { total: reports.length, negative, positive, entries };
@@ -188,6 +560,7 @@ export class ReportsService {
   // GetLatest - bez zmian, bo działa na gotowych danych
   async getLatestGlobal(limit: number = 6) {
     const reports = await this.prisma.report.findMany({
+      where: { status: ReportStatus.APPROVED },
       take: limit,
       orderBy: { createdAt: 'desc' },
       include: {
@@ -218,11 +591,192 @@ export class ReportsService {
         reason: r.reason,
         comment: r.comment,
         date: r.createdAt,
-        screenshotPath: r.screenshotPath,
         screenshotUrl: r.screenshotUrl,
         phoneNumber: r.phoneNumber,
             bankAccount: r.bankAccount
       };
     });
   }
+
+  // === MODERACJA ===
+
+  getModerationQueue(
+    status: string = ReportStatus.PENDING,
+    limit: number = 50,
+  ) {
+    return this.prisma.report.findMany({
+      where: { status },
+      orderBy: { createdAt: 'asc' }, // Najstarsze najpierw
+      take: limit,
+      include: {
+        user: { select: { id: true, email: true } },
+        company: { select: { nip: true, name: true } },
+        person: { select: { id: true, name: true } },
+        // similarToHash != null => ten sam obraz był już zgłaszany
+        screenshot: { select: { thumbnailPath: true, similarToHash: true } },
+      },
+    });
+  }
+
+  async moderate(
+    id: number,
+    actor: AuditActor,
+    status: string,
+    reason?: string,
+  ) {
+    this.assertModerationReason(status, reason);
+
+    const report = await this.prisma.report.findUnique({ where: { id } });
+    if (!report) throw new NotFoundException('Zgłoszenie nie istnieje');
+    if (report.status === ReportStatus.WITHDRAWN) {
+      throw new BadRequestException('Zgłoszenie zostało wycofane przez autora');
+    }
+
+    const updated = await this.prisma.report.update({
+      where: { id },
+      data: {
+        status,
+        moderationReason: reason ?? null,
+        moderatedById: actor.userId,
+        moderatedAt: new Date(),
+      },
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.REPORT_MODERATE,
+      entityType: AuditEntity.REPORT,
+      entityId: id,
+      before: report,
+      after: updated,
+    });
+    if (
+      status === ReportStatus.APPROVED &&
+      report.status !== ReportStatus.APPROVED
+    ) {
+      await this.watchlistNotifier.reportApproved(updated);
+      await this.webhookService.reportApproved(updated);
+    }
+
+    // Decyzja moderatora zmienia reputację autora
+    await this.reputationService.refresh(report.userId);
+    return updated;
+  }
+
+  async bulkModerate(
+    ids: number[],
+    actor: AuditActor,
+    status: string,
+    reason?: string,
+  ) {
+    this.assertModerationReason(status, reason);
+
+    const where = {
+      id: { in: ids },
+      status: { not: ReportStatus.WITHDRAWN },
+    };
+    const before = await this.prisma.report.findMany({
+      where,
+      select: { id: true, status: true, moderationReason: true },
+    });
+    const result = await this.prisma.report.updateMany({
+      where,
+      data: {
+        status,
+        moderationReason: reason ?? null,
+        moderatedById: actor.userId,
+        moderatedAt: new Date(),
+      },
+    });
+    await this.auditService.recordMany(
+      actor,
+      before.map((report) => ({
+        action: AuditAction.REPORT_MODERATE,
+        entityType: AuditEntity.REPORT,
+        entityId: report.id,
+        changes: diffSnapshots(report, {
+          id: report.id,
+          status,
+          moderationReason: reason ?? null,
+        }),
+      })),
+    );
+    if (status === ReportStatus.APPROVED) {
+      const approved = await this.prisma.report.findMany({
+        where: {
+          id: {
+            in: before
+              .filter((r) => r.status !== ReportStatus.APPROVED)
+              .map((r) => r.id),
+          },
+        },
+      });
+      for (const report of approved) {
+        await this.watchlistNotifier.reportApproved(report);
+        await this.webhookService.reportApproved(report);
+      }
+    }
+
+    const authors = await this.prisma.report.findMany({
+      where: { id: { in: ids } },
+      select: { userId: true },
+    });
+    await this.reputationService.refreshMany(authors.map((r) => r.userId));
+
+    return { updated: result.count };
+  }
+
+  // Zgłoszenia zalogowanego użytkownika wraz ze stanem moderacji
+  getMine(userId: number) {
+    return this.prisma.report.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        companyNip: true,
+        phoneNumber: true,
+        scammerName: true,
+        rating: true,
+        reason: true,
+        comment: true,
+        status: true,
+        moderationReason: true,
+        moderatedAt: true,
+        withdrawnAt: true,
+        updatedAt: true,
+        createdAt: true,
+        _count: { select: { revisions: true } },
+      },
+    });
+  }
+
+  // Potwierdzenie cudzego zgłoszenia ("mnie też to spotkało")
+  async confirm(reportId: number, userId: number) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+    });
+    if (!report || report.status !== ReportStatus.APPROVED) {
+      throw new NotFoundException('Zgłoszenie nie istnieje');
+    }
+    if (report.userId === userId) {
+      throw new BadRequestException(
+        'Nie możesz potwierdzić własnego zgłoszenia',
+      );
+    }
+
+    const existing = await this.prisma.reportConfirmation.findUnique({
+      where: { reportId_userId: { reportId, userId } },
+    });
+    if (existing) throw new ConflictException('Zgłoszenie już potwierdzone');
+
+    const confirmation = await this.prisma.reportConfirmation.create({
+      data: { reportId, userId },
+    });
+    await this.reputationService.refresh(report.userId);
+    return confirmation;
+  }
+
+  private assertModerationReason(status: string, reason?: string) {
+    if (status === ReportStatus.REJECTED && !reason?.trim()) {
+      throw new BadRequestException('Podaj powód odrzucenia zgłoszenia');
+    }
+  }
 }
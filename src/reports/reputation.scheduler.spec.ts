@@ -0,0 +1,50 @@
+import { ReputationScheduler } from './reputation.scheduler';
+
+describe('ReputationScheduler', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const DAY = 24 * 60 * 60 * 1000;
+  let prisma: any;
+  let reputationService: { refresh: jest.Mock };
+  let scheduler: ReputationScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    prisma = {
+      user: {
+        findMany: jest.fn().mockResolvedValue([{ id: 1 }, { id: 2 }]),
+      },
+    };
+    reputationService = { refresh: jest.fn() };
+    scheduler = new ReputationScheduler(
+      prisma,
+      {} as any,
+      { get: (_key: string, fallback: unknown) => fallback } as any,
+      reputationService as any,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should refresh reporters whose account age still adds points', async () => {
+    await scheduler.tick();
+
+    const { where } = prisma.user.findMany.mock.calls[0][0];
+    // Pełny wiek konta (60 dni) plus zapas na ostatnie przeliczenie
+    expect(where.createdAt).toEqual({
+      gt: new Date(now.getTime() - 62 * DAY),
+    });
+    expect(where.OR).toEqual([
+      { reputationUpdatedAt: null },
+      { reputationUpdatedAt: { lt: new Date(now.getTime() - DAY) } },
+    ]);
+    expect(reputationService.refresh.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('should continue with the batch when one user fails', async () => {
+    reputationService.refresh.mockRejectedValueOnce(new Error('brak'));
+
+    await scheduler.tick();
+
+    expect(reputationService.refresh).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service';
+import { ACCOUNT_AGE_FULL_DAYS } from './reputation';
+import { ReputationService } from './reputation.service';
+
+const INTERVAL_NAME = 'reputation-refresh';
+const DAY = 24 * 60 * 60 * 1000;
+// Zapas na ostatnie przeliczenie po osiągnięciu pełnego wieku konta
+const FULL_AGE_MARGIN_DAYS = 2;
+
+// Reputacja jest przeliczana przy moderacji zgłoszeń autora, ale jej składnik
+// "wiek konta" rośnie sam z czasem. Raz na dobę przeliczamy więc autorów, których
+// konta nie osiągnęły jeszcze pełnego wieku - także tych bez nowych zgłoszeń.
+// Przy kilku instancjach włączać tylko w jednej: REPUTATION_REFRESH_ENABLED=false w pozostałych.
+@Injectable()
+export class ReputationScheduler
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(ReputationScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly scheduler: SchedulerRegistry,
+    private readonly config: ConfigService,
+    private readonly reputationService: ReputationService,
+  ) {}
+
+  onModuleInit() {
+    if (
+      this.config.get<string>('REPUTATION_REFRESH_ENABLED', 'true') !== 'true'
+    ) {
+      return;
+    }
+    const every = Number(
+      this.config.get('REPUTATION_REFRESH_INTERVAL_MS', 60 * 60 * 1000),
+    );
+    this.scheduler.addInterval(
+      INTERVAL_NAME,
+      setInterval(() => void this.tick(), every),
+    );
+  }
+
+  onApplicationShutdown() {
+    if (this.scheduler.doesExist('interval', INTERVAL_NAME)) {
+      this.scheduler.deleteInterval(INTERVAL_NAME);
+    }
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const { id } of await this.findStale()) {
+        try {
+          await this.reputationService.refresh(id);
+        } catch (err) {
+          this.logger.warn(`Nie udało się przeliczyć reputacji ${id}: ${err}`);
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Błąd przeliczania reputacji: ${err}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Autorzy zgłoszeń z młodymi kontami, nieprzeliczani od ponad doby
+  private findStale() {
+    const now = Date.now();
+    return this.prisma.user.findMany({
+      where: {
+        createdAt: {
+          gt: new Date(
+            now - (ACCOUNT_AGE_FULL_DAYS + FULL_AGE_MARGIN_DAYS) * DAY,
+          ),
+        },
+        OR: [
+          { reputationUpdatedAt: null },
+          { reputationUpdatedAt: { lt: new Date(now - DAY) } },
+        ],
+        reports: { some: {} },
+      },
+      orderBy: { reputationUpdatedAt: { sort: 'asc', nulls: 'first' } },
+      take: Number(this.config.get('REPUTATION_REFRESH_BATCH', 100)),
+      select: { id: true },
+    });
+  }
+}
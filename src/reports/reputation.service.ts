@@ -0,0 +1,52 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { ReportStatus } from './report-status';
+import { calculateReputation } from './reputation';
+
+@Injectable()
+export class ReputationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Przelicza reputację i zapisuje ją w User.reputation
+  async refresh(userId: number) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, createdAt: true },
+    });
+    if (!user) throw new NotFoundException('Użytkownik nie istnieje');
+
+    const [approvedReports, rejectedReports, confirmationsReceived] =
+      await Promise.all([
+        this.prisma.report.count({
+          where: { userId, status: ReportStatus.APPROVED },
+        }),
+        this.prisma.report.count({
+          where: { userId, status: ReportStatus.REJECTED },
+        }),
+        this.prisma.reportConfirmation.count({
+          where: { report: { userId }, userId: { not: userId } },
+        }),
+      ]);
+
+    const stats = {
+      accountCreatedAt: user.createdAt,
+      approvedReports,
+      rejectedReports,
+      confirmationsReceived,
+    };
+    const result = calculateReputation(stats);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { reputation: result.reputation, reputationUpdatedAt: new Date() },
+    });
+
+    return { ...result, stats };
+  }
+
+  async refreshMany(userIds: number[]) {
+    for (const userId of new Set(userIds)) {
+      await this.refresh(userId);
+    }
+  }
+}
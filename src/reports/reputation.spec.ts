@@ -0,0 +1,54 @@
+import { calculateReputation, reputationWeight } from './reputation';
+
+describe('reputation', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  it('should give a fresh account the base reputation', () => {
+    const result = calculateReputation(
+      {
+        accountCreatedAt: now,
+        approvedReports: 0,
+        rejectedReports: 0,
+        confirmationsReceived: 0,
+      },
+      now,
+    );
+    expect(result.reputation).toBe(30);
+    expect(result.weight).toBe(0.59);
+  });
+
+  it('should reward age, approved reports and confirmations', () => {
+    const result = calculateReputation(
+      {
+        accountCreatedAt: daysAgo(90),
+        approvedReports: 4,
+        rejectedReports: 0,
+        confirmationsReceived: 3,
+      },
+      now,
+    );
+    expect(result.reputation).toBe(30 + 20 + 12 + 6);
+  });
+
+  it('should punish rejected reports down to zero', () => {
+    const result = calculateReputation(
+      {
+        accountCreatedAt: daysAgo(1),
+        approvedReports: 0,
+        rejectedReports: 5,
+        confirmationsReceived: 0,
+      },
+      now,
+    );
+    expect(result.reputation).toBe(0);
+    expect(result.weight).toBe(0.2);
+  });
+
+  it('reputationWeight should stay within bounds', () => {
+    expect(reputationWeight(100)).toBe(1.5);
+    expect(reputationWeight(-10)).toBe(0.2);
+    expect(reputationWeight(undefined)).toBe(0.59);
+  });
+});
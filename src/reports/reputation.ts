@@ -0,0 +1,68 @@
+export interface ReputationStats {
+  accountCreatedAt: Date;
+  approvedReports: number;
+  rejectedReports: number;
+  confirmationsReceived: number; // potwierdzenia jego zgłoszeń przez innych
+}
+
+export interface ReputationResult {
+  reputation: number; // 0-100
+  weight: number; // mnożnik wpływu zgłoszeń w statystykach
+  breakdown: { factor: string; label: string; points: number }[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const REPUTATION_BASE = 30;
+// Wiek konta: punkt za każde 3 dni, najwyżej 20
+const DAYS_PER_AGE_POINT = 3;
+const MAX_AGE_POINTS = 20;
+// Po tylu dniach wiek konta przestaje podnosić reputację
+export const ACCOUNT_AGE_FULL_DAYS = DAYS_PER_AGE_POINT * MAX_AGE_POINTS;
+const MIN_WEIGHT = 0.2;
+const MAX_WEIGHT = 1.5;
+
+// Mnożnik zgłoszenia: nowe konto ~0.6, zaufany reporter do 1.5
+export function reputationWeight(reputation: number | null | undefined) {
+  const value = Math.max(0, Math.min(100, reputation ?? REPUTATION_BASE));
+  const weight = MIN_WEIGHT + (value / 100) * (MAX_WEIGHT - MIN_WEIGHT);
+  return Math.round(weight * 100) / 100;
+}
+
+export function calculateReputation(
+  stats: ReputationStats,
+  now: Date = new Date(),
+): ReputationResult {
+  const ageDays = (now.getTime() - stats.accountCreatedAt.getTime()) / DAY;
+
+  const breakdown = [
+    { factor: 'BASE', label: 'Wartość startowa', points: REPUTATION_BASE },
+    {
+      factor: 'ACCOUNT_AGE',
+      label: 'Wiek konta',
+      points: Math.floor(
+        Math.min(Math.max(ageDays, 0) / DAYS_PER_AGE_POINT, MAX_AGE_POINTS),
+      ),
+    },
+    {
+      factor: 'APPROVED_REPORTS',
+      label: 'Zgłoszenia zatwierdzone przez moderację',
+      points: Math.min(stats.approvedReports * 3, 30),
+    },
+    {
+      factor: 'CONFIRMATIONS',
+      label: 'Potwierdzenia zgłoszeń przez innych użytkowników',
+      points: Math.min(stats.confirmationsReceived * 2, 20),
+    },
+    {
+      factor: 'REJECTED_REPORTS',
+      label: 'Zgłoszenia odrzucone przez moderację',
+      points: -Math.min(stats.rejectedReports * 10, 60),
+    },
+  ].filter((item) => item.factor === 'BASE' || item.points !== 0);
+
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0);
+  const reputation = Math.max(0, Math.min(100, total));
+
+  return { reputation, weight: reputationWeight(reputation), breakdown };
+}
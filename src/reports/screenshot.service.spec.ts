@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client';
+import sharp from 'sharp';
+import { ScreenshotService } from './screenshot.service';
+
+describe('ScreenshotService.store', () => {
+  let prisma: any;
+  let service: ScreenshotService;
+  let file: Express.Multer.File;
+
+  beforeAll(async () => {
+    const buffer = await sharp({
+      create: { width: 16, height: 16, channels: 3, background: '#c00' },
+    })
+      .png()
+      .toBuffer();
+    file = { buffer, size: buffer.length } as Express.Multer.File;
+  });
+
+  beforeEach(() => {
+    prisma = {
+      screenshot: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findUniqueOrThrow: jest.fn(),
+        create: jest.fn(({ data }) => data),
+      },
+      screenshotUpload: { upsert: jest.fn() },
+      report: { findMany: jest.fn().mockResolvedValue([]) },
+      $queryRaw: jest.fn().mockResolvedValue([]),
+    };
+    service = new ScreenshotService(prisma, { put: jest.fn() } as any);
+  });
+
+  it('should store a new screenshot and record the upload', async () => {
+    const result = await service.store(file, 1);
+
+    expect(result.duplicate).toBe(false);
+    expect(prisma.screenshot.create).toHaveBeenCalledTimes(1);
+    expect(prisma.screenshotUpload.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { screenshotHash: result.screenshot.hash, userId: 1 },
+      }),
+    );
+  });
+
+  it('should return the concurrently stored row when the insert hits the unique hash', async () => {
+    prisma.screenshot.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: '5.0.0',
+      }),
+    );
+    prisma.screenshot.findUniqueOrThrow.mockImplementation(({ where }) => ({
+      hash: where.hash,
+      similarToHash: null,
+    }));
+
+    const result = await service.store(file, 2);
+
+    expect(result.duplicate).toBe(true);
+    expect(prisma.screenshotUpload.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { screenshotHash: result.screenshot.hash, userId: 2 },
+      }),
+    );
+  });
+
+  it('should rethrow other database errors', async () => {
+    prisma.screenshot.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.store(file, 1)).rejects.toThrow('connection lost');
+    expect(prisma.screenshot.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+});
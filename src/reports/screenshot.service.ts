@@ -0,0 +1,226 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { PrismaService } from '../prisma.service';
+import { STORAGE_DRIVER, toStorageKey } from '../storage/storage.driver';
+import type { StorageDriver } from '../storage/storage.driver';
+import { ReportStatus } from './report-status';
+import { differenceHash, ImageMime, sniffImageType } from './screenshot.util';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_INPUT_PIXELS = 40_000_000; // Ochrona przed "bombami" dekompresyjnymi
+const THUMBNAIL_WIDTH = 320;
+// Maksymalna liczba różnych bitów dHash, przy której uznajemy zrzuty za ten sam obraz
+export const SIMILARITY_THRESHOLD = 6;
+
+// Format zapisu po ponownym zakodowaniu (GIF -> pierwsza klatka jako PNG)
+const OUTPUT_FORMATS: Record<ImageMime, 'jpeg' | 'png' | 'webp'> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'png',
+};
+
+type StoredScreenshot = Awaited<
+  ReturnType<PrismaService['screenshot']['create']>
+>;
+
+@Injectable()
+export class ScreenshotService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+  ) {}
+
+  store(file: Express.Multer.File, userId: number) {
+    return this.storeImage(file?.buffer, userId);
+  }
+
+  // Także pliki sprzed ScreenshotService (npm run storage:migrate)
+  async storeImage(buffer: Buffer | undefined, userId: number) {
+    if (!buffer) throw new BadRequestException('Brak pliku');
+    if (buffer.length > MAX_FILE_SIZE) {
+      throw new BadRequestException('Plik > 5MB');
+    }
+
+    const mime = sniffImageType(buffer);
+    if (!mime) throw new BadRequestException('Zły format pliku');
+    const format = OUTPUT_FORMATS[mime];
+
+    // Ponowne zakodowanie usuwa EXIF (GPS, model urządzenia) - sharp nie
+    // przepisuje metadanych bez withMetadata(); rotate() utrwala orientację
+    let image: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      image = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .toFormat(format, format === 'jpeg' ? { quality: 85 } : {})
+        .toBuffer({ resolveWithObject: true });
+    } catch {
+      throw new BadRequestException(
+        'Plik jest uszkodzony lub nie jest obrazem',
+      );
+    }
+
+    const hash = createHash('sha256').update(image.data).digest('hex');
+
+    // Ten sam plik już mamy - nie zapisujemy drugiej kopii
+    const existing = await this.prisma.screenshot.findUnique({
+      where: { hash },
+    });
+    if (existing) return this.duplicateOf(existing, userId);
+
+    // Klucze w magazynie (StorageDriver), nie ścieżki na dysku
+    const key = `screenshots/${hash}.${format === 'jpeg' ? 'jpg' : format}`;
+    const thumbnailKey = `screenshots/${hash}_thumb.webp`;
+    const thumbnail = await sharp(image.data)
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+
+    await this.storage.put(key, image.data, `image/${format}`);
+    await this.storage.put(thumbnailKey, thumbnail, 'image/webp');
+
+    const perceptualHash = await this.perceptualHash(image.data);
+    const [nearest] = await this.findSimilarScreenshots(perceptualHash);
+
+    let screenshot: StoredScreenshot;
+    try {
+      screenshot = await this.prisma.screenshot.create({
+        data: {
+          hash,
+          path: key,
+          thumbnailPath: thumbnailKey,
+          mimeType: `image/${format}`,
+          width: image.info.width,
+          height: image.info.height,
+          size: image.info.size,
+          perceptualHash,
+          // Łączymy z kanonicznym (pierwszym) zrzutem grupy
+          similarToHash: nearest
+            ? (nearest.similarToHash ?? nearest.hash)
+            : null,
+        },
+      });
+    } catch (err) {
+      // Ten sam plik wgrany równolegle: drugi zapis przegrywa na unikalnym hash.
+      // Pliki w magazynie są identyczne (klucz = hash), więc bierzemy zapisany wiersz.
+      if (
+        !(err instanceof Prisma.PrismaClientKnownRequestError) ||
+        err.code !== 'P2002'
+      ) {
+        throw err;
+      }
+      const stored = await this.prisma.screenshot.findUniqueOrThrow({
+        where: { hash },
+      });
+      return this.duplicateOf(stored, userId);
+    }
+
+    await this.recordUpload(hash, userId);
+
+    return {
+      screenshot,
+      duplicate: false,
+      similarReports: await this.findSimilarReports(screenshot),
+    };
+  }
+
+  private async duplicateOf(screenshot: StoredScreenshot, userId: number) {
+    await this.recordUpload(screenshot.hash, userId);
+    return {
+      screenshot,
+      duplicate: true,
+      similarReports: await this.findSimilarReports(screenshot),
+    };
+  }
+
+  // Zrzut o podanej ścieżce, o ile wgrał go ten użytkownik (inaczej null)
+  findUploadedBy(pathOrKey: string, userId: number) {
+    return this.prisma.screenshot.findFirst({
+      where: {
+        path: toStorageKey(pathOrKey),
+        uploads: { some: { userId } },
+      },
+    });
+  }
+
+  async getSimilarForReport(reportId: number) {
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      include: { screenshot: true },
+    });
+    if (!report) throw new NotFoundException('Zgłoszenie nie istnieje');
+    if (!report.screenshot) return [];
+    return this.findSimilarReports(report.screenshot, reportId);
+  }
+
+  // Zatwierdzone zgłoszenia z tym samym lub wizualnie podobnym zrzutem
+  async findSimilarReports(
+    screenshot: { hash: string; similarToHash: string | null },
+    excludeReportId?: number,
+  ) {
+    const root = screenshot.similarToHash ?? screenshot.hash;
+    const reports = await this.prisma.report.findMany({
+      where: {
+        status: ReportStatus.APPROVED,
+        id: excludeReportId ? { not: excludeReportId } : undefined,
+        screenshot: {
+          OR: [{ hash: root }, { similarToHash: root }],
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      select: {
+        id: true,
+        companyNip: true,
+        phoneNumber: true,
+        personId: true,
+        scammerName: true,
+        createdAt: true,
+        screenshotHash: true,
+      },
+    });
+    return reports.map((r) => ({
+      ...r,
+      sameFile: r.screenshotHash === screenshot.hash,
+    }));
+  }
+
+  private async recordUpload(screenshotHash: string, userId: number) {
+    await this.prisma.screenshotUpload.upsert({
+      where: { screenshotHash_userId: { screenshotHash, userId } },
+      update: {},
+      create: { screenshotHash, userId },
+    });
+  }
+
+  private async perceptualHash(data: Buffer): Promise<string> {
+    const pixels = await sharp(data)
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    return differenceHash(pixels);
+  }
+
+  // Odległość Hamminga liczona w bazie (XOR na bit(64))
+  private findSimilarScreenshots(
+    perceptualHash: string,
+  ): Promise<{ hash: string; similarToHash: string | null }[]> {
+    return this.prisma.$queryRaw`
+      SELECT "hash", "similarToHash"
+      FROM "Screenshot"
+      WHERE length(replace(
+              (('x' || "perceptualHash")::bit(64) # ('x' || ${perceptualHash})::bit(64))::text,
+              '0', '')) <= ${SIMILARITY_THRESHOLD}
+      ORDER BY "createdAt" ASC
+      LIMIT 1
+    `;
+  }
+}
@@ -0,0 +1,44 @@
+import { differenceHash, sniffImageType } from './screenshot.util';
+
+describe('screenshot.util', () => {
+  describe('sniffImageType', () => {
+    it('should recognize formats by magic bytes', () => {
+      expect(sniffImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0]))).toBe(
+        'image/jpeg',
+      );
+      expect(
+        sniffImageType(
+          Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]),
+        ),
+      ).toBe('image/png');
+      expect(sniffImageType(Buffer.from('GIF89a'))).toBe('image/gif');
+      expect(sniffImageType(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 '))).toBe(
+        'image/webp',
+      );
+    });
+
+    it('should reject files pretending to be images', () => {
+      expect(sniffImageType(Buffer.from('<?php echo 1; ?>'))).toBeNull();
+      expect(
+        sniffImageType(Buffer.from('RIFF\x10\x00\x00\x00WAVE')),
+      ).toBeNull();
+      expect(sniffImageType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('differenceHash', () => {
+    const gradient = (reverse: boolean) =>
+      Uint8Array.from({ length: 72 }, (_, i) =>
+        reverse ? 255 - (i % 9) * 20 : (i % 9) * 20,
+      );
+
+    it('should produce a 64-bit hex hash', () => {
+      expect(differenceHash(gradient(false))).toBe('0000000000000000');
+      expect(differenceHash(gradient(true))).toBe('ffffffffffffffff');
+    });
+
+    it('should require a 9x8 image', () => {
+      expect(() => differenceHash(new Uint8Array(64))).toThrow();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+// Rozpoznawanie formatu po nagłówku pliku - nie ufamy mimetype od klienta
+const SIGNATURES: { mime: ImageMime; bytes: (number | null)[] }[] = [
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  {
+    mime: 'image/png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  // RIFF....WEBP (bajty 4-7 to rozmiar)
+  {
+    mime: 'image/webp',
+    bytes: [
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      null,
+      null,
+      null,
+      null,
+      0x57,
+      0x45,
+      0x42,
+      0x50,
+    ],
+  },
+];
+
+export type ImageMime = 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif';
+
+export function sniffImageType(buffer: Buffer): ImageMime | null {
+  const match = SIGNATURES.find(
+    ({ bytes }) =>
+      buffer.length >= bytes.length &&
+      bytes.every((b, i) => b === null || buffer[i] === b),
+  );
+  return match?.mime ?? null;
+}
+
+// dHash: każdy bit = czy piksel jest jaśniejszy od prawego sąsiada.
+// pixels to obraz 9x8 w skali szarości (72 bajty, wierszami).
+// Odporny na skalowanie i kompresję, ale nie na przycięcie - wycinek
+// zrzutu daje zupełnie inny hash.
+export function differenceHash(pixels: Uint8Array | Buffer): string {
+  if (pixels.length !== 72) {
+    throw new Error('differenceHash oczekuje obrazu 9x8 w skali szarości');
+  }
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const left = pixels[y * 9 + x];
+      const right = pixels[y * 9 + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
@@ -0,0 +1,68 @@
+// Ponowne przetworzenie komentarzy istniejących zgłoszeń - wyciąga telefony,
+// konta, e-maile, linki i NIP-y do ReportIdentifier.
+//
+//   npm run reports:extract-identifiers -- [--dry-run]
+import { NestFactory } from '@nestjs/core';
+import { PrismaModule } from '../prisma.module';
+import { PrismaService } from '../prisma.service';
+import { extractIdentifiers } from '../reports/identifier-extraction';
+
+const BATCH_SIZE = 500;
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  // Sama baza - AppModule uruchomiłby też workery (webhooki, masowa weryfikacja,
+  // odświeżanie firm), które działałyby w tle skryptu
+  const app = await NestFactory.createApplicationContext(PrismaModule, {
+    logger: ['error', 'warn'],
+  });
+  const prisma = app.get(PrismaService);
+
+  let cursor = 0;
+  let processed = 0;
+  let created = 0;
+  try {
+    for (;;) {
+      const reports = await prisma.report.findMany({
+        where: { id: { gt: cursor }, comment: { not: null } },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        select: { id: true, comment: true },
+      });
+      if (!reports.length) break;
+
+      const rows = reports.flatMap((r) =>
+        extractIdentifiers(r.comment).map((identifier) => ({
+          reportId: r.id,
+          ...identifier,
+        })),
+      );
+      if (rows.length && !dryRun) {
+        // skipDuplicates - skrypt można bezpiecznie uruchamiać wielokrotnie
+        const result = await prisma.reportIdentifier.createMany({
+          data: rows,
+          skipDuplicates: true,
+        });
+        created += result.count;
+      } else {
+        created += rows.length;
+      }
+
+      processed += reports.length;
+      cursor = reports[reports.length - 1].id;
+      console.log(
+        `[IdentifierBackfill] ${processed} zgłoszeń, ${created} identyfikatorów`,
+      );
+    }
+    console.log(
+      `[IdentifierBackfill] Gotowe${dryRun ? ' (dry run)' : ''}: ${processed} zgłoszeń, ${created} nowych identyfikatorów`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
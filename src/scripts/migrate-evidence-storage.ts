@@ -0,0 +1,211 @@
+// Przeniesienie zrzutów ekranu z dysku lokalnego do skonfigurowanego magazynu
+// i przepisanie screenshotPath na klucze magazynu. Zgłoszenia sprzed
+// ScreenshotService dostają wiersz Screenshot - bez niego nie mają dowodów.
+//
+//   npm run storage:migrate -- [--dry-run] [--delete-source] [--from=uploads]
+//
+// Docelowy magazyn wybiera STORAGE_DRIVER (np. s3 + zmienne S3_*).
+import { NestFactory } from '@nestjs/core';
+import * as path from 'path';
+import { AppModule } from '../app.module';
+import { PrismaService } from '../prisma.service';
+import { ScreenshotService } from '../reports/screenshot.service';
+import { LocalStorageDriver } from '../storage/local-storage.driver';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+  toStorageKey,
+} from '../storage/storage.driver';
+
+interface MigrationOptions {
+  dryRun: boolean;
+  deleteSource: boolean;
+}
+
+interface MigrationStats {
+  copied: number;
+  skipped: number; // Plik już jest w magazynie docelowym
+  missing: number; // Brak pliku źródłowego - rekord zostaje bez zmian
+  rewritten: number; // Zaktualizowane wiersze
+  linked: number; // Stare zgłoszenia powiązane z nowym wierszem Screenshot
+}
+
+async function migrateEvidence(
+  prisma: PrismaService,
+  screenshots: ScreenshotService,
+  source: StorageDriver,
+  target: StorageDriver,
+  options: MigrationOptions,
+): Promise<MigrationStats> {
+  const stats: MigrationStats = {
+    copied: 0,
+    skipped: 0,
+    missing: 0,
+    rewritten: 0,
+    linked: 0,
+  };
+  const moved = new Map<string, boolean>(); // klucz -> czy plik jest w celu
+
+  const moveFile = async (storedPath: string): Promise<boolean> => {
+    const key = toStorageKey(storedPath);
+    const known = moved.get(key);
+    if (known !== undefined) return known;
+
+    let ok = true;
+    if (await target.exists(key)) {
+      stats.skipped++;
+    } else if (!(await source.exists(key))) {
+      console.warn(`[StorageMigration] Brak pliku: ${storedPath}`);
+      stats.missing++;
+      ok = false;
+    } else {
+      if (!options.dryRun) {
+        await target.put(key, await source.get(key));
+        if (options.deleteSource) await source.delete(key);
+      }
+      stats.copied++;
+    }
+    moved.set(key, ok);
+    return ok;
+  };
+
+  // 1. Zrzuty przetworzone przez ScreenshotService
+  const stored = await prisma.screenshot.findMany({
+    select: { hash: true, path: true, thumbnailPath: true },
+  });
+  for (const s of stored) {
+    const fileOk = await moveFile(s.path);
+    const thumbOk = await moveFile(s.thumbnailPath);
+    const key = toStorageKey(s.path);
+    const thumbnailKey = toStorageKey(s.thumbnailPath);
+    if (!fileOk || !thumbOk) continue;
+    if (key === s.path && thumbnailKey === s.thumbnailPath) continue;
+    if (!options.dryRun) {
+      await prisma.screenshot.update({
+        where: { hash: s.hash },
+        data: { path: key, thumbnailPath: thumbnailKey },
+      });
+    }
+    stats.rewritten++;
+  }
+
+  // 2. screenshotPath w zgłoszeniach (także stare pliki sprzed ScreenshotService)
+  const paths = await prisma.report.findMany({
+    where: { screenshotPath: { not: null } },
+    distinct: ['screenshotPath'],
+    select: { screenshotPath: true },
+  });
+  for (const { screenshotPath } of paths) {
+    if (!(await moveFile(screenshotPath))) continue;
+    const key = toStorageKey(screenshotPath);
+    if (key === screenshotPath) continue;
+    if (options.dryRun) {
+      stats.rewritten += await prisma.report.count({
+        where: { screenshotPath },
+      });
+      continue;
+    }
+    const { count } = await prisma.report.updateMany({
+      where: { screenshotPath },
+      data: { screenshotPath: key },
+    });
+    stats.rewritten += count;
+  }
+
+  // 3. Zgłoszenia z samym screenshotPath - EvidenceService podpisuje tylko
+  // zrzuty z wierszem Screenshot. Plik przechodzi przez ScreenshotService
+  // (EXIF, miniatura, dHash). screenshotPath przychodził od klienta, więc
+  // właścicielem pliku jest autor najstarszego zgłoszenia z tą ścieżką -
+  // zgłoszenia innych autorów wskazujące ten plik zostają bez dowodu.
+  const legacy = await prisma.report.findMany({
+    where: { screenshotPath: { not: null }, screenshotHash: null },
+    orderBy: { id: 'asc' },
+    select: { id: true, userId: true, screenshotPath: true },
+  });
+  const byPath = new Map<string, { id: number; userId: number }[]>();
+  for (const { screenshotPath, ...report } of legacy) {
+    byPath.set(screenshotPath, [...(byPath.get(screenshotPath) ?? []), report]);
+  }
+
+  for (const [screenshotPath, reports] of byPath) {
+    const first = await prisma.report.findFirst({
+      where: { screenshotPath },
+      orderBy: { id: 'asc' },
+      select: { userId: true },
+    });
+    const owned = reports.filter((r) => r.userId === first.userId);
+    if (!owned.length) continue;
+
+    const key = toStorageKey(screenshotPath);
+    const from = (await target.exists(key)) ? target : source;
+    if (!(await from.exists(key))) continue; // Policzone już w kroku 2
+    if (options.dryRun) {
+      stats.linked += owned.length;
+      continue;
+    }
+
+    try {
+      const { screenshot } = await screenshots.storeImage(
+        await from.get(key),
+        first.userId,
+      );
+      const { count } = await prisma.report.updateMany({
+        where: { id: { in: owned.map((r) => r.id) } },
+        data: {
+          screenshotHash: screenshot.hash,
+          screenshotPath: screenshot.path,
+        },
+      });
+      stats.linked += count;
+    } catch (err) {
+      console.warn(
+        `[StorageMigration] Nie przetworzono ${screenshotPath}: ${err}`,
+      );
+    }
+  }
+
+  return stats;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const from =
+    args.find((a) => a.startsWith('--from='))?.slice('--from='.length) ??
+    path.join(process.cwd(), 'uploads');
+  const options: MigrationOptions = {
+    dryRun: args.includes('--dry-run'),
+    deleteSource: args.includes('--delete-source'),
+  };
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const target = app.get<StorageDriver>(STORAGE_DRIVER);
+    const source = new LocalStorageDriver(from);
+    if (target instanceof LocalStorageDriver && options.deleteSource) {
+      throw new Error(
+        '--delete-source ma sens tylko przy magazynie innym niż lokalny',
+      );
+    }
+
+    console.log(
+      `[StorageMigration] ${from} -> ${target.name}${options.dryRun ? ' (dry run)' : ''}`,
+    );
+    const stats = await migrateEvidence(
+      app.get(PrismaService),
+      app.get(ScreenshotService),
+      source,
+      target,
+      options,
+    );
+    console.log('[StorageMigration] Gotowe:', stats);
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
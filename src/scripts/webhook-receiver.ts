@@ -0,0 +1,57 @@
+// Lokalny odbiornik do testowania webhooków: wypisuje zdarzenia i sprawdza podpis.
+//
+//   npm run webhooks:receiver -- --secret=whsec_... [--port=4000] [--fail=3]
+//
+// Subskrypcja: POST /webhooks { "url": "http://localhost:4000/hook", "events": [...] },
+// potem POST /webhooks/:id/ping. --fail=N odpowiada 500 na pierwsze N żądań,
+// żeby zobaczyć ponowienia z backoffem (GET /webhooks/:id/deliveries).
+import { createServer } from 'http';
+import {
+  SIGNATURE_HEADER,
+  verifyWebhookSignature,
+} from '../webhooks/webhook-signature';
+
+function arg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((a) => a.startsWith(prefix))?.slice(prefix.length);
+}
+
+const secret = arg('secret') ?? process.env.WEBHOOK_SECRET;
+const port = Number(arg('port') ?? 4000);
+let failuresLeft = Number(arg('fail') ?? 0);
+
+if (!secret) {
+  console.error(
+    'Podaj sekret subskrypcji: --secret=whsec_... albo WEBHOOK_SECRET',
+  );
+  process.exit(1);
+}
+
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+    const valid =
+      typeof signature === 'string' &&
+      verifyWebhookSignature(secret, body, signature);
+
+    console.log(
+      `[${new Date().toISOString()}] ${req.headers['x-trustcheck-event']} ` +
+        `(dostawa ${req.headers['x-trustcheck-delivery']}) podpis: ${valid ? 'OK' : 'NIEPOPRAWNY'}`,
+    );
+    console.log(body);
+
+    if (!valid) {
+      res.writeHead(401).end();
+    } else if (failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(500).end();
+    } else {
+      res.writeHead(204).end();
+    }
+  });
+}).listen(port, () => {
+  console.log(`Odbiornik webhooków: http://localhost:${port}/hook`);
+});
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+import { toStorageKey } from './storage.driver';
+
+describe('LocalStorageDriver', () => {
+  let root: string;
+  let driver: LocalStorageDriver;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+    driver = new LocalStorageDriver(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should write, read and delete files under nested keys', async () => {
+    await driver.put('screenshots/a.png', Buffer.from('png'));
+
+    expect(await driver.exists('screenshots/a.png')).toBe(true);
+    expect((await driver.get('screenshots/a.png')).toString()).toBe('png');
+
+    await driver.delete('screenshots/a.png');
+    expect(await driver.exists('screenshots/a.png')).toBe(false);
+  });
+
+  it('should refuse keys escaping the root directory', async () => {
+    await expect(driver.get('../secret.txt')).rejects.toThrow(
+      'Niedozwolony klucz',
+    );
+    await expect(driver.put('/etc/passwd', Buffer.from(''))).rejects.toThrow();
+  });
+});
+
+describe('toStorageKey', () => {
+  it('should convert legacy upload paths to keys', () => {
+    expect(toStorageKey('uploads/screenshots/a.jpeg')).toBe(
+      'screenshots/a.jpeg',
+    );
+    expect(toStorageKey('/uploads/screenshots/a.jpeg')).toBe(
+      'screenshots/a.jpeg',
+    );
+    expect(toStorageKey('screenshots/a.jpeg')).toBe('screenshots/a.jpeg');
+  });
+});
@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageDriver } from './storage.driver';
+
+// Dysk lokalny - wystarcza przy jednej instancji
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(rootDir: string) {
+    this.root = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // Klucz nie może wyjść poza katalog główny (../../etc/passwd)
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Niedozwolony klucz pliku: ${key}`);
+    }
+    return file;
+  }
+}
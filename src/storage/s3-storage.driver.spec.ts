@@ -0,0 +1,56 @@
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { S3StorageDriver } from './s3-storage.driver';
+
+describe('S3StorageDriver', () => {
+  const send = jest.fn();
+  const driver = new S3StorageDriver(
+    { send } as unknown as S3Client,
+    'evidence',
+  );
+
+  beforeEach(() => send.mockReset());
+
+  it('should upload objects into the bucket', async () => {
+    send.mockResolvedValue({});
+    await driver.put('screenshots/a.png', Buffer.from('png'), 'image/png');
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutObjectCommand);
+    expect(command.input).toMatchObject({
+      Bucket: 'evidence',
+      Key: 'screenshots/a.png',
+      ContentType: 'image/png',
+    });
+  });
+
+  it('should read object bodies into a buffer', async () => {
+    send.mockResolvedValue({
+      Body: {
+        transformToByteArray: () => Promise.resolve(Uint8Array.from([1, 2, 3])),
+      },
+    });
+
+    expect(await driver.get('screenshots/a.png')).toEqual(
+      Buffer.from([1, 2, 3]),
+    );
+    expect(send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+  });
+
+  it('should report missing objects without throwing', async () => {
+    send.mockRejectedValueOnce(
+      Object.assign(new Error(), { name: 'NotFound' }),
+    );
+    expect(await driver.exists('screenshots/missing.png')).toBe(false);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(HeadObjectCommand);
+
+    send.mockRejectedValueOnce(new Error('AccessDenied'));
+    await expect(driver.exists('screenshots/a.png')).rejects.toThrow(
+      'AccessDenied',
+    );
+  });
+});
@@ -0,0 +1,17 @@
+// Token DI - wstrzykiwanie: @Inject(STORAGE_DRIVER) private storage: StorageDriver
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+// Magazyn plików dowodowych. Klucze są względne i używają "/" (np. "screenshots/abc.jpg").
+// Pliki są prywatne - udostępnia je wyłącznie EvidenceService przez podpisane linki
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// Stare rekordy trzymają ścieżkę "uploads/screenshots/..." - zamiana na klucz
+export function toStorageKey(pathOrKey: string): string {
+  return pathOrKey.replace(/^\/+/, '').replace(/^uploads\//, '');
+}
@@ -0,0 +1,44 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { S3Client } from '@aws-sdk/client-s3';
+import * as path from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import { STORAGE_DRIVER, StorageDriver } from './storage.driver';
+
+// STORAGE_DRIVER=local (domyślnie) albo s3. Dla MinIO lokalnie np.:
+// S3_ENDPOINT=http://localhost:9000 S3_BUCKET=evidence S3_FORCE_PATH_STYLE=true
+export function createStorageDriver(config: ConfigService): StorageDriver {
+  if (config.get<string>('STORAGE_DRIVER', 'local') === 's3') {
+    const client = new S3Client({
+      endpoint: config.get<string>('S3_ENDPOINT'),
+      region: config.get<string>('S3_REGION', 'us-east-1'),
+      forcePathStyle: config.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+      credentials: {
+        accessKeyId: config.getOrThrow<string>('S3_ACCESS_KEY_ID'),
+        secretAccessKey: config.getOrThrow<string>('S3_SECRET_ACCESS_KEY'),
+      },
+    });
+    return new S3StorageDriver(client, config.getOrThrow<string>('S3_BUCKET'));
+  }
+
+  return new LocalStorageDriver(
+    config.get<string>(
+      'STORAGE_LOCAL_DIR',
+      path.join(process.cwd(), 'uploads'),
+    ),
+  );
+}
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: createStorageDriver,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}
@@ -0,0 +1,125 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { ReportStatus } from '../reports/report-status';
+import { reputationWeight } from '../reports/reputation';
+import { formatBankAccount, normalizeBankAccount } from './bank-account.util';
+import { TrustScoreEngine } from './scoring/trust-score.engine';
+
+@Injectable()
+export class BankAccountVerificationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly trustScoreEngine: TrustScoreEngine,
+  ) {}
+
+  async checkAccount(rawInput: string) {
+    const normalized = normalizeBankAccount(rawInput);
+    if (!normalized) {
+      throw new BadRequestException(
+        'Niepoprawny numer konta bankowego (NRB/IBAN)',
+      );
+    }
+
+    // 1. Konto wraz ze wszystkim, co jest z nim powiązane
+    const account = await this.prisma.bankAccount.findUnique({
+      where: { number: normalized.number },
+      include: {
+        reports: {
+          where: { status: ReportStatus.APPROVED },
+          include: { user: { select: { reputation: true } } },
+          orderBy: { createdAt: 'desc' },
+        },
+        persons: {
+          select: { id: true, name: true, trustScore: true, riskLevel: true },
+        },
+        companies: {
+          select: {
+            nip: true,
+            name: true,
+            statusVat: true,
+            trustScore: true,
+            riskLevel: true,
+          },
+        },
+      },
+    });
+
+    // 2. Raporty osób korzystających z tego konta (nawet jeśli sam raport go nie podaje)
+    //    oraz raporty, w których numer konta padł tylko w komentarzu
+    const personIds = account?.persons.map((p) => p.id) ?? [];
+    const relatedReports = await this.prisma.report.findMany({
+      where: {
+        status: ReportStatus.APPROVED,
+        OR: [
+          { personId: { in: personIds } },
+          {
+            identifiers: {
+              some: { type: 'ACCOUNT', value: normalized.number },
+            },
+          },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+      include: { user: { select: { reputation: true } } },
+    });
+
+    const allReports = [...(account?.reports ?? []), ...relatedReports]
+      .filter(
+        (obj, index, self) => index === self.findIndex((t) => t.id === obj.id),
+      )
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      );
+
+    // 3. Kalkulacja
+    const negativeReports = allReports.filter((r) => r.rating <= 2).length;
+    const companies = account?.companies ?? [];
+    const onWhiteList = companies.length > 0;
+
+    const { trustScore, riskLevel, scoreBreakdown } =
+      this.trustScoreEngine.evaluate({
+        storedScore: account?.trustScore,
+        known: !!account || allReports.length > 0,
+        accountOnWhiteList: onWhiteList, // Konto zgłoszone w MF przez firmę
+        reports: allReports.map((r) => ({
+          ...r,
+          weight: reputationWeight(r.user?.reputation),
+        })),
+        linkedEntities: account?.persons.map((p) => ({
+          label: p.name,
+          trustScore: p.trustScore,
+        })),
+      });
+
+    return {
+      query: normalized.number,
+      formatted: formatBankAccount(normalized.number),
+      countryCode: normalized.countryCode,
+      trustScore,
+      riskLevel,
+      scoreBreakdown,
+      source: account ? 'DB' : 'None',
+      onWhiteList,
+      companies,
+      persons: account?.persons ?? [],
+      community: {
+        alerts: negativeReports,
+        totalReports: allReports.length,
+        latestComments: allReports.map((r) => ({
+          id: r.id,
+          date: r.createdAt,
+          reason: r.reason,
+          comment: r.comment,
+          rating: r.rating,
+          companyNip: r.companyNip,
+          personId: r.personId,
+          phoneNumber: r.phoneNumber,
+          reportedEmail: r.reportedEmail,
+          facebookLink: r.facebookLink,
+          screenshotUrl: r.screenshotUrl,
+        })),
+      },
+    };
+  }
+}
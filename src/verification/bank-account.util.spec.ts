@@ -0,0 +1,54 @@
+import {
+  formatBankAccount,
+  isValidIbanChecksum,
+  normalizeBankAccount,
+} from './bank-account.util';
+
+describe('bank-account.util', () => {
+  describe('normalizeBankAccount', () => {
+    it('should treat 26 digits as a Polish NRB', () => {
+      expect(normalizeBankAccount('61 1090 1014 0000 0712 1981 2874')).toEqual({
+        number: 'PL61109010140000071219812874',
+        countryCode: 'PL',
+        nrb: '61109010140000071219812874',
+      });
+    });
+
+    it('should strip IBAN prefix, dashes and lowercase', () => {
+      expect(
+        normalizeBankAccount('iban: pl61-1090-1014-0000-0712-1981-2874')
+          ?.number,
+      ).toBe('PL61109010140000071219812874');
+    });
+
+    it('should accept foreign IBANs', () => {
+      expect(normalizeBankAccount('DE89 3704 0044 0532 0130 00')).toEqual({
+        number: 'DE89370400440532013000',
+        countryCode: 'DE',
+        nrb: null,
+      });
+      expect(normalizeBankAccount('GB82WEST12345698765432')?.countryCode).toBe(
+        'GB',
+      );
+    });
+
+    it('should reject wrong checksum and wrong length', () => {
+      expect(normalizeBankAccount('61109010140000071219812875')).toBeNull();
+      expect(normalizeBankAccount('PL6110901014000007121981287')).toBeNull();
+      expect(normalizeBankAccount('DE8937040044053201300')).toBeNull();
+      expect(normalizeBankAccount('Jan Kowalski')).toBeNull();
+      expect(normalizeBankAccount('')).toBeNull();
+    });
+  });
+
+  it('isValidIbanChecksum should validate mod 97', () => {
+    expect(isValidIbanChecksum('PL61109010140000071219812874')).toBe(true);
+    expect(isValidIbanChecksum('PL62109010140000071219812874')).toBe(false);
+  });
+
+  it('formatBankAccount should group by four', () => {
+    expect(formatBankAccount('PL61109010140000071219812874')).toBe(
+      'PL61 1090 1014 0000 0712 1981 2874',
+    );
+  });
+});
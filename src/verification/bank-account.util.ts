@@ -0,0 +1,80 @@
+// Długości IBAN dla krajów, z których najczęściej trafiają do nas konta
+const IBAN_LENGTHS: Record<string, number> = {
+  PL: 28,
+  AT: 20,
+  BE: 16,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  EE: 20,
+  ES: 24,
+  FI: 18,
+  FR: 27,
+  GB: 22,
+  IE: 22,
+  IT: 27,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  NL: 18,
+  NO: 15,
+  PT: 25,
+  SE: 24,
+  SK: 24,
+  UA: 29,
+};
+
+export interface NormalizedBankAccount {
+  number: string; // Pełny IBAN bez spacji, np. "PL61109010140000071219812874"
+  countryCode: string;
+  nrb: string | null; // 26 cyfr NRB (tylko konta polskie)
+}
+
+// Kontrola mod 97 (ISO 13616) - dla NRB to ten sam algorytm z prefiksem PL
+export function isValidIbanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, (ch) =>
+    String(ch.charCodeAt(0) - 55),
+  );
+
+  // Liczymy resztę kawałkami, żeby nie wyjść poza zakres Number
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(String(remainder) + digits.slice(i, i + 7)) % 97;
+  }
+  return remainder === 1;
+}
+
+// "61 1090-1014 ..." / "PL61..." / "IBAN: DE89 ..." -> znormalizowany IBAN albo null
+export function normalizeBankAccount(
+  raw: string | null | undefined,
+): NormalizedBankAccount | null {
+  if (!raw) return null;
+
+  let value = raw.toUpperCase().replace(/[\s\-./]/g, '');
+  if (value.startsWith('IBAN:')) value = value.slice(5);
+  else if (value.startsWith('IBAN')) value = value.slice(4);
+
+  // Samo NRB (26 cyfr) traktujemy jako konto polskie
+  if (/^\d{26}$/.test(value)) value = `PL${value}`;
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(value)) return null;
+
+  const countryCode = value.slice(0, 2);
+  const expectedLength = IBAN_LENGTHS[countryCode];
+  if (expectedLength && value.length !== expectedLength) return null;
+  if (!expectedLength && (value.length < 15 || value.length > 34)) return null;
+
+  if (!isValidIbanChecksum(value)) return null;
+
+  return {
+    number: value,
+    countryCode,
+    nrb: countryCode === 'PL' ? value.slice(2) : null,
+  };
+}
+
+// Format do wyświetlania: "PL61 1090 1014 ..."
+export function formatBankAccount(iban: string): string {
+  return iban.replace(/(.{4})(?=.)/g, '$1 ');
+}
@@ -0,0 +1,93 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { CompanyRefreshScheduler } from './company-refresh.scheduler';
+import { CompanyStatusSource } from './company-status';
+
+describe('CompanyRefreshScheduler', () => {
+  const updatedAt = new Date('2026-03-01T00:00:00Z');
+  let prisma: any;
+  let verificationService: { refreshCompany: jest.Mock };
+  let scheduler: CompanyRefreshScheduler;
+
+  beforeEach(() => {
+    prisma = {
+      watchlistEntry: {
+        findMany: jest.fn().mockResolvedValue([{ entityId: '7740001454' }]),
+      },
+      company: {
+        findMany: jest.fn().mockResolvedValue([
+          { nip: '5260250274', updatedAt },
+          { nip: '7740001454', updatedAt },
+          { nip: '1132853869', updatedAt },
+        ]),
+        update: jest.fn(),
+      },
+    };
+    verificationService = { refreshCompany: jest.fn() };
+    scheduler = new CompanyRefreshScheduler(
+      prisma,
+      {} as any,
+      { get: (_key: string, fallback: unknown) => fallback } as any,
+      verificationService as any,
+    );
+  });
+
+  const refreshed = () =>
+    verificationService.refreshCompany.mock.calls.map(([nip]) => nip);
+
+  it('should pick stale companies that were not attempted recently, oldest attempt first', async () => {
+    await scheduler.tick();
+
+    const query = prisma.company.findMany.mock.calls[0][0];
+    const cutoff: Date = query.where.updatedAt.lt;
+    expect(query.where.AND[0]).toEqual({
+      OR: [
+        { lastRefreshAttemptAt: null },
+        { lastRefreshAttemptAt: { lt: cutoff } },
+      ],
+    });
+    expect(query.where.AND[1].OR).toContainEqual({
+      nip: { in: ['7740001454'] },
+    });
+    expect(query.orderBy[0]).toEqual({
+      lastRefreshAttemptAt: { sort: 'asc', nulls: 'first' },
+    });
+    expect(refreshed()).toEqual(['5260250274', '7740001454', '1132853869']);
+    expect(verificationService.refreshCompany).toHaveBeenCalledWith(
+      '5260250274',
+      CompanyStatusSource.SCHEDULED,
+    );
+  });
+
+  it('should record the attempt without moving updatedAt', async () => {
+    await scheduler.tick();
+
+    expect(prisma.company.update).toHaveBeenCalledWith({
+      where: { nip: '5260250274' },
+      data: { lastRefreshAttemptAt: expect.any(Date), updatedAt },
+    });
+  });
+
+  it('should skip a company the register rejects and continue with the batch', async () => {
+    verificationService.refreshCompany.mockRejectedValueOnce(
+      new HttpException('NIP odrzucony', HttpStatus.BAD_REQUEST),
+    );
+
+    await scheduler.tick();
+
+    expect(refreshed()).toHaveLength(3);
+    expect(prisma.company.update).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([HttpStatus.TOO_MANY_REQUESTS, HttpStatus.BAD_GATEWAY])(
+    'should stop the batch when the register answers %i',
+    async (status) => {
+      verificationService.refreshCompany.mockRejectedValueOnce(
+        new HttpException('MF', status),
+      );
+
+      await scheduler.tick();
+
+      expect(refreshed()).toEqual(['5260250274']);
+    },
+  );
+});
@@ -0,0 +1,132 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service';
+import { WatchEntityType } from '../watchlist/watchlist';
+import { VerificationService } from './verification.service';
+import { CompanyStatusSource } from './company-status';
+
+const INTERVAL_NAME = 'company-refresh';
+const HOUR = 60 * 60 * 1000;
+
+// Odświeża w tle firmy, które kogoś interesują (mają zgłoszenia albo obserwujących),
+// zanim ktoś je wyszuka - zmiany statusu VAT wykrywamy na bieżąco, a nie przy okazji.
+// Tempo ogranicza limiter w VatService i rozmiar partii (COMPANY_REFRESH_BATCH).
+// Przy kilku instancjach włączać tylko w jednej: COMPANY_REFRESH_ENABLED=false w pozostałych.
+@Injectable()
+export class CompanyRefreshScheduler
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(CompanyRefreshScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly scheduler: SchedulerRegistry,
+    private readonly config: ConfigService,
+    private readonly verificationService: VerificationService,
+  ) {}
+
+  onModuleInit() {
+    if (this.config.get<string>('COMPANY_REFRESH_ENABLED', 'true') !== 'true') {
+      return;
+    }
+    const every = Number(
+      this.config.get('COMPANY_REFRESH_INTERVAL_MS', 10 * 60 * 1000),
+    );
+    this.scheduler.addInterval(
+      INTERVAL_NAME,
+      setInterval(() => void this.tick(), every),
+    );
+  }
+
+  onApplicationShutdown() {
+    if (this.scheduler.doesExist('interval', INTERVAL_NAME)) {
+      this.scheduler.deleteInterval(INTERVAL_NAME);
+    }
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const { nip, updatedAt } of await this.findStale()) {
+        // Próba przesuwa firmę na koniec kolejki także wtedy, gdy się nie uda -
+        // jeden wadliwy NIP nie zablokuje pozostałych. updatedAt zostaje datą
+        // ostatniego udanego odświeżenia.
+        await this.prisma.company.update({
+          where: { nip },
+          data: { lastRefreshAttemptAt: new Date(), updatedAt },
+        });
+        try {
+          await this.verificationService.refreshCompany(
+            nip,
+            CompanyStatusSource.SCHEDULED,
+          );
+        } catch (err) {
+          this.logger.warn(`Nie udało się odświeżyć firmy ${nip}: ${err}`);
+          // API MF nie odpowiada albo odrzuca zapytania - resztę partii weźmiemy w następnym przebiegu
+          if (isUpstreamUnavailable(err)) break;
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Błąd odświeżania firm: ${err}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Najdawniej odświeżane (i najdawniej próbowane) firmy ze zgłoszeniami albo na czyjejś liście obserwowanych
+  private async findStale() {
+    const maxAgeHours = Number(
+      this.config.get('COMPANY_REFRESH_MAX_AGE_HOURS', 24),
+    );
+    const watched = await this.prisma.watchlistEntry.findMany({
+      where: { entityType: WatchEntityType.COMPANY },
+      distinct: ['entityId'],
+      select: { entityId: true },
+    });
+
+    const cutoff = new Date(Date.now() - maxAgeHours * HOUR);
+    return this.prisma.company.findMany({
+      where: {
+        updatedAt: { lt: cutoff },
+        AND: [
+          {
+            OR: [
+              { lastRefreshAttemptAt: null },
+              { lastRefreshAttemptAt: { lt: cutoff } },
+            ],
+          },
+          {
+            OR: [
+              { reports: { some: {} } },
+              { nip: { in: watched.map((w) => w.entityId) } },
+            ],
+          },
+        ],
+      },
+      orderBy: [
+        { lastRefreshAttemptAt: { sort: 'asc', nulls: 'first' } },
+        { updatedAt: 'asc' },
+      ],
+      take: Number(this.config.get('COMPANY_REFRESH_BATCH', 20)),
+      select: { nip: true, updatedAt: true },
+    });
+  }
+}
+
+// Limit zapytań albo awaria po stronie MF (VatService zamienia na nie też błędy sieci) -
+// dalsze zapytania w tym przebiegu nic nie dadzą. Pozostałe błędy dotyczą jednej firmy.
+function isUpstreamUnavailable(err: unknown): boolean {
+  if (!(err instanceof HttpException)) return false;
+  const status = err.getStatus();
+  return status === Number(HttpStatus.TOO_MANY_REQUESTS) || status >= 500;
+}
@@ -0,0 +1,17 @@
+// Status zapisywany, gdy podmiotu nie ma (już) na białej liście MF
+export const VAT_STATUS_REMOVED = 'Brak w rejestrze';
+
+// Skąd pochodzi wykryta zmiana statusu (CompanyStatusEvent.source)
+export const CompanyStatusSource = {
+  SCHEDULED: 'SCHEDULED', // odświeżanie w tle (CompanyRefreshScheduler)
+  ON_DEMAND: 'ON_DEMAND', // wyszukiwanie firmy z nieaktualnymi danymi
+} as const;
+
+export type CompanyStatusSource =
+  (typeof CompanyStatusSource)[keyof typeof CompanyStatusSource];
+
+// Tyle ostatnich zmian statusu bierze pod uwagę scoring
+export const RECENT_STATUS_EVENTS = {
+  orderBy: { detectedAt: 'desc' },
+  take: 5,
+} as const;
@@ -0,0 +1,31 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import {
+  ListQueryDto,
+  ToBoolean,
+} from '../../common/pagination/list-query.dto';
+
+export class CompanyListQueryDto extends ListQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  riskLevel?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  statusVat?: string; // Np. "Czynny", "Zwolniony", "Niezarejestrowany"
+}
+
+export class PersonListQueryDto extends ListQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  riskLevel?: string;
+}
+
+export class PhoneListQueryDto extends ListQueryDto {
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  hasCompany?: boolean; // Przypisany do firmy w panelu
+}
@@ -0,0 +1,35 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { GRAPH_NODE_TYPES } from '../graph.service';
+
+export class GraphQueryDto {
+  @IsString()
+  @IsIn(GRAPH_NODE_TYPES)
+  type: string;
+
+  @IsString()
+  @MaxLength(200)
+  value: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(4)
+  depth?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  @Max(300)
+  limit?: number; // Maksymalna liczba węzłów
+}
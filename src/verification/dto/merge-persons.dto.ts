@@ -0,0 +1,9 @@
+import { IsInt } from 'class-validator';
+
+export class MergePersonsDto {
+  @IsInt()
+  sourceId: number; // Ta osoba zostanie scalona...
+
+  @IsInt()
+  targetId: number; // ...z tą
+}
@@ -0,0 +1,34 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class SearchQueryDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  q: string;
+
+  @IsOptional()
+  @IsString()
+  types?: string; // Np. "PERSON,EMAIL" - domyślnie wszystkie
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
@@ -0,0 +1,18 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class SplitPersonDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  reportIds: number[]; // Zgłoszenia do wydzielenia w nową osobę
+
+  @IsOptional()
+  @IsString()
+  name?: string;
+}
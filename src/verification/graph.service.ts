@@ -0,0 +1,353 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { ReportStatus } from '../reports/report-status';
+import { formatBankAccount, normalizeBankAccount } from './bank-account.util';
+
+export const GRAPH_NODE_TYPES = [
+  'COMPANY',
+  'PERSON',
+  'PHONE',
+  'ACCOUNT',
+  'EMAIL',
+  'FACEBOOK',
+];
+
+type GraphNodeType =
+  | 'COMPANY'
+  | 'PERSON'
+  | 'PHONE'
+  | 'ACCOUNT'
+  | 'EMAIL'
+  | 'FACEBOOK';
+
+export interface GraphNode {
+  id: string; // "TYP:wartość"
+  type: GraphNodeType;
+  value: string;
+  label: string;
+  depth: number; // Liczba kroków od węzła startowego
+  trustScore?: number;
+  riskLevel?: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: string; // SHARED_PHONE, SHARED_ACCOUNT, SHARED_EMAIL, SHARED_FACEBOOK, SAME_REPORT
+  reportIds: number[]; // Puste = powiązanie z profilu / białej listy
+}
+
+const ENTITY_TYPES: GraphNodeType[] = ['COMPANY', 'PERSON'];
+const REPORTS_PER_HOP = 500;
+const DEFAULT_DEPTH = 2;
+const DEFAULT_LIMIT = 100;
+
+const nodeId = (type: GraphNodeType, value: string | number) =>
+  `${type}:${value}`;
+
+// Zbiera węzły i krawędzie, pilnuje limitu rozmiaru i powtórzeń (cykle)
+class GraphBuilder {
+  readonly nodes = new Map<string, GraphNode>();
+  readonly edges = new Map<string, GraphEdge>();
+  truncated = false;
+
+  constructor(private readonly limit: number) {}
+
+  addNode(type: GraphNodeType, value: string | number, depth: number) {
+    const id = nodeId(type, value);
+    if (this.nodes.has(id)) return id;
+    if (this.nodes.size >= this.limit) {
+      this.truncated = true;
+      return null;
+    }
+    this.nodes.set(id, {
+      id,
+      type,
+      value: String(value),
+      label: String(value),
+      depth,
+    });
+    return id;
+  }
+
+  addEdge(a: string | null, b: string | null, reportId?: number) {
+    if (!a || !b || a === b) return;
+    const [source, target] = a < b ? [a, b] : [b, a];
+    const kind = this.edgeKind(source, target);
+    const key = `${source}|${target}|${kind}`;
+
+    const edge = this.edges.get(key) ?? { source, target, kind, reportIds: [] };
+    if (reportId !== undefined && !edge.reportIds.includes(reportId)) {
+      edge.reportIds.push(reportId);
+    }
+    this.edges.set(key, edge);
+  }
+
+  private edgeKind(a: string, b: string) {
+    const typeA = this.nodes.get(a)!.type;
+    const typeB = this.nodes.get(b)!.type;
+    const entityA = ENTITY_TYPES.includes(typeA);
+    const entityB = ENTITY_TYPES.includes(typeB);
+    if (entityA === entityB) return 'SAME_REPORT';
+    return `SHARED_${entityA ? typeB : typeA}`;
+  }
+}
+
+@Injectable()
+export class GraphService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async buildGraph(
+    type: string,
+    rawValue: string,
+    depth: number = DEFAULT_DEPTH,
+    limit: number = DEFAULT_LIMIT,
+  ) {
+    const rootType = type as GraphNodeType;
+    const value = this.normalizeValue(rootType, rawValue);
+    const graph = new GraphBuilder(limit);
+    const rootId = graph.addNode(rootType, value, 0)!;
+
+    // BFS po warstwach - każda warstwa to kilka zapytań z IN (...), a nie N+1
+    let frontier = [rootId];
+    for (let hop = 1; hop <= depth && frontier.length; hop++) {
+      const before = new Set(graph.nodes.keys());
+      await this.expand(graph, frontier, hop);
+      frontier = [...graph.nodes.keys()].filter((id) => !before.has(id));
+      if (graph.truncated) break;
+    }
+
+    await this.decorate(graph);
+
+    return {
+      root: rootId,
+      depth,
+      nodes: [...graph.nodes.values()],
+      edges: [...graph.edges.values()],
+      truncated: graph.truncated,
+    };
+  }
+
+  private normalizeValue(type: GraphNodeType, raw: string): string {
+    const value = raw.trim();
+    if (type === 'ACCOUNT') {
+      const account = normalizeBankAccount(value);
+      if (!account) {
+        throw new BadRequestException(
+          'Niepoprawny numer konta bankowego (NRB/IBAN)',
+        );
+      }
+      return account.number;
+    }
+    if (type === 'PERSON' && !/^\d+$/.test(value)) {
+      throw new BadRequestException('Osobę wskazujemy po identyfikatorze');
+    }
+    if (type === 'COMPANY' && !/^\d{10}$/.test(value)) {
+      throw new BadRequestException('NIP musi mieć 10 cyfr');
+    }
+    if (type === 'EMAIL') return value.toLowerCase();
+    return value;
+  }
+
+  private async expand(graph: GraphBuilder, frontier: string[], hop: number) {
+    const values = (type: GraphNodeType) =>
+      frontier
+        .map((id) => graph.nodes.get(id)!)
+        .filter((n) => n.type === type)
+        .map((n) => n.value);
+
+    const nips = values('COMPANY');
+    const personIds = values('PERSON').map(Number);
+    const phones = values('PHONE');
+    const accounts = values('ACCOUNT');
+    const emails = values('EMAIL');
+    const facebookLinks = values('FACEBOOK');
+
+    // 1. Zgłoszenia dotykające którejkolwiek wartości z warstwy
+    const reportConditions: any[] = [];
+    if (nips.length) reportConditions.push({ companyNip: { in: nips } });
+    if (personIds.length)
+      reportConditions.push({ personId: { in: personIds } });
+    if (phones.length) reportConditions.push({ phoneNumber: { in: phones } });
+    if (accounts.length) {
+      reportConditions.push({ bankAccountNumber: { in: accounts } });
+    }
+    if (emails.length) {
+      reportConditions.push({
+        reportedEmail: { in: emails, mode: 'insensitive' },
+      });
+    }
+    if (facebookLinks.length) {
+      reportConditions.push({ facebookLink: { in: facebookLinks } });
+    }
+
+    const reports = await this.prisma.report.findMany({
+      where: { status: ReportStatus.APPROVED, OR: reportConditions },
+      select: {
+        id: true,
+        companyNip: true,
+        personId: true,
+        phoneNumber: true,
+        bankAccountNumber: true,
+        reportedEmail: true,
+        facebookLink: true,
+      },
+      take: REPORTS_PER_HOP,
+    });
+    if (reports.length === REPORTS_PER_HOP) graph.truncated = true;
+
+    for (const r of reports) {
+      const entities = [
+        r.companyNip && graph.addNode('COMPANY', r.companyNip, hop),
+        r.personId && graph.addNode('PERSON', r.personId, hop),
+      ].filter((id): id is string => !!id);
+      const identifiers = [
+        r.phoneNumber && graph.addNode('PHONE', r.phoneNumber, hop),
+        r.bankAccountNumber &&
+          graph.addNode('ACCOUNT', r.bankAccountNumber, hop),
+        r.reportedEmail &&
+          graph.addNode('EMAIL', r.reportedEmail.toLowerCase(), hop),
+        r.facebookLink && graph.addNode('FACEBOOK', r.facebookLink, hop),
+      ].filter((id): id is string => !!id);
+
+      // Identyfikatory łączymy z podmiotem zgłoszenia, podmioty ze sobą
+      const anchors = entities.length ? entities : identifiers.slice(0, 1);
+      for (const anchor of anchors) {
+        for (const other of [...entities, ...identifiers]) {
+          graph.addEdge(anchor, other, r.id);
+        }
+      }
+    }
+
+    // 2. Profile osób (telefon, email, konta wpisane w Person)
+    const personConditions: any[] = [];
+    if (personIds.length) personConditions.push({ id: { in: personIds } });
+    if (phones.length) personConditions.push({ phone: { in: phones } });
+    if (emails.length) {
+      personConditions.push({ email: { in: emails, mode: 'insensitive' } });
+    }
+    if (accounts.length) {
+      personConditions.push({
+        bankAccounts: { some: { number: { in: accounts } } },
+      });
+    }
+    if (personConditions.length) {
+      // Scalone osoby żyją dalej tylko jako ślad - ich dane ma osoba docelowa
+      const persons = await this.prisma.person.findMany({
+        where: { mergedIntoId: null, OR: personConditions },
+        select: {
+          id: true,
+          phone: true,
+          email: true,
+          bankAccounts: { select: { number: true } },
+        },
+        take: REPORTS_PER_HOP,
+      });
+      for (const p of persons) {
+        const person = graph.addNode('PERSON', p.id, hop);
+        if (p.phone)
+          graph.addEdge(person, graph.addNode('PHONE', p.phone, hop));
+        if (p.email) {
+          graph.addEdge(
+            person,
+            graph.addNode('EMAIL', p.email.toLowerCase(), hop),
+          );
+        }
+        for (const a of p.bankAccounts) {
+          graph.addEdge(person, graph.addNode('ACCOUNT', a.number, hop));
+        }
+      }
+    }
+
+    // 3. Firmy: telefony przypisane w panelu i konta z białej listy MF
+    if (nips.length || phones.length) {
+      const companyPhones = await this.prisma.phoneNumber.findMany({
+        where: {
+          companyNip: { not: null },
+          OR: [{ companyNip: { in: nips } }, { number: { in: phones } }],
+        },
+        select: { number: true, companyNip: true },
+        take: REPORTS_PER_HOP,
+      });
+      for (const p of companyPhones) {
+        graph.addEdge(
+          graph.addNode('COMPANY', p.companyNip!, hop),
+          graph.addNode('PHONE', p.number, hop),
+        );
+      }
+    }
+    if (nips.length || accounts.length) {
+      const companies = await this.prisma.company.findMany({
+        where: {
+          OR: [
+            { nip: { in: nips } },
+            { bankAccounts: { some: { number: { in: accounts } } } },
+          ],
+        },
+        select: { nip: true, bankAccounts: { select: { number: true } } },
+        take: REPORTS_PER_HOP,
+      });
+      for (const c of companies) {
+        const company = graph.addNode('COMPANY', c.nip, hop);
+        for (const a of c.bankAccounts) {
+          graph.addEdge(company, graph.addNode('ACCOUNT', a.number, hop));
+        }
+      }
+    }
+  }
+
+  // Nazwy i wyniki dla węzłów - jedno zapytanie na typ
+  private async decorate(graph: GraphBuilder) {
+    const all = [...graph.nodes.values()];
+    const ofType = (type: GraphNodeType) =>
+      all.filter((n) => n.type === type).map((n) => n.value);
+
+    const [companies, persons, phones, accounts] = await Promise.all([
+      this.prisma.company.findMany({
+        where: { nip: { in: ofType('COMPANY') } },
+        select: { nip: true, name: true, trustScore: true, riskLevel: true },
+      }),
+      this.prisma.person.findMany({
+        where: {
+          id: { in: ofType('PERSON').map(Number) },
+          mergedIntoId: null,
+        },
+        select: { id: true, name: true, trustScore: true, riskLevel: true },
+      }),
+      this.prisma.phoneNumber.findMany({
+        where: { number: { in: ofType('PHONE') } },
+        select: { number: true, trustScore: true },
+      }),
+      this.prisma.bankAccount.findMany({
+        where: { number: { in: ofType('ACCOUNT') } },
+        select: { number: true, trustScore: true, riskLevel: true },
+      }),
+    ]);
+
+    for (const c of companies) {
+      Object.assign(graph.nodes.get(nodeId('COMPANY', c.nip))!, {
+        label: c.name,
+        trustScore: c.trustScore,
+        riskLevel: c.riskLevel,
+      });
+    }
+    for (const p of persons) {
+      Object.assign(graph.nodes.get(nodeId('PERSON', p.id))!, {
+        label: p.name,
+        trustScore: p.trustScore,
+        riskLevel: p.riskLevel,
+      });
+    }
+    for (const p of phones) {
+      graph.nodes.get(nodeId('PHONE', p.number))!.trustScore = p.trustScore;
+    }
+    for (const n of all.filter((n) => n.type === 'ACCOUNT')) {
+      n.label = formatBankAccount(n.value);
+      const account = accounts.find((a) => a.number === n.value);
+      if (account) {
+        n.trustScore = account.trustScore;
+        n.riskLevel = account.riskLevel;
+      }
+    }
+  }
+}
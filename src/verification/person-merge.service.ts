@@ -0,0 +1,408 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { duplicateScore, normalizePersonName } from './person-similarity.util';
+import { AuditService } from '../audit/audit.service';
+import {
+  AuditAction,
+  AuditActor,
+  AuditEntity,
+  diffSnapshots,
+} from '../audit/audit-log';
+
+const DUPLICATE_THRESHOLD = 0.5;
+
+type PersonWithAccounts = Prisma.PersonGetPayload<{
+  include: { bankAccounts: { select: { number: true } } };
+}>;
+
+// Pola osoby zapisywane w historii (PersonMergeLog.snapshot), żeby dało się cofnąć scalenie
+interface PersonSnapshot {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  bankAccount: string | null;
+  bankAccounts: string[];
+}
+
+interface MergeSnapshot {
+  source: PersonSnapshot;
+  target: PersonSnapshot;
+}
+
+// Pojedyncze pola, które scalenie uzupełnia ze źródła, gdy u celu są puste
+const FILLED_FIELDS = ['email', 'phone', 'bankAccount'] as const;
+type FilledField = (typeof FILLED_FIELDS)[number];
+
+const snapshotOf = (person: PersonWithAccounts): PersonSnapshot => ({
+  id: person.id,
+  name: person.name,
+  email: person.email,
+  phone: person.phone,
+  bankAccount: person.bankAccount,
+  bankAccounts: person.bankAccounts.map((a) => a.number),
+});
+
+@Injectable()
+export class PersonMergeService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // === KANDYDACI NA DUPLIKATY ===
+
+  async findDuplicates(personId: number) {
+    const person = await this.loadPerson(personId);
+    const accounts = person.bankAccounts.map((a) => a.number);
+
+    // Wstępny filtr w bazie: wspólny identyfikator albo wspólny człon imienia
+    const tokens = normalizePersonName(person.name)
+      .split(' ')
+      .filter((t) => t.length >= 3);
+    const conditions: any[] = tokens.map((token) => ({
+      normalizedName: { contains: token },
+    }));
+    if (person.phone) conditions.push({ phone: person.phone });
+    if (person.email) {
+      conditions.push({ email: { equals: person.email, mode: 'insensitive' } });
+    }
+    if (accounts.length) {
+      conditions.push({ bankAccounts: { some: { number: { in: accounts } } } });
+    }
+    if (!conditions.length) return [];
+
+    const pool = await this.prisma.person.findMany({
+      where: { id: { not: personId }, mergedIntoId: null, OR: conditions },
+      include: {
+        bankAccounts: { select: { number: true } },
+        _count: { select: { reports: true } },
+      },
+      take: 200,
+    });
+
+    const base = { ...person, bankAccounts: accounts };
+    return pool
+      .map((candidate) => ({
+        person: {
+          id: candidate.id,
+          name: candidate.name,
+          email: candidate.email,
+          phone: candidate.phone,
+          bankAccounts: candidate.bankAccounts.map((a) => a.number),
+          reports: candidate._count.reports,
+        },
+        ...duplicateScore(base, {
+          ...candidate,
+          bankAccounts: candidate.bankAccounts.map((a) => a.number),
+        }),
+      }))
+      .filter((c) => c.score >= DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 20);
+  }
+
+  // === SCALANIE ===
+
+  async merge(sourceId: number, targetId: number, actor: AuditActor) {
+    if (sourceId === targetId) {
+      throw new BadRequestException('Nie można scalić osoby z samą sobą');
+    }
+    const [source, target] = await Promise.all([
+      this.loadPerson(sourceId),
+      this.loadPerson(targetId),
+    ]);
+
+    return this.prisma.$transaction(async (tx) => {
+      const reports = await tx.report.findMany({
+        where: { personId: sourceId },
+        select: { id: true },
+      });
+      const reportIds = reports.map((r) => r.id);
+
+      await tx.report.updateMany({
+        where: { personId: sourceId },
+        data: { personId: targetId },
+      });
+
+      // Docelowa osoba zachowuje swoje dane, brakujące uzupełniamy ze źródłowej
+      const merged = await tx.person.update({
+        where: { id: targetId },
+        data: {
+          email: target.email ?? source.email,
+          phone: target.phone ?? source.phone,
+          bankAccount: target.bankAccount ?? source.bankAccount,
+          bankAccounts: {
+            connect: source.bankAccounts.map((a) => ({ number: a.number })),
+          },
+        },
+        include: { bankAccounts: true },
+      });
+      await tx.person.update({
+        where: { id: sourceId },
+        data: { mergedIntoId: targetId },
+      });
+
+      const log = await tx.personMergeLog.create({
+        data: {
+          action: 'MERGE',
+          sourceId,
+          targetId,
+          reportIds,
+          snapshot: { source: snapshotOf(source), target: snapshotOf(target) },
+          actorId: actor.userId,
+        },
+      });
+      await this.auditService.recordMany(
+        actor,
+        [
+          {
+            action: AuditAction.PERSON_MERGE,
+            entityType: AuditEntity.PERSON,
+            entityId: targetId,
+            changes: {
+              ...diffSnapshots(snapshotOf(target), snapshotOf(merged)),
+              mergedFrom: { from: null, to: sourceId },
+            },
+          },
+          {
+            action: AuditAction.PERSON_MERGE,
+            entityType: AuditEntity.PERSON,
+            entityId: sourceId,
+            changes: {
+              mergedIntoId: { from: null, to: targetId },
+              reportIds: { from: reportIds, to: [] },
+            },
+          },
+        ],
+        tx,
+      );
+
+      return { mergeId: log.id, targetId, movedReports: reportIds.length };
+    });
+  }
+
+  // Cofnięcie błędnego scalenia - zgłoszenia wracają do osoby źródłowej
+  async revertMerge(mergeId: number, actor: AuditActor) {
+    const log = await this.prisma.personMergeLog.findUnique({
+      where: { id: mergeId },
+    });
+    if (!log || log.action !== 'MERGE') {
+      throw new NotFoundException('Scalenie nie istnieje');
+    }
+    if (log.revertedAt) {
+      throw new BadRequestException('Scalenie zostało już cofnięte');
+    }
+
+    const { source, target } = log.snapshot as unknown as MergeSnapshot;
+    const addedAccounts = source.bankAccounts.filter(
+      (n) => !target.bankAccounts.includes(n),
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      const moved = await tx.report.updateMany({
+        where: { id: { in: log.reportIds }, personId: log.targetId },
+        data: { personId: log.sourceId },
+      });
+
+      // Czyścimy tylko pola, które uzupełniło scalenie, i tylko jeśli od tamtej
+      // pory nikt ich nie zmienił - późniejsze poprawki w panelu zostają
+      const current: PersonWithAccounts = await tx.person.findUniqueOrThrow({
+        where: { id: log.targetId },
+        include: { bankAccounts: { select: { number: true } } },
+      });
+      const restored: Partial<Record<FilledField, null>> = {};
+      for (const field of FILLED_FIELDS) {
+        const filledByMerge = target[field] === null && source[field] !== null;
+        if (filledByMerge && current[field] === source[field]) {
+          restored[field] = null;
+        }
+      }
+      const currentAccounts = current.bankAccounts.map((a) => a.number);
+      const removedAccounts = addedAccounts.filter((n) =>
+        currentAccounts.includes(n),
+      );
+
+      await tx.person.update({
+        where: { id: log.targetId },
+        data: {
+          ...restored,
+          bankAccounts: {
+            disconnect: removedAccounts.map((number) => ({ number })),
+          },
+        },
+      });
+      await tx.person.update({
+        where: { id: log.sourceId },
+        data: { mergedIntoId: null },
+      });
+
+      await tx.personMergeLog.update({
+        where: { id: mergeId },
+        data: { revertedAt: new Date() },
+      });
+      await tx.personMergeLog.create({
+        data: {
+          action: 'REVERT',
+          sourceId: log.targetId,
+          targetId: log.sourceId,
+          reportIds: log.reportIds,
+          actorId: actor.userId,
+        },
+      });
+      await this.auditService.recordMany(
+        actor,
+        [
+          {
+            action: AuditAction.PERSON_MERGE_REVERT,
+            entityType: AuditEntity.PERSON,
+            entityId: log.targetId,
+            changes: {
+              // Scalenie uzupełniło puste pola danymi ze źródła - teraz wracają
+              ...diffSnapshots(
+                {
+                  email: current.email,
+                  phone: current.phone,
+                  bankAccount: current.bankAccount,
+                  bankAccounts: currentAccounts,
+                },
+                {
+                  email: current.email,
+                  phone: current.phone,
+                  bankAccount: current.bankAccount,
+                  ...restored,
+                  bankAccounts: currentAccounts.filter(
+                    (n) => !removedAccounts.includes(n),
+                  ),
+                },
+              ),
+              mergedFrom: { from: log.sourceId, to: null },
+            },
+          },
+          {
+            action: AuditAction.PERSON_MERGE_REVERT,
+            entityType: AuditEntity.PERSON,
+            entityId: log.sourceId,
+            changes: {
+              mergedIntoId: { from: log.targetId, to: null },
+              reportIds: { from: [], to: log.reportIds },
+            },
+          },
+        ],
+        tx,
+      );
+
+      return { restoredPersonId: log.sourceId, movedReports: moved.count };
+    });
+  }
+
+  // === ROZDZIELANIE ===
+
+  // Wydziela wskazane zgłoszenia do nowej osoby (np. dwie różne "Justyny")
+  async split(
+    personId: number,
+    reportIds: number[],
+    actor: AuditActor,
+    name?: string,
+  ) {
+    const person = await this.loadPerson(personId);
+
+    const reports = await this.prisma.report.findMany({
+      where: { id: { in: reportIds }, personId },
+    });
+    if (reports.length !== reportIds.length) {
+      throw new BadRequestException('Część zgłoszeń nie należy do tej osoby');
+    }
+
+    const newName = name?.trim() || reports[0]?.scammerName || person.name;
+    const phone = reports.find((r) => r.phoneNumber)?.phoneNumber ?? null;
+    const email = reports.find((r) => r.reportedEmail)?.reportedEmail ?? null;
+    const accounts = [
+      ...new Set(
+        reports.map((r) => r.bankAccountNumber).filter((n) => n !== null),
+      ),
+    ];
+
+    return this.prisma.$transaction(async (tx) => {
+      const created = await tx.person.create({
+        data: {
+          name: newName,
+          normalizedName: normalizePersonName(newName),
+          phone,
+          email,
+          bankAccount: accounts[0] ?? null,
+          bankAccounts: { connect: accounts.map((number) => ({ number })) },
+        },
+      });
+
+      await tx.report.updateMany({
+        where: { id: { in: reportIds } },
+        data: { personId: created.id },
+      });
+
+      const log = await tx.personMergeLog.create({
+        data: {
+          action: 'SPLIT',
+          sourceId: personId,
+          targetId: created.id,
+          reportIds,
+          snapshot: { source: snapshotOf(person) },
+          actorId: actor.userId,
+        },
+      });
+      await this.auditService.recordMany(
+        actor,
+        [
+          {
+            action: AuditAction.PERSON_SPLIT,
+            entityType: AuditEntity.PERSON,
+            entityId: personId,
+            changes: {
+              reportIds: { from: reportIds, to: [] },
+              splitInto: { from: null, to: created.id },
+            },
+          },
+          {
+            action: AuditAction.PERSON_SPLIT,
+            entityType: AuditEntity.PERSON,
+            entityId: created.id,
+            after: created,
+          },
+        ],
+        tx,
+      );
+
+      return {
+        splitId: log.id,
+        personId: created.id,
+        movedReports: reportIds.length,
+      };
+    });
+  }
+
+  getHistory(personId: number) {
+    return this.prisma.personMergeLog.findMany({
+      where: { OR: [{ sourceId: personId }, { targetId: personId }] },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async loadPerson(id: number) {
+    const person = await this.prisma.person.findUnique({
+      where: { id },
+      include: { bankAccounts: { select: { number: true } } },
+    });
+    if (!person) throw new NotFoundException('Osoba nie istnieje');
+    if (person.mergedIntoId) {
+      throw new BadRequestException(
+        `Osoba została scalona z #${person.mergedIntoId}`,
+      );
+    }
+    return person;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  duplicateScore,
+  identifiersConflict,
+  nameSimilarity,
+  normalizePersonName,
+} from './person-similarity.util';
+
+describe('person-similarity.util', () => {
+  it('normalizePersonName should strip case, diacritics and punctuation', () => {
+    expect(normalizePersonName('  Łukasz   Żółć-Kowalski ')).toBe(
+      'lukasz zolc kowalski',
+    );
+  });
+
+  it('nameSimilarity should match case, order and initials variants', () => {
+    expect(nameSimilarity('Jan Kowalski', 'jan kowalski')).toBe(1);
+    expect(nameSimilarity('Kowalski Jan', 'Jan Kowalski')).toBe(0.95);
+    expect(nameSimilarity('J. Kowalski', 'Jan Kowalski')).toBe(0.9);
+    expect(nameSimilarity('Jan Kowalski', 'Anna Nowak')).toBeLessThan(0.5);
+  });
+
+  it('duplicateScore should combine name and shared identifiers', () => {
+    const result = duplicateScore(
+      { name: 'Justyna', bankAccounts: ['PL61109010140000071219812874'] },
+      { name: 'HK MANGEME', bankAccounts: ['PL61109010140000071219812874'] },
+    );
+    expect(result.reasons).toEqual(['SHARED_ACCOUNT']);
+    expect(result.score).toBeGreaterThanOrEqual(0.4);
+
+    const same = duplicateScore(
+      { name: 'Jan Kowalski', phone: '500600700' },
+      { name: 'J. Kowalski', phone: '500600700' },
+    );
+    expect(same.reasons).toEqual(['SIMILAR_NAME', 'SHARED_PHONE']);
+    expect(same.score).toBe(0.94);
+  });
+
+  it('identifiersConflict should detect different people with one name', () => {
+    expect(
+      identifiersConflict({ phone: '500600700' }, { phone: '600700800' }),
+    ).toBe(true);
+    expect(
+      identifiersConflict({ phone: '500600700' }, { email: 'a@b.pl' }),
+    ).toBe(false);
+  });
+});
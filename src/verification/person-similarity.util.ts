@@ -0,0 +1,130 @@
+const POLISH_CHARS: Record<string, string> = { ł: 'l', Ł: 'l' };
+
+// "  Jan-Kowalski " / "JAN KOWALSKI" / "Ján Kowalski" -> "jan kowalski"
+export function normalizePersonName(name: string): string {
+  return name
+    .replace(/[łŁ]/g, (ch) => POLISH_CHARS[ch])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const padded = ` ${value} `;
+  const result: string[] = [];
+  for (let i = 0; i < padded.length - 1; i++)
+    result.push(padded.slice(i, i + 2));
+  return result;
+}
+
+// Współczynnik Dice'a na bigramach (0-1), podobnie jak pg_trgm
+function diceCoefficient(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  const counts = new Map<string, number>();
+  for (const g of left) counts.set(g, (counts.get(g) ?? 0) + 1);
+
+  let overlap = 0;
+  for (const g of right) {
+    const count = counts.get(g) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(g, count - 1);
+    }
+  }
+  return (2 * overlap) / (left.length + right.length);
+}
+
+// "J. Kowalski" ~ "Jan Kowalski": te same tokeny albo inicjał zgodny z imieniem
+function initialsMatch(a: string[], b: string[]): boolean {
+  if (a.length !== b.length || a.length < 2) return false;
+  return a.every((token, i) => {
+    const other = b[i];
+    if (token === other) return true;
+    if (token.length === 1) return other.startsWith(token);
+    if (other.length === 1) return token.startsWith(other);
+    return false;
+  });
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizePersonName(a);
+  const right = normalizePersonName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftTokens = left.split(' ');
+  const rightTokens = right.split(' ');
+  const sortedLeft = [...leftTokens].sort().join(' ');
+  const sortedRight = [...rightTokens].sort().join(' ');
+  if (sortedLeft === sortedRight) return 0.95; // "Kowalski Jan"
+
+  if (initialsMatch(leftTokens, rightTokens)) return 0.9;
+
+  return Math.max(
+    diceCoefficient(left, right),
+    diceCoefficient(sortedLeft, sortedRight),
+  );
+}
+
+export interface PersonIdentifiers {
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  bankAccounts?: string[];
+}
+
+export interface DuplicateScore {
+  score: number; // 0-1
+  nameSimilarity: number;
+  reasons: string[];
+}
+
+// Podobieństwo imienia + wspólne identyfikatory (telefon, email, konto)
+export function duplicateScore(
+  a: PersonIdentifiers,
+  b: PersonIdentifiers,
+): DuplicateScore {
+  const similarity = nameSimilarity(a.name, b.name);
+  const reasons: string[] = [];
+  if (similarity >= 0.8) reasons.push('SIMILAR_NAME');
+
+  if (a.phone && b.phone && a.phone === b.phone) reasons.push('SHARED_PHONE');
+  if (a.email && b.email && a.email.toLowerCase() === b.email.toLowerCase()) {
+    reasons.push('SHARED_EMAIL');
+  }
+  const accounts = new Set(a.bankAccounts ?? []);
+  if ((b.bankAccounts ?? []).some((n) => accounts.has(n))) {
+    reasons.push('SHARED_ACCOUNT');
+  }
+
+  const sharedIdentifiers = reasons.filter((r) => r !== 'SIMILAR_NAME').length;
+  const score = Math.min(1, similarity * 0.6 + sharedIdentifiers * 0.4);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    nameSimilarity: Math.round(similarity * 100) / 100,
+    reasons,
+  };
+}
+
+// Czy identyfikatory się wykluczają (dwie różne osoby o tym samym imieniu)?
+export function identifiersConflict(
+  a: Omit<PersonIdentifiers, 'name'>,
+  b: Omit<PersonIdentifiers, 'name'>,
+): boolean {
+  if (a.phone && b.phone && a.phone !== b.phone) return true;
+  if (a.email && b.email && a.email.toLowerCase() !== b.email.toLowerCase()) {
+    return true;
+  }
+  const left = a.bankAccounts ?? [];
+  const right = b.bankAccounts ?? [];
+  if (left.length && right.length && !left.some((n) => right.includes(n))) {
+    return true;
+  }
+  return false;
+}
@@ -1,12 +1,18 @@
 import { Injectable } from '@nestjs/common';
 import { PhoneNumberUtil, PhoneNumberFormat, PhoneNumber } from 'google-libphonenumber';
 import { PrismaService } from '../prisma.service';
+import { ReportStatus } from '../reports/report-status';
+import { reputationWeight } from '../reports/reputation';
+import { TrustScoreEngine } from './scoring/trust-score.engine';
 
 @Injectable()
 export class PhoneVerificationService {
   private phoneUtil = PhoneNumberUtil.getInstance();
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly trustScoreEngine: TrustScoreEngine,
+  ) {}
 
   async checkPhone(rawInput: string, countryCode: string = 'PL') {
     let formattedQuery = rawInput;
@@ -35,13 +41,18 @@ export class PhoneVerificationService {
     let company: any = null;
     let phoneReports: any[] = [];
     let personReports: any[] = [];
+    let mentionReports: any[] = [];
 
     if (isPhone) {
       // A. Pobierz raporty przypisane bezpośrednio do numeru telefonu (FK phoneNumber)
       dbPhoneEntry = await this.prisma.phoneNumber.findUnique({
         where: { number: formattedQuery },
         include: { 
-          reports: { orderBy: { createdAt: 'desc' } }, 
+          reports: {
+            where: { status: ReportStatus.APPROVED },
+            include: { user: { select: { reputation: true } } },
+            orderBy: { createdAt: 'desc' },
+          },
           company: true 
         },
       });
@@ -54,50 +65,69 @@ export class PhoneVerificationService {
       // To naprawia problem znikających raportów przy podaniu innego numeru kontaktowego (OSINT)
       dbPersonEntry = await this.prisma.person.findFirst({
          where: { name: formattedQuery },
-         include: { reports: { orderBy: { createdAt: 'desc' } } }
+         include: {
+           reports: {
+             where: { status: ReportStatus.APPROVED },
+             include: { user: { select: { reputation: true } } },
+             orderBy: { createdAt: 'desc' },
+           },
+         }
       });
       if (dbPersonEntry) {
           personReports = dbPersonEntry.reports;
       }
+
+      // C. Raporty, w których numer padł tylko w treści komentarza
+      mentionReports = await this.prisma.report.findMany({
+        where: {
+          status: ReportStatus.APPROVED,
+          identifiers: { some: { type: 'PHONE', value: formattedQuery } },
+        },
+        include: { user: { select: { reputation: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
     } else {
       // Logika dla zwykłej osoby (nie-telefonu)
       dbPersonEntry = await this.prisma.person.findFirst({
         where: { name: formattedQuery },
         include: { 
-          reports: { orderBy: { createdAt: 'desc' } }
+          reports: {
+            where: { status: ReportStatus.APPROVED },
+            include: { user: { select: { reputation: true } } },
+            orderBy: { createdAt: 'desc' },
+          }
         },
       });
       if (dbPersonEntry) personReports = dbPersonEntry.reports;
     }
 
     // Łączenie i sortowanie raportów (usuwanie duplikatów po ID)
-    const allReports = [...phoneReports, ...personReports].filter(
+    const allReports = [
+        ...phoneReports,
+        ...personReports,
+        ...mentionReports,
+    ].filter(
         (obj, index, self) => index === self.findIndex((t) => t.id === obj.id)
     ).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
     // 3. Kalkulacja statystyk
-    // Bierzemy TrustScore z tabeli PhoneNumber (priorytet) lub Person
-    let trustScore = dbPhoneEntry?.trustScore ?? dbPersonEntry?.trustScore ?? 50;
-    let riskLevel = dbPhoneEntry?.riskLevel ?? dbPersonEntry?.riskLevel ?? 'Nieznany';
-    
-    // Jeśli brak wpisu w bazie, ale są raporty - oblicz dynamicznie
+    // Bazą jest TrustScore z tabeli PhoneNumber (priorytet) lub Person
     const negativeReports = allReports.filter((r) => r.rating <= 2).length;
-    const existsInDb = !!dbPhoneEntry || !!dbPersonEntry;
+    const existsInDb =
+      !!dbPhoneEntry || !!dbPersonEntry || mentionReports.length > 0;
 
-    if (!existsInDb) {
-      if (negativeReports > 0) {
-        trustScore -= negativeReports * 20;
-        riskLevel = 'Wysoki';
-      } else {
-        riskLevel = 'Brak danych';
-      }
-    } else {
-        if (negativeReports > 0 && trustScore === 50) {
-             trustScore -= negativeReports * 15;
-             riskLevel = 'Podwyższone';
-        }
-    }
-    if (trustScore < 0) trustScore = 0;
+    const { trustScore, riskLevel, scoreBreakdown } =
+      this.trustScoreEngine.evaluate({
+        storedScore: dbPhoneEntry?.trustScore ?? dbPersonEntry?.trustScore,
+        known: existsInDb,
+        reports: allReports.map((r) => ({
+          ...r,
+          weight: reputationWeight(r.user?.reputation),
+        })),
+        linkedEntities: company
+          ? [{ label: company.name, trustScore: company.trustScore }]
+          : [],
+      });
 
     // 4. Return
     return {
@@ -105,6 +135,7 @@ export class PhoneVerificationService {
       isPhone: isPhone, 
       trustScore,
       riskLevel,
+      scoreBreakdown,
       source: existsInDb ? 'DB' : 'None',
       company: company ? {
         name: company.name,
@@ -116,6 +147,7 @@ export class PhoneVerificationService {
         totalReports: allReports.length,
         // MAPOWANIE Z PEŁNYM OSINTEM
         latestComments: allReports.map((r) => ({
+          id: r.id, // Dowody: GET /reports/:id/evidence
            date: r.createdAt,
           reason: r.reason,
           comment: r.comment,
@@ -127,7 +159,6 @@ export class PhoneVerificationService {
           reportedEmail: r.reportedEmail,
           facebookLink: r.facebookLink,
           screenshotUrl: r.screenshotUrl,
-          screenshotPath: r.screenshotPath,
         })),
       },
     };
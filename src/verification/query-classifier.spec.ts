@@ -0,0 +1,98 @@
+import { classifyQuery, isValidNip } from './query-classifier';
+
+describe('query-classifier', () => {
+  describe('isValidNip', () => {
+    it('should validate the NIP checksum', () => {
+      expect(isValidNip('5260250274')).toBe(true);
+      expect(isValidNip('5260250275')).toBe(false);
+      expect(isValidNip('526025027')).toBe(false);
+    });
+  });
+
+  describe('classifyQuery', () => {
+    it('should detect a NIP with separators and PL prefix', () => {
+      expect(classifyQuery('PL 526-025-02-74')).toEqual({
+        type: 'NIP',
+        normalized: '5260250274',
+        route: '/verification/company/5260250274',
+      });
+    });
+
+    it('should not treat 10 digits with a bad checksum as NIP', () => {
+      expect(classifyQuery('1234567890').type).not.toBe('NIP');
+    });
+
+    it('should normalize Polish and foreign phone numbers to E.164', () => {
+      expect(classifyQuery('500 600 700')).toMatchObject({
+        type: 'PHONE',
+        normalized: '+48500600700',
+      });
+      expect(classifyQuery('+44 7911 123456')).toMatchObject({
+        type: 'PHONE',
+        normalized: '+447911123456',
+        route: '/verification/phone/%2B447911123456',
+      });
+      expect(classifyQuery('0048 500-600-700').normalized).toBe('+48500600700');
+    });
+
+    it('should detect NRB and IBAN accounts', () => {
+      expect(classifyQuery('61 1090 1014 0000 0712 1981 2874')).toEqual({
+        type: 'ACCOUNT',
+        normalized: 'PL61109010140000071219812874',
+        route: '/verification/account/PL61109010140000071219812874',
+      });
+      expect(classifyQuery('DE89 3704 0044 0532 0130 00').normalized).toBe(
+        'DE89370400440532013000',
+      );
+    });
+
+    it('should detect and lowercase emails', () => {
+      expect(classifyQuery(' Jan.Kowalski@WP.pl ')).toMatchObject({
+        type: 'EMAIL',
+        normalized: 'jan.kowalski@wp.pl',
+        route: '/verification/search?q=jan.kowalski%40wp.pl&types=EMAIL',
+      });
+    });
+
+    it('should recognize social profiles and strip tracking params', () => {
+      expect(
+        classifyQuery('https://m.facebook.com/Jan.Oszust/?mibextid=abc'),
+      ).toMatchObject({
+        type: 'SOCIAL_PROFILE',
+        platform: 'FACEBOOK',
+        normalized: 'https://facebook.com/jan.oszust',
+        route:
+          '/verification/search?q=https%3A%2F%2Ffacebook.com%2Fjan.oszust&types=FACEBOOK',
+      });
+      expect(
+        classifyQuery('facebook.com/profile.php?id=100012345&ref=share')
+          .normalized,
+      ).toBe('https://facebook.com/profile.php?id=100012345');
+      expect(classifyQuery('instagram.com/oszust_shop')).toMatchObject({
+        type: 'SOCIAL_PROFILE',
+        platform: 'INSTAGRAM',
+      });
+    });
+
+    it('should detect other URLs', () => {
+      expect(classifyQuery('https://Tanie-Telefony.pl/oferta')).toMatchObject({
+        type: 'URL',
+        normalized: 'https://tanie-telefony.pl/oferta',
+        route: '/verification/search?q=tanie-telefony.pl',
+      });
+    });
+
+    it('should treat plain text as a name, not a domain', () => {
+      expect(classifyQuery('anna.nowak').type).toBe('NAME');
+      expect(classifyQuery('Jan Kowalski')).toMatchObject({
+        type: 'NAME',
+        route: '/verification/search?q=Jan%20Kowalski',
+      });
+    });
+
+    it('should return UNKNOWN for garbage', () => {
+      expect(classifyQuery('12ab')).toMatchObject({ type: 'UNKNOWN' });
+      expect(classifyQuery('   ').type).toBe('UNKNOWN');
+    });
+  });
+});
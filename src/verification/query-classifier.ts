@@ -0,0 +1,181 @@
+import { PhoneNumberFormat, PhoneNumberUtil } from 'google-libphonenumber';
+import { normalizeBankAccount } from './bank-account.util';
+
+export type QueryType =
+  | 'NIP'
+  | 'PHONE'
+  | 'ACCOUNT'
+  | 'EMAIL'
+  | 'SOCIAL_PROFILE'
+  | 'URL'
+  | 'NAME'
+  | 'UNKNOWN';
+
+export interface ClassifiedQuery {
+  type: QueryType;
+  normalized: string;
+  route: string | null; // Endpoint, który frontend powinien wywołać
+  platform?: string; // Tylko dla SOCIAL_PROFILE
+}
+
+const phoneUtil = PhoneNumberUtil.getInstance();
+
+const NIP_WEIGHTS = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+
+// Host (bez "www." / "m.") -> nazwa platformy
+const SOCIAL_HOSTS: Record<string, string> = {
+  'facebook.com': 'FACEBOOK',
+  'fb.com': 'FACEBOOK',
+  'fb.me': 'FACEBOOK',
+  'instagram.com': 'INSTAGRAM',
+  'tiktok.com': 'TIKTOK',
+  'twitter.com': 'X',
+  'x.com': 'X',
+  'linkedin.com': 'LINKEDIN',
+  't.me': 'TELEGRAM',
+  'olx.pl': 'OLX',
+};
+
+// Parametry, które identyfikują profil (reszta query stringa to śmieci z udostępniania)
+const PROFILE_QUERY_PARAMS = ['id'];
+
+export function isValidNip(value: string): boolean {
+  if (!/^\d{10}$/.test(value)) return false;
+  const sum = NIP_WEIGHTS.reduce((acc, w, i) => acc + w * Number(value[i]), 0);
+  const control = sum % 11;
+  return control !== 10 && control === Number(value[9]);
+}
+
+export function classifyQuery(
+  raw: string,
+  defaultRegion = 'PL',
+): ClassifiedQuery {
+  const query = raw.trim();
+  if (!query) return { type: 'UNKNOWN', normalized: '', route: null };
+
+  if (EMAIL_REGEX.test(query)) {
+    const normalized = query.toLowerCase();
+    return {
+      type: 'EMAIL',
+      normalized,
+      // Graf powiązań jest tylko dla panelu - publicznie pokazujemy wyniki wyszukiwania
+      route: `/verification/search?q=${encodeURIComponent(normalized)}&types=EMAIL`,
+    };
+  }
+
+  const url = parseUrl(query);
+  if (url) {
+    const platform = SOCIAL_HOSTS[url.hostname];
+    const normalized = normalizeUrl(url, !!platform);
+    if (platform) {
+      return {
+        type: 'SOCIAL_PROFILE',
+        platform,
+        normalized,
+        route: `/verification/search?q=${encodeURIComponent(normalized)}${platform === 'FACEBOOK' ? '&types=FACEBOOK' : ''}`,
+      };
+    }
+    return {
+      type: 'URL',
+      normalized,
+      route: `/verification/search?q=${encodeURIComponent(url.hostname)}`,
+    };
+  }
+
+  const compact = query.replace(/[\s\-.()/]/g, '');
+
+  // NIP bywa wpisywany z prefiksem "PL" (format VAT UE)
+  const nip = compact.replace(/^PL/i, '');
+  if (isValidNip(nip)) {
+    return {
+      type: 'NIP',
+      normalized: nip,
+      route: `/verification/company/${nip}`,
+    };
+  }
+
+  const account = normalizeBankAccount(query);
+  if (account) {
+    return {
+      type: 'ACCOUNT',
+      normalized: account.number,
+      route: `/verification/account/${account.number}`,
+    };
+  }
+
+  const phone = normalizePhone(query, defaultRegion);
+  if (phone) {
+    return {
+      type: 'PHONE',
+      normalized: phone,
+      route: `/verification/phone/${encodeURIComponent(phone)}`,
+    };
+  }
+
+  // Litery bez cyfr - najpewniej imię i nazwisko lub nazwa firmy
+  if (/\p{L}/u.test(query) && !/\d/.test(query)) {
+    return {
+      type: 'NAME',
+      normalized: query.replace(/\s+/g, ' '),
+      route: `/verification/search?q=${encodeURIComponent(query)}`,
+    };
+  }
+
+  return { type: 'UNKNOWN', normalized: compact, route: null };
+}
+
+// Numer telefonu w E.164 - w tej postaci zapisujemy go w bazie i po niej szukamy
+export function normalizePhone(query: string, region = 'PL'): string | null {
+  if (/\p{L}/u.test(query)) return null;
+  // "0048..." -> "+48..."
+  const input = query.trim().replace(/^00/, '+');
+  try {
+    const number = phoneUtil.parseAndKeepRawInput(input, region);
+    if (!phoneUtil.isValidNumber(number)) return null;
+    return phoneUtil.format(number, PhoneNumberFormat.E164);
+  } catch {
+    return null;
+  }
+}
+
+function parseUrl(query: string): URL | null {
+  if (/\s/.test(query)) return null;
+  const hasScheme = /^https?:\/\//i.test(query);
+  if (
+    !hasScheme &&
+    !/^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(\/|$)/i.test(query)
+  ) {
+    return null;
+  }
+  try {
+    const url = new URL(hasScheme ? query : `https://${query}`);
+    url.hostname = url.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+    // Bez schematu "anna.nowak" też wygląda jak domena - wymagamy www., ścieżki
+    // albo znanego serwisu społecznościowego
+    if (
+      !hasScheme &&
+      !/^www\./i.test(query) &&
+      !query.includes('/') &&
+      !SOCIAL_HOSTS[url.hostname]
+    ) {
+      return null;
+    }
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeUrl(url: URL, keepOnlyProfileParams: boolean): string {
+  const path = url.pathname.replace(/\/+$/, '');
+  const params = new URLSearchParams();
+  url.searchParams.forEach((value, key) => {
+    if (!keepOnlyProfileParams || PROFILE_QUERY_PARAMS.includes(key)) {
+      params.append(key, value);
+    }
+  });
+  const search = params.toString();
+  return `https://${url.hostname}${keepOnlyProfileParams ? path.toLowerCase() : path}${search ? `?${search}` : ''}`;
+}
@@ -0,0 +1,179 @@
+import { parseTrustScoreWeights, TrustScoreEngine } from './trust-score.engine';
+
+describe('TrustScoreEngine', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+  let engine: TrustScoreEngine;
+
+  beforeEach(() => {
+    engine = new TrustScoreEngine();
+  });
+
+  const signals = (result: { scoreBreakdown: { signal: string }[] }) =>
+    result.scoreBreakdown.map((i) => i.signal);
+
+  it('should score an active VAT payer with white-list accounts', () => {
+    const result = engine.evaluate(
+      { vat: { found: true, status: 'Czynny', accountCount: 2 } },
+      now,
+    );
+
+    expect(result.trustScore).toBe(90);
+    expect(result.riskLevel).toBe('Bardzo Niski');
+    expect(signals(result)).toEqual([
+      'BASE',
+      'VAT_REGISTERED',
+      'VAT_ACTIVE',
+      'WHITE_LIST_ACCOUNTS',
+    ]);
+  });
+
+  it('should penalise a recent loss of the active VAT status', () => {
+    const change = {
+      fromStatus: 'Czynny',
+      toStatus: 'Zwolniony',
+      detectedAt: new Date('2026-05-01T00:00:00Z'),
+    };
+    const result = engine.evaluate(
+      {
+        vat: { found: true, status: 'Zwolniony', accountCount: 1 },
+        vatStatusChanges: [change],
+      },
+      now,
+    );
+
+    expect(result.trustScore).toBe(30); // 30 + 20 - 20
+    const lost = result.scoreBreakdown.find(
+      (i) => i.signal === 'VAT_STATUS_LOST',
+    );
+    expect(lost?.detail).toBe('Czynny → Zwolniony (2026-05-01)');
+
+    const yearLater = new Date('2027-05-01T00:00:00Z');
+    expect(
+      signals(
+        engine.evaluate(
+          {
+            vat: { found: true, status: 'Zwolniony' },
+            vatStatusChanges: [change],
+          },
+          yearLater,
+        ),
+      ),
+    ).not.toContain('VAT_STATUS_LOST');
+  });
+
+  it('should subtract fresh negative reports at full weight', () => {
+    const result = engine.evaluate(
+      {
+        vat: { found: true, status: 'Czynny', accountCount: 1 },
+        reports: [
+          { rating: 1, createdAt: now },
+          { rating: 2, createdAt: now },
+        ],
+      },
+      now,
+    );
+
+    expect(result.trustScore).toBe(60);
+    expect(result.riskLevel).toBe('Średni');
+    expect(signals(result)).not.toContain('REPORT_AGE_DECAY');
+  });
+
+  it('should halve the impact of a report after the half-life', () => {
+    const yearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
+    const result = engine.evaluate(
+      { reports: [{ rating: 1, createdAt: yearAgo }] },
+      now,
+    );
+
+    const decay = result.scoreBreakdown.find(
+      (i) => i.signal === 'REPORT_AGE_DECAY',
+    );
+    expect(decay?.points).toBeCloseTo(7.5);
+    expect(result.trustScore).toBe(43); // 50 - 15 + 7.5
+  });
+
+  it('should weight reports by author reputation', () => {
+    const result = engine.evaluate(
+      {
+        reports: [
+          { rating: 1, createdAt: now, weight: 0.2 },
+          { rating: 1, createdAt: now, weight: 0.2 },
+        ],
+      },
+      now,
+    );
+
+    const negative = result.scoreBreakdown.find(
+      (i) => i.signal === 'NEGATIVE_REPORTS',
+    );
+    expect(negative?.points).toBe(-6);
+    expect(negative?.detail).toBe('2 zgłoszeń (ważone reputacją: 0.4)');
+    expect(result.trustScore).toBe(44);
+  });
+
+  it('should cap positive reports', () => {
+    const reports = Array.from({ length: 10 }, () => ({
+      rating: 5,
+      createdAt: now,
+    }));
+    const result = engine.evaluate({ reports }, now);
+    expect(result.trustScore).toBe(70);
+  });
+
+  it('should penalise white-list mismatches and risky linked entities', () => {
+    const result = engine.evaluate(
+      {
+        storedScore: 50,
+        unregisteredAccounts: 1,
+        linkedEntities: [
+          { label: 'Justyna', trustScore: 5 },
+          { label: 'Firma X', trustScore: 90 },
+        ],
+      },
+      now,
+    );
+
+    expect(result.trustScore).toBe(25);
+    expect(
+      result.scoreBreakdown.find((i) => i.signal === 'LINKED_ENTITY_RISK')
+        ?.detail,
+    ).toBe('Justyna');
+  });
+
+  it('should clamp the score and explain the limit', () => {
+    const reports = Array.from({ length: 6 }, () => ({
+      rating: 1,
+      createdAt: now,
+    }));
+    const result = engine.evaluate({ reports }, now);
+
+    expect(result.trustScore).toBe(0);
+    expect(result.riskLevel).toBe('Krytyczny');
+    const total = result.scoreBreakdown.reduce((s, i) => s + i.points, 0);
+    expect(total).toBe(0);
+  });
+
+  it('should report missing data for unknown entities without reports', () => {
+    expect(engine.evaluate({ known: false }, now).riskLevel).toBe(
+      'Brak danych',
+    );
+  });
+
+  it('should use configured weights', () => {
+    const custom = new TrustScoreEngine(
+      parseTrustScoreWeights('{"negativeReport": 25, "unknownKey": 1}'),
+    );
+    const result = custom.evaluate(
+      { reports: [{ rating: 1, createdAt: now }] },
+      now,
+    );
+    expect(result.trustScore).toBe(25);
+  });
+
+  it('should refuse invalid TRUST_SCORE_WEIGHTS instead of silently using defaults', () => {
+    expect(() => parseTrustScoreWeights('{negativeReport: 25}')).toThrow(
+      'Niepoprawny JSON w TRUST_SCORE_WEIGHTS',
+    );
+    expect(() => parseTrustScoreWeights('[25]')).toThrow('obiektem JSON');
+  });
+});
@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import { DEFAULT_SIGNALS, TrustScoreSignal } from './trust-score.signals';
+import {
+  RiskThreshold,
+  ScoreBreakdownItem,
+  TrustScoreInput,
+  TrustScoreResult,
+  TrustScoreWeights,
+} from './trust-score.types';
+
+export const DEFAULT_WEIGHTS: TrustScoreWeights = {
+  neutralBase: 50,
+  vatRegistered: 30,
+  vatActive: 40,
+  vatStatusLost: 20,
+  vatStatusLostWindowDays: 180,
+  whiteListAccounts: 20,
+  accountOnWhiteList: 20,
+  unregisteredAccount: 15,
+  negativeReport: 15,
+  positiveReport: 5,
+  positiveReportsCap: 20,
+  reportHalfLifeDays: 365,
+  linkedEntityRisk: 10,
+  linkedEntityRiskCap: 30,
+  linkedEntityRiskThreshold: 20,
+};
+
+export const RISK_THRESHOLDS: RiskThreshold[] = [
+  { minScore: 80, label: 'Bardzo Niski' },
+  { minScore: 50, label: 'Średni' },
+  { minScore: 20, label: 'Wysoki' },
+  { minScore: 0, label: 'Krytyczny' },
+];
+
+export const NO_DATA_RISK_LEVEL = 'Brak danych';
+
+// Jedno miejsce liczenia trustScore dla firm, telefonów, osób i kont.
+// Nie zależy od Prismy - dane wejściowe zbierają serwisy weryfikacji.
+@Injectable()
+export class TrustScoreEngine {
+  readonly weights: TrustScoreWeights;
+
+  constructor(
+    weights: Partial<TrustScoreWeights> = {},
+    private readonly signals: TrustScoreSignal[] = DEFAULT_SIGNALS,
+  ) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...weights };
+  }
+
+  evaluate(input: TrustScoreInput, now: Date = new Date()): TrustScoreResult {
+    const ctx = { weights: this.weights, now };
+    const scoreBreakdown: ScoreBreakdownItem[] = [];
+
+    for (const signal of this.signals) {
+      const item = signal.evaluate(input, ctx);
+      if (item) scoreBreakdown.push(item);
+    }
+
+    const raw = scoreBreakdown.reduce((sum, item) => sum + item.points, 0);
+    const clamped = Math.max(0, Math.min(100, raw));
+    if (clamped !== raw) {
+      scoreBreakdown.push({
+        signal: 'LIMIT',
+        label: 'Wynik ograniczony do zakresu 0-100',
+        points: Math.round((clamped - raw) * 10) / 10,
+      });
+    }
+    const trustScore = Math.round(clamped);
+
+    const hasData = input.known !== false || (input.reports?.length ?? 0) > 0;
+
+    return {
+      trustScore,
+      riskLevel: hasData ? this.riskLevel(trustScore) : NO_DATA_RISK_LEVEL,
+      scoreBreakdown,
+    };
+  }
+
+  riskLevel(score: number): string {
+    return (
+      RISK_THRESHOLDS.find((t) => score >= t.minScore)?.label ??
+      RISK_THRESHOLDS[RISK_THRESHOLDS.length - 1].label
+    );
+  }
+}
+
+// TRUST_SCORE_WEIGHTS='{"negativeReport":20}' -> częściowe nadpisanie wag.
+// Literówka w konfiguracji zatrzymuje start - cicho przyjęte domyślne wagi
+// zmieniłyby wyniki wszystkich podmiotów.
+export function parseTrustScoreWeights(
+  raw: string | undefined,
+): Partial<TrustScoreWeights> {
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Niepoprawny JSON w TRUST_SCORE_WEIGHTS');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('TRUST_SCORE_WEIGHTS musi być obiektem JSON');
+  }
+  return Object.fromEntries(
+    Object.entries(parsed).filter(
+      ([key, value]) => key in DEFAULT_WEIGHTS && typeof value === 'number',
+    ),
+  );
+}
@@ -0,0 +1,266 @@
+import {
+  ScoreBreakdownItem,
+  ScoredReport,
+  TrustScoreInput,
+  TrustScoreWeights,
+} from './trust-score.types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const VAT_STATUS_ACTIVE = 'Czynny';
+
+export interface SignalContext {
+  weights: TrustScoreWeights;
+  now: Date;
+}
+
+// Pojedynczy sygnał: zwraca punkty (z opisem) albo null, gdy nie dotyczy
+export interface TrustScoreSignal {
+  name: string;
+  evaluate(
+    input: TrustScoreInput,
+    ctx: SignalContext,
+  ): ScoreBreakdownItem | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const isNegative = (r: ScoredReport) => r.rating <= 2;
+const isPositive = (r: ScoredReport) => r.rating >= 4;
+const weightOf = (r: ScoredReport) => r.weight ?? 1;
+
+// Suma wag zgłoszeń (zgłoszenie od nowego konta liczy się mniej niż od zaufanego)
+function weightedCount(reports: ScoredReport[]): number {
+  return reports.reduce((sum, r) => sum + weightOf(r), 0);
+}
+
+function countDetail(reports: ScoredReport[], noun: string): string {
+  const weighted = round(weightedCount(reports));
+  return weighted === reports.length
+    ? `${reports.length} ${noun}`
+    : `${reports.length} ${noun} (ważone reputacją: ${weighted})`;
+}
+
+// Waga zgłoszenia po uwzględnieniu wieku (zanik wykładniczy)
+export function reportDecay(report: ScoredReport, ctx: SignalContext): number {
+  const ageDays = Math.max(
+    0,
+    (ctx.now.getTime() - new Date(report.createdAt).getTime()) / DAY,
+  );
+  return Math.pow(0.5, ageDays / ctx.weights.reportHalfLifeDays);
+}
+
+function positivePoints(count: number, ctx: SignalContext): number {
+  return Math.min(
+    count * ctx.weights.positiveReport,
+    ctx.weights.positiveReportsCap,
+  );
+}
+
+export const baseSignal: TrustScoreSignal = {
+  name: 'BASE',
+  evaluate: (input, { weights }) => {
+    if (input.vat) {
+      return { signal: 'BASE', label: 'Wynik startowy (firma)', points: 0 };
+    }
+    const stored = input.storedScore ?? weights.neutralBase;
+    return {
+      signal: 'BASE',
+      label:
+        input.storedScore != null
+          ? 'Wynik zapisany w bazie'
+          : 'Wynik neutralny (brak wpisu)',
+      points: stored,
+    };
+  },
+};
+
+export const vatRegisteredSignal: TrustScoreSignal = {
+  name: 'VAT_REGISTERED',
+  evaluate: (input, { weights }) =>
+    input.vat?.found
+      ? {
+          signal: 'VAT_REGISTERED',
+          label: 'Podmiot w rejestrze VAT (biała lista MF)',
+          points: weights.vatRegistered,
+        }
+      : null,
+};
+
+export const vatActiveSignal: TrustScoreSignal = {
+  name: 'VAT_ACTIVE',
+  evaluate: (input, { weights }) =>
+    input.vat?.found && input.vat.status === VAT_STATUS_ACTIVE
+      ? {
+          signal: 'VAT_ACTIVE',
+          label: 'Status VAT: Czynny',
+          points: weights.vatActive,
+        }
+      : null,
+};
+
+// Firma, która niedawno przestała być czynnym podatnikiem, jest bardziej ryzykowna
+// niż taka, która od lat jest zwolniona - sama utrata VAT_ACTIVE tego nie oddaje
+export const vatStatusLostSignal: TrustScoreSignal = {
+  name: 'VAT_STATUS_LOST',
+  evaluate: (input, { weights, now }) => {
+    const since = now.getTime() - weights.vatStatusLostWindowDays * DAY;
+    const lost = (input.vatStatusChanges ?? []).find(
+      (c) =>
+        c.fromStatus === VAT_STATUS_ACTIVE &&
+        c.toStatus !== VAT_STATUS_ACTIVE &&
+        new Date(c.detectedAt).getTime() >= since,
+    );
+    if (!lost || input.vat?.status === VAT_STATUS_ACTIVE) return null;
+    return {
+      signal: 'VAT_STATUS_LOST',
+      label: 'Niedawna utrata statusu VAT "Czynny"',
+      points: -weights.vatStatusLost,
+      detail: `${lost.fromStatus} → ${lost.toStatus} (${new Date(lost.detectedAt).toISOString().slice(0, 10)})`,
+    };
+  },
+};
+
+export const whiteListAccountsSignal: TrustScoreSignal = {
+  name: 'WHITE_LIST_ACCOUNTS',
+  evaluate: (input, { weights }) =>
+    input.vat?.found && (input.vat.accountCount ?? 0) > 0
+      ? {
+          signal: 'WHITE_LIST_ACCOUNTS',
+          label: 'Konta bankowe zgłoszone na białej liście',
+          points: weights.whiteListAccounts,
+          detail: `${input.vat.accountCount} kont`,
+        }
+      : null,
+};
+
+export const storedAdjustmentSignal: TrustScoreSignal = {
+  name: 'STORED_ADJUSTMENT',
+  evaluate: (input) =>
+    input.storedAdjustment
+      ? {
+          signal: 'STORED_ADJUSTMENT',
+          label: 'Korekta wyniku zapisana w bazie',
+          points: input.storedAdjustment,
+        }
+      : null,
+};
+
+export const accountOnWhiteListSignal: TrustScoreSignal = {
+  name: 'ACCOUNT_ON_WHITE_LIST',
+  evaluate: (input, { weights }) =>
+    input.accountOnWhiteList
+      ? {
+          signal: 'ACCOUNT_ON_WHITE_LIST',
+          label: 'Konto zgłoszone w MF przez firmę',
+          points: weights.accountOnWhiteList,
+        }
+      : null,
+};
+
+export const unregisteredAccountsSignal: TrustScoreSignal = {
+  name: 'UNREGISTERED_ACCOUNTS',
+  evaluate: (input, { weights }) =>
+    input.unregisteredAccounts
+      ? {
+          signal: 'UNREGISTERED_ACCOUNTS',
+          label: 'Zgłoszone konta spoza białej listy tego NIP',
+          points: -input.unregisteredAccounts * weights.unregisteredAccount,
+          detail: `${input.unregisteredAccounts} kont`,
+        }
+      : null,
+};
+
+export const negativeReportsSignal: TrustScoreSignal = {
+  name: 'NEGATIVE_REPORTS',
+  evaluate: (input, { weights }) => {
+    const negative = (input.reports ?? []).filter(isNegative);
+    if (!negative.length) return null;
+    return {
+      signal: 'NEGATIVE_REPORTS',
+      label: 'Negatywne zgłoszenia społeczności',
+      points: round(-weightedCount(negative) * weights.negativeReport),
+      detail: countDetail(negative, 'zgłoszeń'),
+    };
+  },
+};
+
+export const positiveReportsSignal: TrustScoreSignal = {
+  name: 'POSITIVE_REPORTS',
+  evaluate: (input, ctx) => {
+    const positive = (input.reports ?? []).filter(isPositive);
+    if (!positive.length) return null;
+    return {
+      signal: 'POSITIVE_REPORTS',
+      label: 'Pozytywne opinie społeczności',
+      points: round(positivePoints(weightedCount(positive), ctx)),
+      detail: countDetail(positive, 'opinii'),
+    };
+  },
+};
+
+// Oddaje część punktów za stare zgłoszenia (po obu stronach)
+export const reportAgeDecaySignal: TrustScoreSignal = {
+  name: 'REPORT_AGE_DECAY',
+  evaluate: (input, ctx) => {
+    const reports = input.reports ?? [];
+    if (!reports.length) return null;
+
+    let negativeDecayed = 0;
+    let positiveDecayed = 0;
+    for (const r of reports) {
+      if (isNegative(r)) negativeDecayed += weightOf(r) * reportDecay(r, ctx);
+      if (isPositive(r)) positiveDecayed += weightOf(r) * reportDecay(r, ctx);
+    }
+    const negativeCount = weightedCount(reports.filter(isNegative));
+    const positiveCount = weightedCount(reports.filter(isPositive));
+
+    const negativeRefund =
+      (negativeCount - negativeDecayed) * ctx.weights.negativeReport;
+    const positiveLoss =
+      positivePoints(positiveCount, ctx) - positivePoints(positiveDecayed, ctx);
+
+    const points = round(negativeRefund - positiveLoss);
+    if (!points) return null;
+    return {
+      signal: 'REPORT_AGE_DECAY',
+      label: 'Starsze zgłoszenia ważą mniej',
+      points,
+      detail: `okres połowicznego zaniku: ${ctx.weights.reportHalfLifeDays} dni`,
+    };
+  },
+};
+
+export const linkedEntityRiskSignal: TrustScoreSignal = {
+  name: 'LINKED_ENTITY_RISK',
+  evaluate: (input, { weights }) => {
+    const risky = (input.linkedEntities ?? []).filter(
+      (e) => e.trustScore < weights.linkedEntityRiskThreshold,
+    );
+    if (!risky.length) return null;
+    return {
+      signal: 'LINKED_ENTITY_RISK',
+      label: 'Powiązania z podmiotami wysokiego ryzyka',
+      points: -Math.min(
+        risky.length * weights.linkedEntityRisk,
+        weights.linkedEntityRiskCap,
+      ),
+      detail: risky.map((e) => e.label).join(', '),
+    };
+  },
+};
+
+export const DEFAULT_SIGNALS: TrustScoreSignal[] = [
+  baseSignal,
+  vatRegisteredSignal,
+  vatActiveSignal,
+  vatStatusLostSignal,
+  whiteListAccountsSignal,
+  storedAdjustmentSignal,
+  accountOnWhiteListSignal,
+  unregisteredAccountsSignal,
+  negativeReportsSignal,
+  positiveReportsSignal,
+  reportAgeDecaySignal,
+  linkedEntityRiskSignal,
+];
@@ -0,0 +1,69 @@
+// Wagi sygnałów - każdą można nadpisać przez TRUST_SCORE_WEIGHTS (JSON)
+export interface TrustScoreWeights {
+  neutralBase: number; // start dla telefonów, osób i kont
+  vatRegistered: number; // podmiot istnieje w rejestrze VAT
+  vatActive: number; // status "Czynny"
+  vatStatusLost: number; // niedawna utrata statusu "Czynny" (wykreślenie, zwolnienie)
+  vatStatusLostWindowDays: number; // przez tyle dni od zmiany liczy się kara
+  whiteListAccounts: number; // firma ma konta na białej liście
+  accountOnWhiteList: number; // sprawdzane konto należy do firmy z białej listy
+  unregisteredAccount: number; // za każde zgłoszone konto spoza białej listy
+  negativeReport: number; // za każde negatywne zgłoszenie (ocena <= 2)
+  positiveReport: number; // za każde pozytywne zgłoszenie (ocena >= 4)
+  positiveReportsCap: number; // maks. punktów z pozytywnych zgłoszeń
+  reportHalfLifeDays: number; // po tylu dniach zgłoszenie waży połowę
+  linkedEntityRisk: number; // za każdy powiązany podmiot wysokiego ryzyka
+  linkedEntityRiskCap: number;
+  linkedEntityRiskThreshold: number; // poniżej tego wyniku podmiot jest "ryzykowny"
+}
+
+export interface RiskThreshold {
+  minScore: number;
+  label: string;
+}
+
+export interface ScoredReport {
+  rating: number;
+  createdAt: Date | string;
+  weight?: number; // Waga wg reputacji autora (domyślnie 1)
+}
+
+// Zmiana statusu VAT wykryta przy odświeżaniu firmy (CompanyStatusEvent)
+export interface VatStatusChange {
+  fromStatus: string;
+  toStatus: string;
+  detectedAt: Date | string;
+}
+
+export interface TrustScoreInput {
+  // Wynik zapisany w bazie (telefon / osoba / konto) - domyślnie neutralBase
+  storedScore?: number | null;
+  // Dane z rejestru VAT (tylko firmy) - gdy podane, start = 0 zamiast neutralBase
+  vat?: {
+    found: boolean;
+    status?: string | null;
+    accountCount?: number;
+  } | null;
+  vatStatusChanges?: VatStatusChange[];
+  // Ręczna korekta zapisana w bazie względem wyniku z rejestru
+  storedAdjustment?: number;
+  accountOnWhiteList?: boolean;
+  unregisteredAccounts?: number;
+  reports?: ScoredReport[];
+  linkedEntities?: { label: string; trustScore: number }[];
+  // false = nic o podmiocie nie wiemy (brak wpisu w bazie)
+  known?: boolean;
+}
+
+export interface ScoreBreakdownItem {
+  signal: string;
+  label: string;
+  points: number;
+  detail?: string;
+}
+
+export interface TrustScoreResult {
+  trustScore: number;
+  riskLevel: string;
+  scoreBreakdown: ScoreBreakdownItem[];
+}
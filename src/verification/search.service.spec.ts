@@ -0,0 +1,92 @@
+import { escapeLike, SearchService } from './search.service';
+
+describe('escapeLike', () => {
+  it('should escape LIKE wildcards and the escape character', () => {
+    expect(escapeLike('100%_pewny\\')).toBe('100\\%\\_pewny\\\\');
+  });
+
+  it('should leave ordinary text untouched', () => {
+    expect(escapeLike('jan kowalski')).toBe('jan kowalski');
+  });
+});
+
+describe('SearchService', () => {
+  let prisma: { $queryRaw: jest.Mock };
+  let service: SearchService;
+
+  beforeEach(() => {
+    prisma = { $queryRaw: jest.fn().mockResolvedValue([]) };
+    service = new SearchService(prisma as any);
+  });
+
+  // Parametry zapytania w kolejności wystąpienia w szablonie SQL
+  const params = () => prisma.$queryRaw.mock.calls[0].slice(1) as unknown[];
+
+  it.each(['!!', '%%', '__', ' - . '])(
+    'should not query the database for the punctuation-only query %j',
+    async (query) => {
+      const result = await service.search(query);
+
+      expect(result).toMatchObject({ total: 0, results: [] });
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should pass wildcards from the query as literal characters', async () => {
+    await service.search('50% rabatu');
+
+    expect(params()).toContain('%50\\% rabatu%');
+    expect(params()).not.toContain('%50% rabatu%');
+  });
+
+  it('should map rows to results with routes', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      {
+        type: 'COMPANY',
+        key: '5260250274',
+        title: 'Firma Testowa',
+        subtitle: 'Czynny',
+        score: 0.876,
+        total: BigInt(1),
+      },
+    ]);
+
+    const result = await service.search('firma testowa');
+
+    expect(result.total).toBe(1);
+    expect(result.results).toEqual([
+      {
+        type: 'COMPANY',
+        key: '5260250274',
+        title: 'Firma Testowa',
+        subtitle: 'Czynny',
+        score: 0.88,
+        route: '/verification/company/5260250274',
+      },
+    ]);
+  });
+
+  it('should link people, emails and profiles to the graph only for the panel', async () => {
+    prisma.$queryRaw.mockResolvedValue([
+      { type: 'PERSON', key: '12', title: 'Jan', subtitle: null, score: 1 },
+      {
+        type: 'FACEBOOK',
+        key: 'https://facebook.com/jan.oszust',
+        title: 'Jan',
+        subtitle: null,
+        score: 1,
+      },
+    ]);
+
+    const routes = async (canViewGraph: boolean) =>
+      (await service.search('jan', undefined, 1, 20, canViewGraph)).results.map(
+        (r) => r.route,
+      );
+
+    expect(await routes(false)).toEqual([null, null]);
+    expect(await routes(true)).toEqual([
+      '/verification/graph?type=PERSON&value=12',
+      '/verification/graph?type=FACEBOOK&value=https%3A%2F%2Ffacebook.com%2Fjan.oszust',
+    ]);
+  });
+});
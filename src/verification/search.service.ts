@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { ReportStatus } from '../reports/report-status';
+import { formatBankAccount } from './bank-account.util';
+import { normalizePersonName } from './person-similarity.util';
+
+export const SEARCH_RESULT_TYPES = [
+  'PERSON',
+  'COMPANY',
+  'ACCOUNT',
+  'EMAIL',
+  'FACEBOOK',
+  'SCAMMER_NAME',
+  'REPORT',
+];
+
+interface SearchRow {
+  type: string;
+  key: string;
+  title: string;
+  subtitle: string | null;
+  score: number;
+  total: bigint;
+}
+
+// Znaki specjalne LIKE z zapytania mają znaczyć siebie, a nie "cokolwiek"
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+@Injectable()
+export class SearchService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // canViewGraph - wynik może prowadzić do grafu powiązań (endpoint tylko dla panelu)
+  async search(
+    query: string,
+    types?: string[],
+    page = 1,
+    limit = 20,
+    canViewGraph = false,
+  ) {
+    const text = query.trim();
+    const lower = text.toLowerCase();
+    const normalized = normalizePersonName(text);
+    const digits = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const selectedTypes = types?.length
+      ? types.filter((t) => SEARCH_RESULT_TYPES.includes(t))
+      : SEARCH_RESULT_TYPES;
+
+    // Same znaki interpunkcyjne - nie ma czego szukać (LIKE '%%' zwróciłby wszystko)
+    if (!normalized && !digits) {
+      return { query: text, page, limit, total: 0, results: [] };
+    }
+
+    const containsLower = `%${escapeLike(lower)}%`;
+    const containsNormalized = `%${escapeLike(normalized)}%`;
+    const containsDigits = `%${escapeLike(digits)}%`;
+    const approved = ReportStatus.APPROVED;
+    const offset = (page - 1) * limit;
+
+    // Jedno zapytanie: UNION po typach, ranking wspólny, total z okna
+    const rows: SearchRow[] = await this.prisma.$queryRaw`
+      SELECT "type", "key", "title", "subtitle", "score"::float AS "score",
+             count(*) OVER () AS "total"
+      FROM (
+        SELECT 'PERSON' AS "type", p."id"::text AS "key", p."name" AS "title",
+               concat_ws(' · ', p."phone", p."email") AS "subtitle",
+               GREATEST(similarity(p."normalizedName", ${normalized}),
+                        CASE WHEN p."normalizedName" LIKE ${containsNormalized}
+                             THEN 0.8 ELSE 0 END) AS "score"
+        FROM "Person" p
+        WHERE 'PERSON' = ANY(${selectedTypes}::text[])
+          AND ${normalized} <> ''
+          AND p."mergedIntoId" IS NULL
+          AND (p."normalizedName" % ${normalized}
+               OR p."normalizedName" LIKE ${containsNormalized})
+
+        UNION ALL
+        SELECT 'COMPANY', c."nip", c."name", c."statusVat",
+               GREATEST(similarity(lower(c."name"), ${lower}),
+                        CASE WHEN c."nip" = ${digits} THEN 1 ELSE 0 END)
+        FROM "Company" c
+        WHERE 'COMPANY' = ANY(${selectedTypes}::text[])
+          AND (lower(c."name") % ${lower}
+               OR lower(c."name") LIKE ${containsLower}
+               OR (${digits} <> '' AND c."nip" = ${digits}))
+
+        UNION ALL
+        SELECT 'ACCOUNT', b."number", b."number", b."riskLevel",
+               CASE WHEN b."number" = ${digits} OR b."number" = 'PL' || ${digits}
+                    THEN 1
+                    ELSE 0.5 + 0.5 * length(${digits})::float / length(b."number")
+               END
+        FROM "BankAccount" b
+        WHERE 'ACCOUNT' = ANY(${selectedTypes}::text[])
+          AND length(${digits}) >= 6
+          AND b."number" LIKE ${containsDigits}
+
+        UNION ALL
+        SELECT 'EMAIL', e."email", e."email", count(*)::text || ' wystąpień',
+               max(similarity(e."email", ${lower}))
+        FROM (
+          SELECT lower(r."reportedEmail") AS "email" FROM "Report" r
+          WHERE r."status" = ${approved} AND r."reportedEmail" IS NOT NULL
+          UNION ALL
+          SELECT lower(p."email") FROM "Person" p
+          WHERE p."email" IS NOT NULL AND p."mergedIntoId" IS NULL
+        ) e
+        WHERE 'EMAIL' = ANY(${selectedTypes}::text[])
+          AND (e."email" % ${lower} OR e."email" LIKE ${containsLower})
+        GROUP BY e."email"
+
+        UNION ALL
+        SELECT 'FACEBOOK', r."facebookLink", r."facebookLink",
+               count(*)::text || ' zgłoszeń',
+               max(similarity(lower(r."facebookLink"), ${lower}))
+        FROM "Report" r
+        WHERE 'FACEBOOK' = ANY(${selectedTypes}::text[])
+          AND r."status" = ${approved}
+          AND lower(r."facebookLink") LIKE ${containsLower}
+        GROUP BY r."facebookLink"
+
+        UNION ALL
+        SELECT 'SCAMMER_NAME', r."scammerName", r."scammerName",
+               count(*)::text || ' zgłoszeń',
+               max(similarity(lower(r."scammerName"), ${lower}))
+        FROM "Report" r
+        WHERE 'SCAMMER_NAME' = ANY(${selectedTypes}::text[])
+          AND r."status" = ${approved}
+          AND r."personId" IS NULL
+          AND (lower(r."scammerName") % ${lower}
+               OR lower(r."scammerName") LIKE ${containsLower})
+        GROUP BY r."scammerName"
+
+        UNION ALL
+        SELECT 'REPORT', r."id"::text,
+               ts_headline('simple', r."comment", plainto_tsquery('simple', ${text}),
+                           'MaxWords=20, MinWords=5'),
+               r."reason",
+               ts_rank_cd(to_tsvector('simple', coalesce(r."comment", '')),
+                          plainto_tsquery('simple', ${text}), 32)
+        FROM "Report" r
+        WHERE 'REPORT' = ANY(${selectedTypes}::text[])
+          AND r."status" = ${approved}
+          AND to_tsvector('simple', coalesce(r."comment", ''))
+              @@ plainto_tsquery('simple', ${text})
+      ) results
+      ORDER BY "score" DESC, "title" ASC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    return {
+      query: text,
+      page,
+      limit,
+      total: rows.length ? Number(rows[0].total) : 0,
+      results: rows.map((row) => ({
+        type: row.type,
+        key: row.key,
+        title:
+          row.type === 'ACCOUNT' ? formatBankAccount(row.title) : row.title,
+        subtitle: row.subtitle,
+        score: Math.round(row.score * 100) / 100,
+        route: this.routeFor(row, canViewGraph),
+      })),
+    };
+  }
+
+  // Gdzie frontend ma przejść po kliknięciu wyniku (bez uprawnień do grafu -
+  // osoby, e-maile i profile nie mają publicznej strony, więc bez linku)
+  private routeFor(row: SearchRow, canViewGraph: boolean): string | null {
+    const value = encodeURIComponent(row.key);
+    switch (row.type) {
+      case 'COMPANY':
+        return `/verification/company/${value}`;
+      case 'ACCOUNT':
+        return `/verification/account/${value}`;
+      case 'PERSON':
+      case 'EMAIL':
+      case 'FACEBOOK':
+        return canViewGraph
+          ? `/verification/graph?type=${row.type}&value=${value}`
+          : null;
+      case 'SCAMMER_NAME':
+        return `/verification/phone/${value}`;
+      default:
+        return null;
+    }
+  }
+}
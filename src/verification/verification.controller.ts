@@ -1,17 +1,53 @@
-import { Controller, Get, Param, Post, Body, Patch, UsePipes, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Param, Post, Body, Patch, UsePipes, UseGuards, ValidationPipe, Request, Query, ParseIntPipe } from '@nestjs/common';
 import { VerificationService } from './verification.service';
 import { PhoneVerificationService } from './phone-verification.service';
+import { BankAccountVerificationService } from './bank-account-verification.service';
+import { GraphService } from './graph.service';
+import { GraphQueryDto } from './dto/graph-query.dto';
+import { PersonMergeService } from './person-merge.service';
+import { MergePersonsDto } from './dto/merge-persons.dto';
+import { SplitPersonDto } from './dto/split-person.dto';
+import {
+  CompanyListQueryDto,
+  PersonListQueryDto,
+  PhoneListQueryDto,
+} from './dto/admin-list-query.dto';
+import { SearchService } from './search.service';
+import { SearchQueryDto } from './dto/search-query.dto';
 import { CheckCompanyDto } from './dto/check-company.dto';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { hasPermission, Permission } from '../auth/roles';
+import { CurrentActor } from '../audit/current-actor.decorator';
+import type { AuditActor } from '../audit/audit-log';
+import { MeteredEndpoint } from '../api-keys/metered-endpoint.decorator';
+import { OptionalJwtAuthGuard } from '../auth/optional-jwt-auth.guard';
 
 @Controller('verification')
 export class VerificationController {
   constructor(
     private readonly verificationService: VerificationService,
-    private readonly phoneVerificationService: PhoneVerificationService
+    private readonly phoneVerificationService: PhoneVerificationService,
+    private readonly bankAccountVerificationService: BankAccountVerificationService,
+    private readonly graphService: GraphService,
+    private readonly personMergeService: PersonMergeService,
+    private readonly searchService: SearchService,
   ) {}
 
   // === CZĘŚĆ PUBLICZNA (Wyszukiwanie) ===
 
+  // Wyszukiwanie pełnotekstowe: /verification/search?q=kowalski&types=PERSON,EMAIL
+  @Get('search')
+  @UseGuards(OptionalJwtAuthGuard)
+  async fullTextSearch(@Query() query: SearchQueryDto, @Request() req: any) {
+    return this.searchService.search(
+      query.q,
+      query.types?.split(',').map((t) => t.trim().toUpperCase()),
+      query.page,
+      query.limit,
+      hasPermission(req.user?.role, Permission.VIEW_ADMIN_PANEL),
+    );
+  }
+
   @Get('search/:query')
   async search(@Param('query') query: string) {
     // Tutaj wywołujemy serwis! Logika jest tam.
@@ -19,51 +55,164 @@ export class VerificationController {
   }
   
   @Get('company/:nip')
+  @MeteredEndpoint('company')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async checkCompany(
+    @Param() params: CheckCompanyDto,
+    @Query('account') account?: string,
+  ) {
+    return this.verificationService.verifyCompany(params.nip, account);
+  }
+
+  // "Czy to konto naprawdę należy do tej firmy?"
+  @Get('company/:nip/account/:number')
+  @MeteredEndpoint('company-account')
   @UsePipes(new ValidationPipe({ transform: true }))
-  async checkCompany(@Param() params: CheckCompanyDto) {
-    return this.verificationService.verifyCompany(params.nip);
+  async checkCompanyAccount(
+    @Param() params: CheckCompanyDto,
+    @Param('number') number: string,
+  ) {
+    const result = await this.verificationService.verifyCompany(
+      params.nip,
+      number,
+    );
+    return { nip: params.nip, ...result.accountCheck };
   }
 
   @Get('phone/:number')
+  @MeteredEndpoint('phone')
   async checkPhone(@Param('number') number: string) {
     return this.phoneVerificationService.checkPhone(number);
   }
 
+  @Get('account/:number')
+  @MeteredEndpoint('account')
+  async checkAccount(@Param('number') number: string) {
+    return this.bankAccountVerificationService.checkAccount(number);
+  }
+
+  // Graf powiązań: /verification/graph?type=PERSON&value=12&depth=2
+  // Łączy osoby, telefony i konta z wielu zgłoszeń - tylko dla panelu
+  @Get('graph')
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  async getGraph(@Query() query: GraphQueryDto) {
+    return this.graphService.buildGraph(
+      query.type,
+      query.value,
+      query.depth,
+      query.limit,
+    );
+  }
+
   // === CZĘŚĆ ADMINISTRACYJNA (Panel) ===
 
+  // /verification/admin/companies?riskLevel=Wysokie&sort=-trustScore&limit=50&cursor=...
   @Get('admin/companies')
-  async getAllCompanies() {
-    return this.verificationService.getAllCompanies();
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  async getAllCompanies(@Query() query: CompanyListQueryDto) {
+    return this.verificationService.getAllCompanies(query);
   }
 
   @Get('admin/company/:nip')
-  async getCompanyForAdmin(@Param('nip') nip: string) {
-    return this.verificationService.getCompanyForAdmin(nip);
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  async getCompanyForAdmin(@Param('nip') nip: string, @Request() req: any) {
+    return this.verificationService.getCompanyForAdmin(
+      nip,
+      hasPermission(req.user.role, Permission.VIEW_RAW_DATA),
+    );
   }
 
   @Patch('admin/company/:nip')
-  async updateCompany(@Param('nip') nip: string, @Body() body: any) {
-    return this.verificationService.updateCompany(nip, body);
+  @RequirePermissions(Permission.EDIT_SCORES)
+  async updateCompany(
+    @Param('nip') nip: string,
+    @Body() body: any,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.verificationService.updateCompany(nip, body, actor);
+  }
+
+  @Get('admin/phones')
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  async getAllPhones(@Query() query: PhoneListQueryDto) {
+    return this.verificationService.getAllPhones(query);
   }
 
   @Post('admin/link-phone')
-  async linkPhone(@Body() body: { nip: string; phone: string }) {
-    return this.verificationService.linkPhoneToCompany(body.nip, body.phone);
+  @RequirePermissions(Permission.LINK_PHONES)
+  async linkPhone(
+    @Body() body: { nip: string; phone: string },
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.verificationService.linkPhoneToCompany(
+      body.nip,
+      body.phone,
+      actor,
+    );
   }
 
   // === ADMIN OSOBY ===
   @Get('admin/persons')
-  async getAllPersons() {
-    return this.verificationService.getAllPersons();
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  async getAllPersons(@Query() query: PersonListQueryDto) {
+    return this.verificationService.getAllPersons(query);
   }
 
   @Get('admin/person/:id')
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
   async getPersonForAdmin(@Param('id') id: string) {
     return this.verificationService.getPersonForAdmin(Number(id));
   }
 
   @Patch('admin/person/:id')
-  async updatePerson(@Param('id') id: string, @Body() body: any) {
-    return this.verificationService.updatePerson(Number(id), body);
+  @RequirePermissions(Permission.EDIT_SCORES)
+  async updatePerson(
+    @Param('id') id: string,
+    @Body() body: any,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.verificationService.updatePerson(Number(id), body, actor);
+  }
+
+  // === DUPLIKATY OSÓB ===
+
+  @Get('admin/person/:id/duplicates')
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  async getPersonDuplicates(@Param('id', ParseIntPipe) id: number) {
+    return this.personMergeService.findDuplicates(id);
+  }
+
+  @Get('admin/person/:id/merges')
+  @RequirePermissions(Permission.VIEW_ADMIN_PANEL)
+  getPersonMergeHistory(@Param('id', ParseIntPipe) id: number) {
+    return this.personMergeService.getHistory(id);
+  }
+
+  @Post('admin/persons/merge')
+  @RequirePermissions(Permission.MERGE_PERSONS)
+  async mergePersons(
+    @Body() body: MergePersonsDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.personMergeService.merge(body.sourceId, body.targetId, actor);
+  }
+
+  @Post('admin/person/:id/split')
+  @RequirePermissions(Permission.MERGE_PERSONS)
+  async splitPerson(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: SplitPersonDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.personMergeService.split(id, body.reportIds, actor, body.name);
+  }
+
+  @Post('admin/person-merges/:id/revert')
+  @RequirePermissions(Permission.MERGE_PERSONS)
+  async revertPersonMerge(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.personMergeService.revertMerge(id, actor);
   }
 }
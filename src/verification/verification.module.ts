@@ -1,16 +1,53 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { VerificationController } from './verification.controller';
 import { VerificationService } from './verification.service';
 import { PhoneVerificationService } from './phone-verification.service'; // <--- Import
+import { BankAccountVerificationService } from './bank-account-verification.service';
+import { GraphService } from './graph.service';
+import { PersonMergeService } from './person-merge.service';
+import { SearchService } from './search.service';
+import { CompanyRefreshScheduler } from './company-refresh.scheduler';
+import {
+  parseTrustScoreWeights,
+  TrustScoreEngine,
+} from './scoring/trust-score.engine';
 import { IntegrationModule } from '../integration/integration.module';
 import { ReportsModule } from '../reports/reports.module';
+import { WatchlistModule } from '../watchlist/watchlist.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
 
 @Module({
-  imports: [IntegrationModule, ReportsModule],
+  imports: [
+    IntegrationModule,
+    ReportsModule,
+    WatchlistModule,
+    WebhooksModule,
+    ApiKeysModule,
+  ],
   controllers: [VerificationController],
   providers: [
     VerificationService, 
-    PhoneVerificationService // <--- DODAJ TĘ LINIJKĘ
+    PhoneVerificationService, // <--- DODAJ TĘ LINIJKĘ
+    BankAccountVerificationService,
+    GraphService,
+    PersonMergeService,
+    SearchService,
+    CompanyRefreshScheduler,
+    {
+      provide: TrustScoreEngine,
+      useFactory: (config: ConfigService) =>
+        new TrustScoreEngine(
+          parseTrustScoreWeights(config.get<string>('TRUST_SCORE_WEIGHTS')),
+        ),
+      inject: [ConfigService],
+    },
   ], 
+  exports: [
+    VerificationService,
+    PhoneVerificationService,
+    BankAccountVerificationService,
+  ],
 })
 export class VerificationModule {}
@@ -0,0 +1,341 @@
+import { VerificationService } from './verification.service';
+import { TrustScoreEngine } from './scoring/trust-score.engine';
+import { CompanyStatusSource, VAT_STATUS_REMOVED } from './company-status';
+
+const ACCOUNT_A = 'PL34102010260000000000000001';
+const ACCOUNT_B = 'PL07102010260000000000000002';
+const ACCOUNT_C = 'PL77102010260000000000000003';
+
+describe('VerificationService.refreshCompany', () => {
+  const nip = '5260250274';
+  const registered = (statusVat: string) => ({
+    found: true,
+    source: 'MF_Biala_Lista',
+    name: 'Firma Testowa sp. z o.o.',
+    nip,
+    statusVat,
+    accountNumbers: [],
+  });
+
+  let prisma: any;
+  let vatService: { checkVatStatus: jest.Mock };
+  let watchlistNotifier: {
+    vatStatusChanged: jest.Mock;
+    trustScoreChanged: jest.Mock;
+  };
+  let service: VerificationService;
+
+  beforeEach(() => {
+    prisma = {
+      company: {
+        findUnique: jest.fn(),
+        upsert: jest.fn(({ update }) => ({
+          nip,
+          ...update,
+          bankAccounts: [],
+          statusEvents: [],
+        })),
+      },
+      companyStatusEvent: {
+        create: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn((fn) => fn(prisma)),
+    };
+    vatService = { checkVatStatus: jest.fn() };
+    watchlistNotifier = {
+      vatStatusChanged: jest.fn(),
+      trustScoreChanged: jest.fn(),
+    };
+    service = new VerificationService(
+      vatService as any,
+      prisma,
+      {} as any,
+      new TrustScoreEngine(),
+      {} as any,
+      watchlistNotifier as any,
+      { riskChanged: jest.fn() } as any,
+    );
+  });
+
+  const knownCompany = (statusVat: string) => ({
+    nip,
+    name: 'Firma Testowa sp. z o.o.',
+    statusVat,
+    trustScore: 90,
+    riskLevel: 'Bardzo Niski',
+    rawData: { found: true },
+    bankAccounts: [],
+    statusEvents: [],
+  });
+
+  it('should record a status event when the VAT status changes', async () => {
+    prisma.company.findUnique.mockResolvedValue(knownCompany('Czynny'));
+    vatService.checkVatStatus.mockResolvedValue(registered('Zwolniony'));
+
+    const saved = await service.refreshCompany(
+      nip,
+      CompanyStatusSource.SCHEDULED,
+    );
+
+    expect(prisma.companyStatusEvent.create).toHaveBeenCalledWith({
+      data: {
+        companyNip: nip,
+        fromStatus: 'Czynny',
+        toStatus: 'Zwolniony',
+        source: CompanyStatusSource.SCHEDULED,
+      },
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(saved?.statusVat).toBe('Zwolniony');
+    expect(watchlistNotifier.vatStatusChanged).toHaveBeenCalledWith(
+      nip,
+      'Czynny',
+      'Zwolniony',
+    );
+  });
+
+  it('should record a removal from the register as VAT_STATUS_REMOVED', async () => {
+    prisma.company.findUnique.mockResolvedValue(knownCompany('Czynny'));
+    vatService.checkVatStatus.mockResolvedValue({
+      found: false,
+      source: 'MF_Biala_Lista',
+      status: 'Nieznany',
+    });
+
+    const saved = await service.refreshCompany(nip);
+
+    expect(prisma.companyStatusEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        fromStatus: 'Czynny',
+        toStatus: VAT_STATUS_REMOVED,
+        source: CompanyStatusSource.ON_DEMAND,
+      }),
+    });
+    expect(saved?.statusVat).toBe(VAT_STATUS_REMOVED);
+    expect(saved?.name).toBe('Firma Testowa sp. z o.o.');
+  });
+
+  it('should not record an event on the first fetch from the register', async () => {
+    prisma.company.findUnique.mockResolvedValue(null);
+    vatService.checkVatStatus.mockResolvedValue(registered('Czynny'));
+
+    await service.refreshCompany(nip);
+
+    expect(prisma.companyStatusEvent.create).not.toHaveBeenCalled();
+    expect(prisma.company.upsert).toHaveBeenCalledTimes(1);
+    expect(watchlistNotifier.vatStatusChanged).not.toHaveBeenCalled();
+  });
+
+  it('should not compare against a company added from a report', async () => {
+    prisma.company.findUnique.mockResolvedValue({
+      ...knownCompany('Nieznany'),
+      rawData: null,
+    });
+    vatService.checkVatStatus.mockResolvedValue(registered('Czynny'));
+
+    await service.refreshCompany(nip);
+
+    expect(prisma.companyStatusEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should unlink accounts withdrawn from the white list', async () => {
+    prisma.company.findUnique.mockResolvedValue({
+      ...knownCompany('Czynny'),
+      bankAccounts: [{ number: ACCOUNT_A }, { number: ACCOUNT_B }],
+    });
+    vatService.checkVatStatus.mockResolvedValue({
+      ...registered('Czynny'),
+      accountNumbers: [ACCOUNT_B.slice(2), ACCOUNT_C.slice(2)],
+    });
+
+    await service.refreshCompany(nip);
+
+    const { update, create } = prisma.company.upsert.mock.calls[0][0];
+    expect(update.bankAccounts.disconnect).toEqual([{ number: ACCOUNT_A }]);
+    expect(
+      update.bankAccounts.connectOrCreate.map(({ where }) => where.number),
+    ).toEqual([ACCOUNT_B, ACCOUNT_C]);
+    expect(create.bankAccounts).not.toHaveProperty('disconnect');
+  });
+
+  it('should keep account links of a company removed from the register', async () => {
+    prisma.company.findUnique.mockResolvedValue({
+      ...knownCompany('Czynny'),
+      bankAccounts: [{ number: ACCOUNT_A }],
+    });
+    vatService.checkVatStatus.mockResolvedValue({ found: false });
+
+    await service.refreshCompany(nip);
+
+    const { update } = prisma.company.upsert.mock.calls[0][0];
+    expect(update.bankAccounts).toEqual({
+      connectOrCreate: [],
+      disconnect: [],
+    });
+  });
+
+  it('should keep a score correction made in the panel', async () => {
+    const engine = new TrustScoreEngine();
+    const registerScore = engine.evaluate({
+      vat: { found: true, status: 'Czynny', accountCount: 0 },
+      vatStatusChanges: [],
+    }).trustScore;
+    prisma.company.findUnique.mockResolvedValue({
+      ...knownCompany('Czynny'),
+      trustScore: registerScore - 30,
+      riskLevel: 'Krytyczny',
+    });
+    vatService.checkVatStatus.mockResolvedValue(registered('Czynny'));
+
+    const saved = await service.refreshCompany(nip);
+
+    expect(saved?.trustScore).toBe(registerScore - 30);
+    expect(saved?.riskLevel).toBe('Krytyczny');
+    expect(watchlistNotifier.trustScoreChanged).toHaveBeenCalledWith(
+      'COMPANY',
+      nip,
+      registerScore - 30,
+      registerScore - 30,
+    );
+  });
+
+  it('should recompute an overridden risk level when the VAT status changes', async () => {
+    prisma.company.findUnique.mockResolvedValue({
+      ...knownCompany('Czynny'),
+      riskLevel: 'Krytyczny',
+    });
+    vatService.checkVatStatus.mockResolvedValue(registered('Zwolniony'));
+
+    const saved = await service.refreshCompany(nip);
+
+    expect(saved?.riskLevel).toBe(
+      new TrustScoreEngine().riskLevel(saved!.trustScore),
+    );
+  });
+
+  it('should return null for a NIP missing from both the register and the database', async () => {
+    prisma.company.findUnique.mockResolvedValue(null);
+    vatService.checkVatStatus.mockResolvedValue({ found: false });
+
+    expect(await service.refreshCompany(nip)).toBeNull();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('VerificationService.verifyCompany account checks', () => {
+  const nip = '5260250274';
+  let prisma: any;
+  let reportsService: { getStatsForTarget: jest.Mock };
+  let service: VerificationService;
+
+  const cachedCompany = (overrides: object = {}) => ({
+    nip,
+    name: 'Firma Testowa sp. z o.o.',
+    statusVat: 'Czynny',
+    trustScore: 90,
+    riskLevel: 'Bardzo Niski',
+    rawData: { found: true },
+    // Świeże dane - bez zapytania do MF
+    updatedAt: new Date(),
+    phones: [],
+    bankAccounts: [{ number: ACCOUNT_A }],
+    statusEvents: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      company: {
+        findUnique: jest.fn().mockResolvedValue(cachedCompany()),
+      },
+    };
+    reportsService = {
+      getStatsForTarget: jest
+        .fn()
+        .mockResolvedValue({ entries: [], negative: 0, total: 0 }),
+    };
+    service = new VerificationService(
+      {} as any,
+      prisma,
+      reportsService as any,
+      new TrustScoreEngine(),
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  const report = (id: number, bankAccountNumber: string | null) => ({
+    id,
+    rating: 1,
+    createdAt: new Date(),
+    bankAccountNumber,
+  });
+
+  it.each([
+    [ACCOUNT_A, 'REGISTERED', true],
+    // Zapis NRB ze spacjami - porównujemy po normalizacji
+    ['34 1020 1026 0000 0000 0000 0001', 'REGISTERED', true],
+    [ACCOUNT_B, 'NOT_REGISTERED', false],
+    ['PL00 1234', 'INVALID', false],
+  ])(
+    'should check account %s against the white list as %s',
+    async (account, status, registered) => {
+      const result = await service.verifyCompany(nip, account);
+
+      expect(result.accountCheck).toMatchObject({ status, registered });
+    },
+  );
+
+  it('should report UNKNOWN when the white list was never fetched', async () => {
+    prisma.company.findUnique.mockResolvedValue(
+      cachedCompany({ rawData: null }),
+    );
+
+    const result = await service.verifyCompany(nip, ACCOUNT_A);
+
+    expect(result.accountCheck).toMatchObject({
+      status: 'UNKNOWN',
+      registered: false,
+    });
+  });
+
+  it('should group reported accounts missing from the white list', async () => {
+    reportsService.getStatsForTarget.mockResolvedValue({
+      entries: [
+        report(1, ACCOUNT_B),
+        report(2, ACCOUNT_A),
+        report(3, ACCOUNT_B),
+        report(4, null),
+      ],
+      negative: 4,
+      total: 4,
+    });
+
+    const result = await service.verifyCompany(nip);
+
+    expect(result).toHaveProperty('accountAlerts', [
+      {
+        account: 'PL07 1020 1026 0000 0000 0000 0002',
+        reportIds: [1, 3],
+        message: 'Konto nie jest zarejestrowane dla tego NIP',
+      },
+    ]);
+  });
+
+  it('should not raise account alerts without white-list data', async () => {
+    prisma.company.findUnique.mockResolvedValue(
+      cachedCompany({ rawData: null }),
+    );
+    reportsService.getStatsForTarget.mockResolvedValue({
+      entries: [report(1, ACCOUNT_B)],
+      negative: 1,
+      total: 1,
+    });
+
+    const result = await service.verifyCompany(nip);
+
+    expect(result).toHaveProperty('accountAlerts', []);
+  });
+});
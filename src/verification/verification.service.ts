@@ -1,9 +1,58 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { VatService } from '../integration/vat.service';
 import { PrismaService } from '../prisma.service';
+import { ReportStatus } from '../reports/report-status';
 import { ReportsService } from '../reports/reports.service';
-import { Company } from '@prisma/client';
+import { Company, Prisma } from '@prisma/client';
 import { PhoneNumber } from 'google-libphonenumber';
+import { formatBankAccount, normalizeBankAccount } from './bank-account.util';
+import { normalizePersonName } from './person-similarity.util';
+import { classifyQuery, isValidNip } from './query-classifier';
+import { TrustScoreEngine } from './scoring/trust-score.engine';
+import { TrustScoreInput } from './scoring/trust-score.types';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActor, AuditEntity } from '../audit/audit-log';
+import {
+  ListConfig,
+  parseListQuery,
+  toPage,
+} from '../common/pagination/cursor-pagination';
+import { commonListFilters } from '../common/pagination/list-filters';
+import {
+  CompanyListQueryDto,
+  PersonListQueryDto,
+  PhoneListQueryDto,
+} from './dto/admin-list-query.dto';
+import { WatchlistNotifier } from '../watchlist/watchlist-notifier.service';
+import { WatchEntityType } from '../watchlist/watchlist';
+import { WebhookService } from '../webhooks/webhook.service';
+import {
+  CompanyStatusSource,
+  RECENT_STATUS_EVENTS,
+  VAT_STATUS_REMOVED,
+} from './company-status';
+
+// Firma z danymi, od których zależy część wyniku z rejestru VAT
+type CompanyWithRegister = Prisma.CompanyGetPayload<{
+  include: { bankAccounts: true; statusEvents: typeof RECENT_STATUS_EVENTS };
+}>;
+
+// Sortowanie list w panelu administracyjnym
+const COMPANY_LIST: ListConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'trustScore', 'name', 'nip'],
+  defaultSort: '-createdAt',
+  idField: 'nip',
+};
+const PERSON_LIST: ListConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'trustScore', 'name', 'id'],
+  defaultSort: '-createdAt',
+  idField: 'id',
+};
+const PHONE_LIST: ListConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'trustScore', 'number'],
+  defaultSort: '-createdAt',
+  idField: 'number',
+};
 
 @Injectable()
 export class VerificationService {
@@ -11,114 +60,139 @@ export class VerificationService {
     private readonly vatService: VatService,
     private readonly prisma: PrismaService,
     private readonly reportsService: ReportsService,
+    private readonly trustScoreEngine: TrustScoreEngine,
+    private readonly auditService: AuditService,
+    private readonly watchlistNotifier: WatchlistNotifier,
+    private readonly webhookService: WebhookService,
   ) {}
 
   // === METODA SEARCH ===
   async search(query: string) {
-    const cleanQuery = query.replace(/[^a-zA-Z0-9]/g, '');
-
-    // Detekcja typu
-    let type = 'UNKNOWN';
-    if (/^\d{10}$/.test(cleanQuery)) type = 'NIP';
-    else if (/^\d{9}$/.test(cleanQuery)) type = 'PHONE';
-    else if (/^48\d{9}$/.test(cleanQuery)) type = 'PHONE';
+    // Detekcja typu (NIP z sumą kontrolną, telefon, konto, e-mail, URL, profil)
+    const detected = classifyQuery(query);
 
     // Logika NIP
-    if (type === 'NIP') {
-      return this.verifyCompany(cleanQuery);
+    if (detected.type === 'NIP') {
+      return this.verifyCompany(detected.normalized);
     }
-    
-    // Logika Telefon
-    if (type === 'PHONE') {
-        // Sprawdźmy czy numer istnieje w bazie, żeby frontend wiedział czy przekierować
-        const phoneEntry = await this.prisma.phoneNumber.findUnique({
-            where: { number: cleanQuery }
-        });
 
-        // Zwracamy info dla frontendu
-        return { 
-            type: 'PHONE', 
-            query: cleanQuery,
-            exists: !!phoneEntry // Frontend może tego użyć do decyzji
-        };
+    // Sprawdźmy czy wartość istnieje w bazie, żeby frontend wiedział czy przekierować
+    let exists: boolean | undefined;
+    if (detected.type === 'PHONE') {
+      const phoneEntry = await this.prisma.phoneNumber.findUnique({
+        where: { number: detected.normalized },
+      });
+      exists = !!phoneEntry;
+    } else if (detected.type === 'ACCOUNT') {
+      const accountEntry = await this.prisma.bankAccount.findUnique({
+        where: { number: detected.normalized },
+      });
+      exists = !!accountEntry;
+    } else if (detected.type === 'EMAIL') {
+      const reportCount = await this.prisma.report.count({
+        where: {
+          status: ReportStatus.APPROVED,
+          reportedEmail: { equals: detected.normalized, mode: 'insensitive' },
+        },
+      });
+      exists = reportCount > 0;
+    } else if (detected.type === 'UNKNOWN') {
+      return {
+        ...detected,
+        error:
+          'Niepoprawny format. Wpisz NIP, telefon, numer konta, e-mail, link lub nazwę.',
+      };
     }
 
-    return { error: 'Niepoprawny format. Wpisz NIP (10 cyfr) lub Telefon.' };
+    // Zwracamy info dla frontendu (query zostaje dla zgodności wstecz)
+    return {
+      ...detected,
+      query: detected.normalized,
+      ...(exists !== undefined && { exists }),
+    };
   }
 
   // === GŁÓWNA LOGIKA WERYFIKACJI FIRMY ===
-  async verifyCompany(nip: string) {
+  // account - opcjonalny numer konta do sprawdzenia z białą listą MF
+  async verifyCompany(nip: string, account?: string) {
     const reportStats = await this.reportsService.getStatsForTarget(nip);
     
-    // Pobierz z bazy (WRAZ Z TELEFONAMI!)
+    // Pobierz z bazy (WRAZ Z TELEFONAMI I KONTAMI!)
     const cachedCompany = await this.prisma.company.findUnique({
       where: { nip },
-      include: { phones: true }
+      include: {
+        phones: true,
+        bankAccounts: true,
+        statusEvents: RECENT_STATUS_EVENTS,
+      },
     });
 
     const ONE_DAY = 24 * 60 * 60 * 1000;
     const isFresh = cachedCompany && (Date.now() - cachedCompany.updatedAt.getTime() < ONE_DAY);
 
-    let baseTrustScore = 0;
+    // Dane wejściowe dla silnika (część zależna od rejestru VAT)
+    let baseInput: TrustScoreInput = {};
     let companyData: Company | null = null;
     let source = '';
     let phones = cachedCompany?.phones || [];
+    // null = nie znamy białej listy (firma nie była jeszcze sprawdzona w MF)
+    let whiteListAccounts: string[] | null = null;
 
     if (isFresh) {
       // CACHE
       companyData = cachedCompany;
-      baseTrustScore = cachedCompany.trustScore;
       source = 'CACHE_DB';
+      if (cachedCompany.statusVat === VAT_STATUS_REMOVED) {
+        return this.notInRegister(nip, source, account);
+      }
+      if (cachedCompany.rawData) {
+        whiteListAccounts = cachedCompany.bankAccounts.map((a) => a.number);
+        const registerInput = this.registerInput(cachedCompany);
+        // Zapisany wynik mógł zostać poprawiony ręcznie w panelu
+        const vatScore = this.trustScoreEngine.evaluate(registerInput).trustScore;
+        baseInput = {
+          ...registerInput,
+          storedAdjustment: cachedCompany.trustScore - vatScore,
+        };
+      } else {
+        // Firma dodana ze zgłoszenia, jeszcze bez danych z MF
+        baseInput = { storedScore: cachedCompany.trustScore };
+      }
     } else {
       // API
-      const vatData = await this.vatService.checkVatStatus(nip);
+      const saved = await this.refreshCompany(nip);
       source = 'LIVE_API';
 
-      if (vatData.found) {
-        baseTrustScore += 30;
-        if (vatData.statusVat === 'Czynny') baseTrustScore += 40;
-        if (vatData.accountNumbers?.length > 0) baseTrustScore += 20;
-
-        const saved = await this.prisma.company.upsert({
-          where: { nip },
-          update: {
-            name: vatData.name,
-            statusVat: vatData.statusVat,
-            trustScore: baseTrustScore,
-            riskLevel: this.calculateRisk(baseTrustScore),
-            rawData: vatData as any,
-          },
-          create: {
-            nip: vatData.nip,
-            name: vatData.name,
-            statusVat: vatData.statusVat,
-            trustScore: baseTrustScore,
-            riskLevel: this.calculateRisk(baseTrustScore),
-            rawData: vatData as any,
-          },
-        });
-        companyData = saved;
-      } else {
-        return {
-           query: nip,
-           trustScore: 0,
-           riskLevel: 'Krytyczny (Nie istnieje)',
-           source: 'LIVE_API'
-        }
+      if (!saved || saved.statusVat === VAT_STATUS_REMOVED) {
+        return this.notInRegister(nip, source, account);
       }
+      companyData = saved;
+      whiteListAccounts = saved.bankAccounts.map((a) => a.number);
+      baseInput = this.registerInput(saved);
     }
 
+    // Konta ze zgłoszeń, których firma NIE zgłosiła do MF (fałszywe faktury)
+    const accountAlerts = this.findUnregisteredAccounts(
+      reportStats.entries,
+      whiteListAccounts,
+    );
+
     // Kalkulacja końcowa
-    let finalTrustScore = baseTrustScore;
-    if (reportStats.negative > 0) {
-      finalTrustScore -= (reportStats.negative * 15);
-    }
-    if (finalTrustScore < 0) finalTrustScore = 0;
+    const score = this.trustScoreEngine.evaluate({
+      ...baseInput,
+      reports: reportStats.entries,
+      unregisteredAccounts: accountAlerts.length,
+      linkedEntities: phones.map((p) => ({
+        label: p.number,
+        trustScore: p.trustScore,
+      })),
+    });
 
     return {
       query: nip,
-      trustScore: finalTrustScore,
-      riskLevel: this.calculateRisk(finalTrustScore),
+      trustScore: score.trustScore,
+      riskLevel: score.riskLevel,
+      scoreBreakdown: score.scoreBreakdown,
       source: source,
       PhoneNumber : PhoneNumber,
       phones: phones,
@@ -126,8 +200,16 @@ export class VerificationService {
         name: companyData ? companyData.name : 'Brak danych',
         nip: companyData ? companyData.nip : nip, // <--- NAPRAWA: Dodano pole NIP
         vat: companyData ? companyData.statusVat : 'Nieznany',
-        phones: phones
+        phones: phones,
+        bankAccounts: whiteListAccounts?.map(formatBankAccount) ?? [],
       },
+      accountAlerts,
+      ...(account !== undefined && {
+        accountCheck: this.checkAccountAgainstWhiteList(
+          account,
+          whiteListAccounts,
+        ),
+      }),
       community: {
         alerts: reportStats.negative,
         totalReports: reportStats.total,
@@ -142,33 +224,245 @@ export class VerificationService {
             facebookLink: r.facebookLink,
             screenshotUrl: r.screenshotUrl,
              bankAccount: r.bankAccount,
+            accountOnWhiteList: r.accountOnWhiteList,
   phoneNumber: r.phoneNumber
         }))
       }
     };
   }
 
-  // === METODY ADMINISTRACYJNE (CRUD) ===
+  // Pobranie firmy z białej listy MF i zapis w bazie (leniwie z verifyCompany albo
+  // w tle z CompanyRefreshScheduler). Zmiana statusu VAT, także zniknięcie z rejestru,
+  // trafia do CompanyStatusEvent, obserwujących i webhooków.
+  // null = podmiotu nie ma ani w rejestrze, ani w bazie.
+  async refreshCompany(
+    nip: string,
+    source: CompanyStatusSource = CompanyStatusSource.ON_DEMAND,
+  ) {
+    const previous = await this.prisma.company.findUnique({
+      where: { nip },
+      include: {
+        bankAccounts: { select: { number: true } },
+        statusEvents: RECENT_STATUS_EVENTS,
+      },
+    });
+    const vatData = await this.vatService.checkVatStatus(nip);
+    if (!vatData.found && !previous) return null;
+
+    // Porównujemy tylko z danymi, które już kiedyś przyszły z MF
+    const known = !!previous?.rawData;
+    const statusVat = vatData.found ? vatData.statusVat : VAT_STATUS_REMOVED;
+    const whiteList = vatData.found
+      ? this.toWhiteListAccounts(vatData.accountNumbers)
+      : [];
+
+    // Korekty z panelu (PATCH admin/company/:nip) nie mogą zniknąć przy odświeżeniu:
+    // punkty ponad wynik z samego rejestru przenosimy do nowego wyniku, a poziom
+    // ryzyka niezgodny z wynikiem zostawiamy, dopóki nie zmieni się status VAT
+    const adjustment = known
+      ? previous.trustScore -
+        this.trustScoreEngine.evaluate(this.registerInput(previous)).trustScore
+      : 0;
+    const riskOverride =
+      known &&
+      previous.statusVat === statusVat &&
+      previous.riskLevel !== this.trustScoreEngine.riskLevel(previous.trustScore)
+        ? previous.riskLevel
+        : null;
+
+    // Zdarzenie i nowy stan firmy razem - wynik liczony z historii, która już je zawiera
+    const saved: CompanyWithRegister = await this.prisma.$transaction(async (tx) => {
+      if (known && previous.statusVat !== statusVat) {
+        await tx.companyStatusEvent.create({
+          data: {
+            companyNip: nip,
+            fromStatus: previous.statusVat,
+            toStatus: statusVat,
+            source,
+          },
+        });
+      }
+      const statusEvents = await tx.companyStatusEvent.findMany({
+        where: { companyNip: nip },
+        ...RECENT_STATUS_EVENTS,
+      });
+
+      const base = this.trustScoreEngine.evaluate({
+        vat: {
+          found: vatData.found,
+          status: statusVat,
+          accountCount: whiteList.length,
+        },
+        vatStatusChanges: statusEvents,
+        storedAdjustment: adjustment,
+      });
+
+      // Konta z białej listy zapisujemy jako BankAccount powiązane z firmą.
+      // Konta wycofane z listy odpinamy; po wykreśleniu z rejestru dotychczasowe
+      // powiązania zostają jako historia.
+      const listed = new Set(whiteList.map((account) => account.number));
+      const withdrawn = vatData.found
+        ? (previous?.bankAccounts ?? [])
+            .filter((account) => !listed.has(account.number))
+            .map(({ number }) => ({ number }))
+        : [];
+      const connectOrCreate = whiteList.map((account) => ({
+        where: { number: account.number },
+        create: { number: account.number, countryCode: account.countryCode },
+      }));
+      const data = {
+        name: vatData.found ? vatData.name : previous.name,
+        statusVat,
+        trustScore: base.trustScore,
+        riskLevel: riskOverride ?? base.riskLevel,
+        rawData: vatData as any,
+      };
 
-  async getAllCompanies() {
-    return this.prisma.company.findMany({
-      select: { nip: true, name: true, statusVat: true, riskLevel: true, trustScore: true, updatedAt: true },
-      take: 100,
-      orderBy: { createdAt: 'desc' }
+      return tx.company.upsert({
+        where: { nip },
+        update: {
+          ...data,
+          bankAccounts: { connectOrCreate, disconnect: withdrawn },
+        },
+        create: { ...data, nip: vatData.nip, bankAccounts: { connectOrCreate } },
+        include: { bankAccounts: true, statusEvents: RECENT_STATUS_EVENTS },
+      });
     });
+
+    if (known) {
+      await this.watchlistNotifier.vatStatusChanged(
+        nip,
+        previous.statusVat,
+        saved.statusVat,
+      );
+      await this.watchlistNotifier.trustScoreChanged(
+        WatchEntityType.COMPANY,
+        nip,
+        previous.trustScore,
+        saved.trustScore,
+      );
+      await this.webhookService.riskChanged('COMPANY', nip, previous, saved);
+    }
+    return saved;
+  }
+
+  // Część wyniku firmy zależna od rejestru VAT
+  private registerInput(
+    company: Pick<CompanyWithRegister, 'statusVat' | 'statusEvents'> & {
+      bankAccounts: unknown[];
+    },
+  ): TrustScoreInput {
+    return {
+      vat: {
+        found: company.statusVat !== VAT_STATUS_REMOVED,
+        status: company.statusVat,
+        accountCount: company.bankAccounts.length,
+      },
+      vatStatusChanges: company.statusEvents,
+    };
+  }
+
+  private notInRegister(nip: string, source: string, account?: string) {
+    return {
+      query: nip,
+      trustScore: 0,
+      riskLevel: 'Krytyczny (Nie istnieje)',
+      source,
+      scoreBreakdown: [
+        {
+          signal: 'VAT_REGISTERED',
+          label: 'Brak podmiotu w rejestrze VAT (biała lista MF)',
+          points: 0,
+        },
+      ],
+      ...(account !== undefined && {
+        accountCheck: this.checkAccountAgainstWhiteList(account, null),
+      }),
+    };
+  }
+
+  // === METODY ADMINISTRACYJNE (CRUD) ===
+
+  async getAllCompanies(query: CompanyListQueryDto = {}) {
+    const list = parseListQuery(query, COMPANY_LIST);
+    const where = {
+      ...commonListFilters(query),
+      riskLevel: query.riskLevel,
+      statusVat: query.statusVat,
+    };
+
+    const [total, rows] = await this.prisma.$transaction([
+      this.prisma.company.count({ where }),
+      this.prisma.company.findMany({
+        where: { AND: [where, list.cursorWhere] },
+        select: {
+          nip: true,
+          name: true,
+          statusVat: true,
+          riskLevel: true,
+          trustScore: true,
+          createdAt: true,
+          updatedAt: true,
+          _count: { select: { reports: true } },
+        },
+        orderBy: list.orderBy,
+        take: list.take + 1,
+      }),
+    ]);
+    return toPage(rows, total, list);
+  }
+
+  async getAllPhones(query: PhoneListQueryDto = {}) {
+    const list = parseListQuery(query, PHONE_LIST);
+    const where: Record<string, unknown> = commonListFilters(query);
+    if (query.hasCompany !== undefined) {
+      where.companyNip = query.hasCompany ? { not: null } : null;
+    }
+
+    const [total, rows] = await this.prisma.$transaction([
+      this.prisma.phoneNumber.count({ where }),
+      this.prisma.phoneNumber.findMany({
+        where: { AND: [where, list.cursorWhere] },
+        select: {
+          number: true,
+          countryCode: true,
+          trustScore: true,
+          companyNip: true,
+          company: { select: { name: true } },
+          createdAt: true,
+          updatedAt: true,
+          _count: { select: { reports: true } },
+        },
+        orderBy: list.orderBy,
+        take: list.take + 1,
+      }),
+    ]);
+    return toPage(rows, total, list);
   }
 
-  async getCompanyForAdmin(nip: string) {
-    return this.prisma.company.findUnique({
+  async getCompanyForAdmin(nip: string, includeRawData: boolean = false) {
+    const company = await this.prisma.company.findUnique({
       where: { nip },
-      include: { phones: true }
+      include: {
+        phones: true,
+        statusEvents: { orderBy: { detectedAt: 'desc' } },
+      },
     });
+    if (!company || includeRawData) return company;
+
+    // Surowe dane z MF tylko dla ról z uprawnieniem VIEW_RAW_DATA
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { rawData, ...rest } = company;
+    return rest;
   }
 
-  async updateCompany(nip: string, data: any) {
+  async updateCompany(nip: string, data: any, actor: AuditActor) {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { phones, ...companyData } = data;
-    return this.prisma.company.update({
+    const before = await this.prisma.company.findUnique({ where: { nip } });
+    if (!before) throw new NotFoundException('Firma nie istnieje');
+
+    const updated = await this.prisma.company.update({
       where: { nip },
       data: {
         name: companyData.name,
@@ -177,12 +471,37 @@ export class VerificationService {
         statusVat: companyData.statusVat
       }
     });
+    await this.auditService.record(actor, {
+      action: AuditAction.COMPANY_UPDATE,
+      entityType: AuditEntity.COMPANY,
+      entityId: nip,
+      before,
+      after: updated,
+    });
+    await this.watchlistNotifier.trustScoreChanged(
+      WatchEntityType.COMPANY,
+      nip,
+      before.trustScore,
+      updated.trustScore,
+    );
+    await this.webhookService.riskChanged('COMPANY', nip, before, updated);
+    return updated;
   }
 
-  async linkPhoneToCompany(nip: string, phoneNumber: string) {
+  async linkPhoneToCompany(nip: string, phoneNumber: string, actor: AuditActor) {
+    // Numery w bazie i na listach obserwowanych są w formacie E.164
+    const detected = classifyQuery(phoneNumber);
+    if (detected.type !== 'PHONE') {
+      throw new BadRequestException('Niepoprawny numer telefonu');
+    }
+    const number = detected.normalized;
+    if (!isValidNip(nip)) {
+      throw new BadRequestException('Niepoprawny NIP');
+    }
+
     const company = await this.prisma.company.findUnique({ where: { nip } });
     if (!company) {
-       await this.prisma.company.create({
+       const created = await this.prisma.company.create({
          data: {
            nip,
            name: 'Firma Dodana Ręcznie',
@@ -191,38 +510,76 @@ export class VerificationService {
            riskLevel: 'Nieznany'
          }
        });
+       await this.auditService.record(actor, {
+         action: AuditAction.COMPANY_CREATE,
+         entityType: AuditEntity.COMPANY,
+         entityId: nip,
+         after: created,
+       });
     }
 
-    return this.prisma.phoneNumber.upsert({
-      where: { number: phoneNumber },
+    const before = await this.prisma.phoneNumber.findUnique({
+      where: { number },
+    });
+    const linked = await this.prisma.phoneNumber.upsert({
+      where: { number },
       update: { companyNip: nip, trustScore: 70 },
-      create: { number: phoneNumber, countryCode: 'PL', companyNip: nip, trustScore: 70 }
+      create: { number, countryCode: 'PL', companyNip: nip, trustScore: 70 }
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.PHONE_LINK,
+      entityType: AuditEntity.PHONE,
+      entityId: number,
+      before,
+      after: linked,
     });
+    if (before) {
+      await this.watchlistNotifier.trustScoreChanged(
+        WatchEntityType.PHONE,
+        number,
+        before.trustScore,
+        linked.trustScore,
+      );
+    }
+    return linked;
   }
 
-  async getAllPersons() {
-    return this.prisma.person.findMany({
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        phone: true,
-        bankAccount: true,
-        trustScore: true,
-        riskLevel: true,
-        createdAt: true,
-        updatedAt: true,
-        _count: { select: { reports: true } },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 200,
-    });
+  async getAllPersons(query: PersonListQueryDto = {}) {
+    const list = parseListQuery(query, PERSON_LIST);
+    const where = {
+      ...commonListFilters(query),
+      riskLevel: query.riskLevel,
+      mergedIntoId: null, // Scalone osoby są tylko śladem w historii
+    };
+
+    const [total, rows] = await this.prisma.$transaction([
+      this.prisma.person.count({ where }),
+      this.prisma.person.findMany({
+        where: { AND: [where, list.cursorWhere] },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+          bankAccount: true,
+          trustScore: true,
+          riskLevel: true,
+          createdAt: true,
+          updatedAt: true,
+          _count: { select: { reports: true } },
+        },
+        orderBy: list.orderBy,
+        take: list.take + 1,
+      }),
+    ]);
+    return toPage(rows, total, list);
   }
 
   async getPersonForAdmin(id: number) {
     return this.prisma.person.findUnique({
       where: { id },
       include: {
+        bankAccounts: true,
         reports: {
           orderBy: { createdAt: 'desc' },
           take: 20,
@@ -232,6 +589,7 @@ export class VerificationService {
             reason: true,
             comment: true,
             createdAt: true,
+            status: true,
             phoneNumber: true,
             bankAccount: true,
             reportedEmail: true,
@@ -242,14 +600,18 @@ export class VerificationService {
     });
   }
 
-  async updatePerson(id: number, data: any) {
+  async updatePerson(id: number, data: any, actor: AuditActor) {
     if (!id || Number.isNaN(Number(id))) {
       throw new Error('Brak poprawnego identyfikatora osoby');
     }
-    return this.prisma.person.update({
+    const before = await this.prisma.person.findUnique({ where: { id } });
+    if (!before) throw new NotFoundException('Osoba nie istnieje');
+
+    const updated = await this.prisma.person.update({
       where: { id },
       data: {
         name: data.name,
+        normalizedName: data.name ? normalizePersonName(data.name) : undefined,
         email: data.email,
         phone: data.phone,
         bankAccount: data.bankAccount,
@@ -257,13 +619,83 @@ export class VerificationService {
         riskLevel: data.riskLevel ?? 'Nieznany',
       },
     });
+    await this.auditService.record(actor, {
+      action: AuditAction.PERSON_UPDATE,
+      entityType: AuditEntity.PERSON,
+      entityId: id,
+      before,
+      after: updated,
+    });
+    await this.watchlistNotifier.trustScoreChanged(
+      WatchEntityType.PERSON,
+      id,
+      before.trustScore,
+      updated.trustScore,
+    );
+    await this.webhookService.riskChanged('PERSON', id, before, updated);
+    return updated;
+  }
+
+  // Pomocnicze
+  private checkAccountAgainstWhiteList(
+    rawAccount: string,
+    whiteListAccounts: string[] | null,
+  ) {
+    const normalized = normalizeBankAccount(rawAccount);
+    if (!normalized) {
+      return {
+        account: rawAccount,
+        status: 'INVALID',
+        registered: false,
+        message: 'Niepoprawny numer konta bankowego (NRB/IBAN)',
+      };
+    }
+    if (whiteListAccounts === null) {
+      return {
+        account: formatBankAccount(normalized.number),
+        status: 'UNKNOWN',
+        registered: false,
+        message: 'Brak danych z białej listy MF dla tego NIP',
+      };
+    }
+
+    const registered = whiteListAccounts.includes(normalized.number);
+    return {
+      account: formatBankAccount(normalized.number),
+      status: registered ? 'REGISTERED' : 'NOT_REGISTERED',
+      registered,
+      message: registered
+        ? 'Konto zgłoszone w białej liście MF dla tego NIP'
+        : 'Konto nie jest zarejestrowane dla tego NIP',
+    };
+  }
+
+  private findUnregisteredAccounts(
+    reports: { id: number; bankAccountNumber: string | null }[],
+    whiteListAccounts: string[] | null,
+  ) {
+    if (whiteListAccounts === null) return [];
+
+    const byAccount = new Map<string, number[]>();
+    for (const r of reports) {
+      if (!r.bankAccountNumber) continue;
+      if (whiteListAccounts.includes(r.bankAccountNumber)) continue;
+      byAccount.set(r.bankAccountNumber, [
+        ...(byAccount.get(r.bankAccountNumber) ?? []),
+        r.id,
+      ]);
+    }
+
+    return [...byAccount.entries()].map(([number, reportIds]) => ({
+      account: formatBankAccount(number),
+      reportIds,
+      message: 'Konto nie jest zarejestrowane dla tego NIP',
+    }));
   }
 
-  // Pomocnicza
-  private calculateRisk(score: number): string {
-    if (score >= 80) return 'Bardzo Niski';
-    if (score >= 50) return 'Średni';
-    if (score >= 20) return 'Wysoki';
-    return 'Krytyczny';
+  private toWhiteListAccounts(accountNumbers?: string[]) {
+    return (accountNumbers || [])
+      .map((n) => normalizeBankAccount(n))
+      .filter((a) => a !== null);
   }
 }
@@ -0,0 +1,32 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WATCH_ENTITY_TYPES } from '../watchlist';
+
+export class AddWatchDto {
+  @IsIn(WATCH_ENTITY_TYPES)
+  entityType: string;
+
+  @IsString()
+  @MaxLength(100)
+  value: string; // NIP, telefon, id osoby albo numer konta w dowolnym formacie
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  notifyEmail?: boolean;
+
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(500)
+  webhookUrl?: string;
+}
@@ -0,0 +1,16 @@
+import { PickType } from '@nestjs/mapped-types';
+import { IsBoolean, IsOptional } from 'class-validator';
+import {
+  ListQueryDto,
+  ToBoolean,
+} from '../../common/pagination/list-query.dto';
+
+export class NotificationsQueryDto extends PickType(ListQueryDto, [
+  'cursor',
+  'limit',
+] as const) {
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  unreadOnly?: boolean;
+}
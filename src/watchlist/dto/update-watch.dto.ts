@@ -0,0 +1,7 @@
+import { PartialType, PickType } from '@nestjs/mapped-types';
+import { AddWatchDto } from './add-watch.dto';
+
+// Obserwowany podmiot jest stały - zmieniają się tylko nazwa i kanały powiadomień
+export class UpdateWatchDto extends PartialType(
+  PickType(AddWatchDto, ['label', 'notifyEmail', 'webhookUrl'] as const),
+) {}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { WatchlistService } from './watchlist.service';
+import { NotificationsQueryDto } from './dto/notifications-query.dto';
+
+@Controller('notifications')
+@UseGuards(AuthGuard('jwt'))
+export class NotificationsController {
+  constructor(private readonly watchlistService: WatchlistService) {}
+
+  // /notifications?unreadOnly=true&limit=20&cursor=...
+  @Get()
+  list(@Query() query: NotificationsQueryDto, @Request() req: any) {
+    return this.watchlistService.getNotifications(req.user.userId, query);
+  }
+
+  @Get('unread-count')
+  unreadCount(@Request() req: any) {
+    return this.watchlistService.getUnreadCount(req.user.userId);
+  }
+
+  @Post('read-all')
+  markAllRead(@Request() req: any) {
+    return this.watchlistService.markAllRead(req.user.userId);
+  }
+
+  @Post(':id/read')
+  markRead(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.watchlistService.markRead(req.user.userId, id);
+  }
+}
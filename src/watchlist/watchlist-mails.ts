@@ -0,0 +1,20 @@
+import { MailMessage } from '../mail/mailer';
+
+export function watchNotificationMail(
+  to: string,
+  title: string,
+  watched: string,
+  link: string,
+): MailMessage {
+  return {
+    to,
+    subject: `Obserwowany podmiot: ${title}`,
+    text: [
+      `${title} (${watched}).`,
+      '',
+      `Szczegóły: ${link}`,
+      '',
+      'Otrzymujesz tę wiadomość, bo ten podmiot jest na Twojej liście obserwowanych. Powiadomienia e-mail wyłączysz w ustawieniach listy.',
+    ].join('\n'),
+  };
+}
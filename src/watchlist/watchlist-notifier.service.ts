@@ -0,0 +1,172 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { MAILER } from '../mail/mailer';
+import type { Mailer } from '../mail/mailer';
+import { classifyQuery } from '../verification/query-classifier';
+import { WebhookService } from '../webhooks/webhook.service';
+import { watchNotificationMail } from './watchlist-mails';
+import { WatchEntityType, WatchEvent, WatchEventType } from './watchlist';
+
+type WatcherEntry = Prisma.WatchlistEntryGetPayload<{
+  include: { user: { select: { email: true } } };
+}>;
+
+// Rozsyła zdarzenia do obserwujących: skrzynka w aplikacji + e-mail/webhook.
+// Webhooki idą podpisane przez kolejkę WebhookDispatcher (ponowienia, kontrola adresu).
+// Błędy kanałów tylko logujemy - nie mogą zablokować zgłoszenia ani edycji.
+@Injectable()
+export class WatchlistNotifier {
+  private readonly logger = new Logger(WatchlistNotifier.name);
+  private readonly frontendUrl: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(MAILER) private readonly mailer: Mailer,
+    private readonly webhookService: WebhookService,
+    config: ConfigService,
+  ) {
+    this.frontendUrl = config.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+  }
+
+  // Zgłoszenie zatwierdzone przez moderatora dotyczy wszystkich podmiotów, do których
+  // jest przypięte. Niezmoderowane (PENDING) nie wychodzi do obserwujących.
+  async reportApproved(report: {
+    id: number;
+    userId: number;
+    companyNip?: string | null;
+    phoneNumber?: string | null;
+    personId?: number | null;
+    bankAccountNumber?: string | null;
+    reason?: string | null;
+  }) {
+    const targets: [WatchEntityType, string | null | undefined][] = [
+      [WatchEntityType.COMPANY, report.companyNip],
+      [WatchEntityType.PHONE, report.phoneNumber && toE164(report.phoneNumber)],
+      [WatchEntityType.PERSON, report.personId?.toString()],
+      [WatchEntityType.ACCOUNT, report.bankAccountNumber],
+    ];
+    for (const [entityType, entityId] of targets) {
+      if (!entityId) continue;
+      await this.notify({
+        type: WatchEventType.NEW_REPORT,
+        entityType,
+        entityId,
+        title: 'Nowe zgłoszenie',
+        data: { reportId: report.id, reason: report.reason ?? null },
+        skipUserId: report.userId,
+      });
+    }
+  }
+
+  // Powiadamiamy tylko o spadkach - wzrost oceny nie wymaga reakcji
+  async trustScoreChanged(
+    entityType: WatchEntityType,
+    entityId: string | number,
+    from: number,
+    to: number,
+  ) {
+    if (to >= from) return;
+    await this.notify({
+      type: WatchEventType.TRUST_SCORE_DROP,
+      entityType,
+      entityId: String(entityId),
+      title: `Spadek oceny wiarygodności z ${from} do ${to}`,
+      data: { from, to },
+    });
+  }
+
+  async vatStatusChanged(nip: string, from: string, to: string) {
+    if (from === to) return;
+    await this.notify({
+      type: WatchEventType.VAT_STATUS_CHANGE,
+      entityType: WatchEntityType.COMPANY,
+      entityId: nip,
+      title: `Zmiana statusu VAT: ${from} → ${to}`,
+      data: { from, to },
+    });
+  }
+
+  async notify(event: WatchEvent) {
+    try {
+      const entries = await this.prisma.watchlistEntry.findMany({
+        where: {
+          entityType: event.entityType,
+          entityId: event.entityId,
+          ...(event.skipUserId && { userId: { not: event.skipUserId } }),
+        },
+        include: { user: { select: { email: true } } },
+      });
+      if (!entries.length) return;
+
+      await this.prisma.notification.createMany({
+        data: entries.map((entry) => ({
+          userId: entry.userId,
+          watchlistEntryId: entry.id,
+          type: event.type,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          title: event.title,
+          data: event.data ?? undefined,
+        })),
+      });
+
+      // Kanały zewnętrzne w tle - odpowiedź API nie czeka na SMTP ani cudze serwery
+      void this.deliver(entries, event);
+    } catch (err) {
+      this.logger.error(
+        `Nie udało się zapisać powiadomień ${event.type} dla ${event.entityType} ${event.entityId}: ${err}`,
+      );
+    }
+  }
+
+  private async deliver(entries: WatcherEntry[], event: WatchEvent) {
+    const watched = (entry: WatcherEntry) => entry.label || event.entityId;
+
+    await Promise.all(
+      entries
+        .filter((entry) => entry.notifyEmail)
+        .map((entry) =>
+          this.mailer
+            .send(
+              watchNotificationMail(
+                entry.user.email,
+                event.title,
+                watched(entry),
+                `${this.frontendUrl}/notifications`,
+              ),
+            )
+            .catch((err) =>
+              this.logger.warn(`E-mail do ${entry.user.email}: ${err}`),
+            ),
+        ),
+    );
+
+    await this.webhookService
+      .enqueueWatchlist(
+        entries.filter((entry) => entry.webhookUrl).map((entry) => entry.id),
+        {
+          type: event.type,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          title: event.title,
+          data: event.data ?? {},
+        },
+      )
+      .catch((err) =>
+        this.logger.warn(
+          `Webhooki dla ${event.entityType} ${event.entityId}: ${err}`,
+        ),
+      );
+  }
+}
+
+// Zgłoszenia mogą mieć numer w formie wpisanej przez użytkownika
+function toE164(phone: string): string {
+  const detected = classifyQuery(phone);
+  return detected.type === 'PHONE' ? detected.normalized : phone;
+}
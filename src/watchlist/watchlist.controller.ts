@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { WatchlistService } from './watchlist.service';
+import { AddWatchDto } from './dto/add-watch.dto';
+import { UpdateWatchDto } from './dto/update-watch.dto';
+
+@Controller('watchlist')
+@UseGuards(AuthGuard('jwt'))
+export class WatchlistController {
+  constructor(private readonly watchlistService: WatchlistService) {}
+
+  @Get()
+  list(@Request() req: any) {
+    return this.watchlistService.list(req.user.userId);
+  }
+
+  // { entityType: "COMPANY", value: "PL 521-301-72-28", webhookUrl?: "https://..." }
+  @Post()
+  add(@Body() body: AddWatchDto, @Request() req: any) {
+    return this.watchlistService.add(req.user.userId, body);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateWatchDto,
+    @Request() req: any,
+  ) {
+    return this.watchlistService.update(req.user.userId, id, body);
+  }
+
+  @Post(':id/rotate-secret')
+  rotateSecret(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.watchlistService.rotateWebhookSecret(req.user.userId, id);
+  }
+
+  @Delete(':id')
+  remove(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.watchlistService.remove(req.user.userId, id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { WatchlistController } from './watchlist.controller';
+import { NotificationsController } from './notifications.controller';
+import { WatchlistService } from './watchlist.service';
+import { WatchlistNotifier } from './watchlist-notifier.service';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+
+@Module({
+  imports: [WebhooksModule],
+  controllers: [WatchlistController, NotificationsController],
+  providers: [WatchlistService, WatchlistNotifier],
+  exports: [WatchlistNotifier],
+})
+export class WatchlistModule {}
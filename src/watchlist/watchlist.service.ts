@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { generateWebhookSecret } from '../webhooks/webhook-signature';
+import { checkPublicWebhookUrl } from '../webhooks/webhook-url';
+import {
+  ListConfig,
+  parseListQuery,
+  toPage,
+} from '../common/pagination/cursor-pagination';
+import { AddWatchDto } from './dto/add-watch.dto';
+import { UpdateWatchDto } from './dto/update-watch.dto';
+import { NotificationsQueryDto } from './dto/notifications-query.dto';
+import { normalizeWatchTarget, WatchEntityType } from './watchlist';
+
+const MAX_WATCHLIST_SIZE = 200;
+
+// Sekret webhooka wraca tylko przy ustawieniu adresu i rotacji
+const entrySelect = {
+  id: true,
+  userId: true,
+  entityType: true,
+  entityId: true,
+  label: true,
+  notifyEmail: true,
+  webhookUrl: true,
+  createdAt: true,
+};
+
+const NOTIFICATION_LIST: ListConfig = {
+  sortFields: ['id'],
+  defaultSort: '-id',
+  idField: 'id',
+};
+
+@Injectable()
+export class WatchlistService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  list(userId: number) {
+    return this.prisma.watchlistEntry.findMany({
+      where: { userId },
+      select: entrySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async add(userId: number, dto: AddWatchDto) {
+    const entityType = dto.entityType as WatchEntityType;
+    const entityId = normalizeWatchTarget(entityType, dto.value);
+    if (!entityId) {
+      throw new BadRequestException(
+        `Niepoprawna wartość dla typu ${entityType}`,
+      );
+    }
+    // Firmę, telefon czy konto można obserwować zanim pojawi się w bazie
+    // (powiadomienie przyjdzie z pierwszym zgłoszeniem); osoba musi istnieć
+    if (entityType === WatchEntityType.PERSON) {
+      const person = await this.prisma.person.findUnique({
+        where: { id: Number(entityId) },
+      });
+      if (!person) throw new NotFoundException('Osoba nie istnieje');
+    }
+
+    const count = await this.prisma.watchlistEntry.count({ where: { userId } });
+    if (count >= MAX_WATCHLIST_SIZE) {
+      throw new BadRequestException(
+        `Lista obserwowanych może mieć najwyżej ${MAX_WATCHLIST_SIZE} pozycji`,
+      );
+    }
+
+    const existing = await this.prisma.watchlistEntry.findUnique({
+      where: { userId_entityType_entityId: { userId, entityType, entityId } },
+    });
+    if (existing) {
+      throw new ConflictException('Ten podmiot jest już obserwowany');
+    }
+    if (dto.webhookUrl) await assertPublicWebhookUrl(dto.webhookUrl);
+
+    return this.prisma.watchlistEntry.create({
+      data: {
+        userId,
+        entityType,
+        entityId,
+        label: dto.label,
+        notifyEmail: dto.notifyEmail ?? true,
+        webhookUrl: dto.webhookUrl,
+        webhookSecret: dto.webhookUrl ? generateWebhookSecret() : undefined,
+      },
+      select: { ...entrySelect, webhookSecret: true },
+    });
+  }
+
+  // Nowy adres webhooka dostaje nowy sekret (zwracany raz); null wyłącza kanał
+  async update(userId: number, id: number, dto: UpdateWatchDto) {
+    const entry = await this.findOwned(userId, id);
+    const urlChanged =
+      dto.webhookUrl !== undefined && dto.webhookUrl !== entry.webhookUrl;
+    if (urlChanged && dto.webhookUrl) {
+      await assertPublicWebhookUrl(dto.webhookUrl);
+    }
+
+    return this.prisma.watchlistEntry.update({
+      where: { id },
+      data: {
+        label: dto.label,
+        notifyEmail: dto.notifyEmail,
+        ...(urlChanged && {
+          webhookUrl: dto.webhookUrl,
+          webhookSecret: dto.webhookUrl ? generateWebhookSecret() : null,
+        }),
+      },
+      select: { ...entrySelect, webhookSecret: urlChanged },
+    });
+  }
+
+  // Stary sekret przestaje działać od razu
+  async rotateWebhookSecret(userId: number, id: number) {
+    const entry = await this.findOwned(userId, id);
+    if (!entry.webhookUrl) {
+      throw new BadRequestException('Ta pozycja nie ma adresu webhooka');
+    }
+    return this.prisma.watchlistEntry.update({
+      where: { id },
+      data: { webhookSecret: generateWebhookSecret() },
+      select: { ...entrySelect, webhookSecret: true },
+    });
+  }
+
+  async remove(userId: number, id: number) {
+    await this.findOwned(userId, id);
+    await this.prisma.watchlistEntry.delete({ where: { id } });
+    return { removed: true };
+  }
+
+  // === SKRZYNKA POWIADOMIEŃ ===
+
+  async getNotifications(userId: number, query: NotificationsQueryDto) {
+    const list = parseListQuery(query, NOTIFICATION_LIST);
+    const where = {
+      userId,
+      ...(query.unreadOnly && { readAt: null }),
+    };
+
+    const [total, rows] = await this.prisma.$transaction([
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.findMany({
+        where: { AND: [where, list.cursorWhere] },
+        orderBy: list.orderBy,
+        take: list.take + 1,
+      }),
+    ]);
+    return toPage(rows, total, list);
+  }
+
+  async getUnreadCount(userId: number) {
+    const unread = await this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+    return { unread };
+  }
+
+  async markRead(userId: number, id: number) {
+    const result = await this.prisma.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { updated: result.count };
+  }
+
+  async markAllRead(userId: number) {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { updated: result.count };
+  }
+
+  private async findOwned(userId: number, id: number) {
+    const entry = await this.prisma.watchlistEntry.findUnique({
+      where: { id },
+    });
+    if (!entry || entry.userId !== userId) {
+      throw new NotFoundException('Pozycja listy obserwowanych nie istnieje');
+    }
+    return entry;
+  }
+}
+
+async function assertPublicWebhookUrl(url: string) {
+  const rejected = await checkPublicWebhookUrl(url);
+  if (rejected) throw new BadRequestException(rejected);
+}
@@ -0,0 +1,31 @@
+import { normalizeWatchTarget, WatchEntityType } from './watchlist';
+
+describe('normalizeWatchTarget', () => {
+  it('should normalize NIPs with a PL prefix and separators', () => {
+    expect(
+      normalizeWatchTarget(WatchEntityType.COMPANY, 'PL 521-301-72-28'),
+    ).toBe('5213017228');
+    expect(normalizeWatchTarget(WatchEntityType.COMPANY, '12345')).toBeNull();
+  });
+
+  it('should store phones in E.164', () => {
+    expect(normalizeWatchTarget(WatchEntityType.PHONE, '500 600 700')).toBe(
+      '+48500600700',
+    );
+    expect(normalizeWatchTarget(WatchEntityType.PHONE, 'abc')).toBeNull();
+  });
+
+  it('should normalize bank accounts to IBAN', () => {
+    expect(
+      normalizeWatchTarget(
+        WatchEntityType.ACCOUNT,
+        '61 1090 1014 0000 0712 1981 2874',
+      ),
+    ).toBe('PL61109010140000071219812874');
+  });
+
+  it('should accept only numeric person ids', () => {
+    expect(normalizeWatchTarget(WatchEntityType.PERSON, '42')).toBe('42');
+    expect(normalizeWatchTarget(WatchEntityType.PERSON, 'Jan')).toBeNull();
+  });
+});
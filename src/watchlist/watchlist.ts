@@ -0,0 +1,52 @@
+import { classifyQuery } from '../verification/query-classifier';
+
+// Co można obserwować - identyfikator jak w kluczu głównym modelu
+export const WatchEntityType = {
+  COMPANY: 'COMPANY', // NIP
+  PHONE: 'PHONE', // E.164
+  PERSON: 'PERSON', // Person.id
+  ACCOUNT: 'ACCOUNT', // Znormalizowany IBAN
+} as const;
+
+export type WatchEntityType =
+  (typeof WatchEntityType)[keyof typeof WatchEntityType];
+
+export const WATCH_ENTITY_TYPES = Object.values(WatchEntityType);
+
+export const WatchEventType = {
+  NEW_REPORT: 'NEW_REPORT',
+  TRUST_SCORE_DROP: 'TRUST_SCORE_DROP',
+  VAT_STATUS_CHANGE: 'VAT_STATUS_CHANGE',
+} as const;
+
+export type WatchEventType =
+  (typeof WatchEventType)[keyof typeof WatchEventType];
+
+export interface WatchEvent {
+  type: WatchEventType;
+  entityType: WatchEntityType;
+  entityId: string;
+  title: string;
+  data?: Record<string, unknown>;
+  skipUserId?: number; // Autor zmiany nie dostaje powiadomienia o własnym zgłoszeniu
+}
+
+// Wartość od użytkownika -> identyfikator rekordu; null = niepoprawna wartość
+export function normalizeWatchTarget(
+  type: WatchEntityType,
+  value: string,
+): string | null {
+  const raw = String(value ?? '').trim();
+  if (type === WatchEntityType.PERSON) {
+    return /^\d+$/.test(raw) ? String(Number(raw)) : null;
+  }
+
+  if (type === WatchEntityType.COMPANY) {
+    // Jak przy zgłoszeniach: 10 cyfr, opcjonalnie z prefiksem "PL" i separatorami
+    const nip = raw.replace(/[\s-]/g, '').replace(/^PL/i, '');
+    return /^\d{10}$/.test(nip) ? nip : null;
+  }
+
+  const detected = classifyQuery(raw);
+  return detected.type === type ? detected.normalized : null;
+}
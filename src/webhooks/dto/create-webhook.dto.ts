@@ -0,0 +1,27 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhooks';
+
+export class CreateWebhookDto {
+  // http i adresy bez domeny dozwolone - do testów z lokalnym odbiornikiem
+  @IsUrl({ require_protocol: true, require_tld: false })
+  @MaxLength(500)
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
@@ -0,0 +1,13 @@
+import { PickType } from '@nestjs/mapped-types';
+import { IsIn, IsOptional } from 'class-validator';
+import { ListQueryDto } from '../../common/pagination/list-query.dto';
+import { DeliveryStatus } from '../webhooks';
+
+export class DeliveriesQueryDto extends PickType(ListQueryDto, [
+  'cursor',
+  'limit',
+] as const) {
+  @IsOptional()
+  @IsIn(Object.values(DeliveryStatus))
+  status?: string;
+}
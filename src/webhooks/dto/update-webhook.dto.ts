@@ -0,0 +1,9 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateWebhookDto } from './create-webhook.dto';
+
+export class UpdateWebhookDto extends PartialType(CreateWebhookDto) {
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean; // false = wstrzymanie bez usuwania historii dostaw
+}
@@ -0,0 +1,55 @@
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { DeliveryStatus } from './webhooks';
+
+describe('WebhookDispatcher', () => {
+  let prisma: any;
+  let dispatcher: WebhookDispatcher;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    prisma = {
+      webhookDelivery: {
+        findMany: jest.fn().mockResolvedValue([{ id: 1, nextAttemptAt: null }]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    dispatcher = new WebhookDispatcher(prisma, {} as any, {} as any);
+  });
+
+  it('should pick only deliveries of active subscriptions or watchlist entries', async () => {
+    prisma.webhookDelivery.findUnique.mockResolvedValue(null);
+
+    await dispatcher.tick();
+
+    expect(prisma.webhookDelivery.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          status: DeliveryStatus.PENDING,
+          OR: [{ subscriptionId: null }, { subscription: { active: true } }],
+        }),
+      }),
+    );
+  });
+
+  it('should not send a delivery whose subscription was paused after it was claimed', async () => {
+    prisma.webhookDelivery.findUnique.mockResolvedValue({
+      id: 1,
+      attempts: 0,
+      subscription: {
+        url: 'https://partner.example',
+        secret: 's',
+        active: false,
+      },
+      watchlistEntry: null,
+    });
+
+    await dispatcher.tick();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(prisma.webhookDelivery.update).not.toHaveBeenCalled();
+  });
+});
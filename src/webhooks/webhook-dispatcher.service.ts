@@ -0,0 +1,202 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PrismaService } from '../prisma.service';
+import { SIGNATURE_HEADER, signWebhookPayload } from './webhook-signature';
+import { checkPublicWebhookUrl } from './webhook-url';
+import {
+  DeliveryStatus,
+  MAX_DELIVERY_ATTEMPTS,
+  retryDelayMs,
+} from './webhooks';
+
+const INTERVAL_NAME = 'webhook-dispatcher';
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Tyle czasu dostawa jest "zajęta" przez instancję, która ją wysyła;
+// jeśli proces padnie w trakcie, po tym czasie podejmie ją ktoś inny
+const LEASE_MS = 2 * 60 * 1000;
+
+// Worker kolejki WebhookDelivery. Kilka instancji może działać równolegle -
+// dostawę przejmuje ta, której uda się przesunąć jej nextAttemptAt.
+// WEBHOOK_WORKER_ENABLED=false wyłącza go (np. w instancjach tylko z API).
+@Injectable()
+export class WebhookDispatcher implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly scheduler: SchedulerRegistry,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    if (this.config.get<string>('WEBHOOK_WORKER_ENABLED', 'true') !== 'true') {
+      return;
+    }
+    const every = Number(this.config.get('WEBHOOK_POLL_INTERVAL_MS', 10000));
+    this.scheduler.addInterval(
+      INTERVAL_NAME,
+      setInterval(() => void this.tick(), every),
+    );
+  }
+
+  onApplicationShutdown() {
+    if (this.scheduler.doesExist('interval', INTERVAL_NAME)) {
+      this.scheduler.deleteInterval(INTERVAL_NAME);
+    }
+  }
+
+  // Jeden przebieg naraz - wolny odbiorca nie może nawarstwić zaległych ticków
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: {
+          status: DeliveryStatus.PENDING,
+          nextAttemptAt: { lte: new Date() },
+          // Wstrzymana subskrypcja (active=false) - dostawy czekają na jej włączenie
+          OR: [{ subscriptionId: null }, { subscription: { active: true } }],
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+        select: { id: true, nextAttemptAt: true },
+      });
+      for (const delivery of due) {
+        if (await this.claim(delivery.id, delivery.nextAttemptAt)) {
+          await this.attempt(delivery.id);
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Błąd kolejki webhooków: ${err}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async claim(id: number, nextAttemptAt: Date) {
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: { id, status: DeliveryStatus.PENDING, nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + LEASE_MS) },
+    });
+    return claimed.count === 1;
+  }
+
+  private async attempt(id: number) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { subscription: true, watchlistEntry: true },
+    });
+    // Subskrypcję wstrzymano po pobraniu kolejki - dostawa zostaje w PENDING
+    if (!delivery || delivery.subscription?.active === false) return;
+
+    const target = this.targetOf(delivery);
+    if (!target) {
+      // Użytkownik usunął adres webhooka, zanim dostawa wyszła
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status: DeliveryStatus.DEAD,
+          lastError: 'Brak adresu odbiorcy',
+        },
+      });
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      // Adresy partnerów ustawia administrator (także lokalne odbiorniki testowe);
+      // adres użytkownika sprawdzamy przy każdej próbie, bo DNS mógł się zmienić
+      error = target.userSupplied
+        ? await checkPublicWebhookUrl(target.url)
+        : null;
+      if (!error) {
+        const res = await fetch(target.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'TrustCheck-Webhooks/1.0',
+            'X-TrustCheck-Event': delivery.eventType,
+            'X-TrustCheck-Delivery': String(delivery.id),
+            [SIGNATURE_HEADER]: signWebhookPayload(
+              target.secret,
+              body,
+              timestamp,
+            ),
+          },
+          body,
+          // Przekierowanie ominęłoby kontrolę adresu - 3xx liczymy jako błąd
+          redirect: target.userSupplied ? 'manual' : 'follow',
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        statusCode = res.status;
+        if (!res.ok) error = `HTTP ${res.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (!error) {
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status: DeliveryStatus.DELIVERED,
+          attempts,
+          lastStatusCode: statusCode,
+          lastError: null,
+          deliveredAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    const dead = attempts >= MAX_DELIVERY_ATTEMPTS;
+    await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: dead ? DeliveryStatus.DEAD : DeliveryStatus.PENDING,
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: error.slice(0, 500),
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+      },
+    });
+    if (dead) {
+      this.logger.warn(
+        `Webhook ${delivery.id} (${delivery.eventType}) -> ${target.url}: ${attempts} nieudanych prób, przeniesiony do DEAD`,
+      );
+    }
+  }
+
+  private targetOf(delivery: {
+    subscription: { url: string; secret: string } | null;
+    watchlistEntry: {
+      webhookUrl: string | null;
+      webhookSecret: string | null;
+    } | null;
+  }) {
+    if (delivery.subscription) {
+      const { url, secret } = delivery.subscription;
+      return { url, secret, userSupplied: false };
+    }
+    const entry = delivery.watchlistEntry;
+    if (!entry?.webhookUrl || !entry.webhookSecret) return null;
+    return {
+      url: entry.webhookUrl,
+      secret: entry.webhookSecret,
+      userSupplied: true,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook-signature';
+
+describe('webhook-signature', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ type: 'report.approved', data: { id: 1 } });
+  const now = new Date('2026-03-12T10:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  it('should produce a verifiable t=...,v1=... header', () => {
+    const header = signWebhookPayload(secret, body, timestamp);
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, body, header, 300, now)).toBe(true);
+  });
+
+  it('should reject a modified body or a wrong secret', () => {
+    const header = signWebhookPayload(secret, body, timestamp);
+    expect(
+      verifyWebhookSignature(secret, body.replace('1', '2'), header, 300, now),
+    ).toBe(false);
+    expect(verifyWebhookSignature('other', body, header, 300, now)).toBe(false);
+  });
+
+  it('should reject signatures outside the tolerance window', () => {
+    const header = signWebhookPayload(secret, body, timestamp - 301);
+    expect(verifyWebhookSignature(secret, body, header, 300, now)).toBe(false);
+  });
+
+  it('should reject malformed headers', () => {
+    expect(verifyWebhookSignature(secret, body, 'garbage', 300, now)).toBe(
+      false,
+    );
+  });
+});
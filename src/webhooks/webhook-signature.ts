@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Nagłówek X-TrustCheck-Signature: "t=<unix>,v1=<hex>", gdzie
+// v1 = HMAC-SHA256(sekret subskrypcji, "<t>.<surowe body>").
+// Znacznik czasu w podpisie chroni odbiorcę przed powtórzeniem starego żądania.
+export const SIGNATURE_HEADER = 'X-TrustCheck-Signature';
+
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number, // Unix timestamp (sekundy)
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// Weryfikacja po stronie odbiorcy (i w lokalnym odbiorniku testowym)
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now = new Date(),
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.trim().split('=', 2)),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(secret, body, timestamp).split('v1=')[1],
+    'hex',
+  );
+  const given = Buffer.from(parts.v1, 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
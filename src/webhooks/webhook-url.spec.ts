@@ -0,0 +1,49 @@
+import { checkPublicWebhookUrl, isPrivateAddress } from './webhook-url';
+
+describe('isPrivateAddress', () => {
+  it('should block loopback, private and link-local ranges', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('2a00:1450:4001:82a::200e')).toBe(false);
+  });
+
+  it('should treat anything that is not an IP as blocked', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('checkPublicWebhookUrl', () => {
+  it('should reject private IP literals without a DNS lookup', async () => {
+    expect(await checkPublicWebhookUrl('https://127.0.0.1/hook')).toMatch(
+      /prywatny/,
+    );
+    expect(await checkPublicWebhookUrl('https://[::1]:8443/hook')).toMatch(
+      /prywatny/,
+    );
+  });
+
+  it('should reject plain http', async () => {
+    expect(await checkPublicWebhookUrl('http://8.8.8.8/hook')).toMatch(/https/);
+  });
+
+  it('should accept a public IP literal', async () => {
+    expect(await checkPublicWebhookUrl('https://8.8.8.8/hook')).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Adresy, na które nie wysyłamy webhooków podanych przez użytkowników:
+// pętla zwrotna, sieci prywatne, link-local (m.in. metadane chmury) i zarezerwowane
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // ::ffff:10.0.0.1 to w praktyce adres IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (!family) return true;
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Sprawdza wszystkie adresy, na które rozwiązuje się host - wystarczy jeden
+// prywatny, żeby odrzucić URL. Zwraca powód odrzucenia albo null.
+export async function checkPublicWebhookUrl(
+  url: string,
+): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Niepoprawny adres URL';
+  }
+  if (parsed.protocol !== 'https:') return 'Dozwolone są tylko adresy https';
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return `Nie można rozwiązać hosta ${host}`;
+  }
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    return `Host ${host} wskazuje na adres prywatny lub lokalny`;
+  }
+  return null;
+}
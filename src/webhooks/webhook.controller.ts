@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequirePermissions } from '../auth/roles.decorator';
+import { Permission } from '../auth/roles';
+import { CurrentActor } from '../audit/current-actor.decorator';
+import type { AuditActor } from '../audit/audit-log';
+import { WebhookService } from './webhook.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { DeliveriesQueryDto } from './dto/deliveries-query.dto';
+
+@Controller('webhooks')
+@RequirePermissions(Permission.MANAGE_WEBHOOKS)
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Get()
+  list() {
+    return this.webhookService.list();
+  }
+
+  // Odpowiedź zawiera sekret do weryfikacji podpisów - później już go nie pokazujemy
+  @Post()
+  create(@Body() body: CreateWebhookDto, @CurrentActor() actor: AuditActor) {
+    return this.webhookService.create(body, actor);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateWebhookDto,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.webhookService.update(id, body, actor);
+  }
+
+  @Delete(':id')
+  remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.webhookService.remove(id, actor);
+  }
+
+  @Post(':id/rotate-secret')
+  rotateSecret(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentActor() actor: AuditActor,
+  ) {
+    return this.webhookService.rotateSecret(id, actor);
+  }
+
+  // Zdarzenie "webhook.ping" - sprawdzenie adresu i weryfikacji podpisu u partnera
+  @Post(':id/ping')
+  ping(@Param('id', ParseIntPipe) id: number) {
+    return this.webhookService.ping(id);
+  }
+
+  // /webhooks/3/deliveries?status=DEAD
+  @Get(':id/deliveries')
+  getDeliveries(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: DeliveriesQueryDto,
+  ) {
+    return this.webhookService.getDeliveries(id, query);
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  redeliver(@Param('deliveryId', ParseIntPipe) deliveryId: number) {
+    return this.webhookService.redeliver(deliveryId);
+  }
+}
@@ -0,0 +1,48 @@
+import { WebhookService } from './webhook.service';
+import { WebhookEvent } from './webhooks';
+
+describe('WebhookService', () => {
+  let prisma: any;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    prisma = {
+      webhookSubscription: {
+        findMany: jest.fn().mockResolvedValue([{ id: 1 }]),
+      },
+      webhookDelivery: { createMany: jest.fn() },
+    };
+    service = new WebhookService(prisma, {} as any);
+  });
+
+  it('should send only metadata of an unmoderated report', async () => {
+    const createdAt = new Date('2026-03-29T10:00:00Z');
+
+    await service.reportCreated({
+      id: 7,
+      status: 'PENDING',
+      userId: 3,
+      ipAddress: '127.0.0.1',
+      rating: 1,
+      reason: 'Oszustwo',
+      comment: 'Nie wysłał towaru',
+      phoneNumber: '+48500600700',
+      personId: 12,
+      scammerName: 'Jan Kowalski',
+      createdAt,
+    });
+
+    expect(prisma.webhookSubscription.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { active: true, events: { has: WebhookEvent.REPORT_CREATED } },
+      }),
+    );
+    const [{ data }] = prisma.webhookDelivery.createMany.mock.calls[0];
+    expect(data[0].payload.data).toEqual({
+      id: 7,
+      status: 'PENDING',
+      targetType: 'PERSON',
+      createdAt,
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditActor, AuditEntity } from '../audit/audit-log';
+import {
+  ListConfig,
+  parseListQuery,
+  toPage,
+} from '../common/pagination/cursor-pagination';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { DeliveriesQueryDto } from './dto/deliveries-query.dto';
+import { generateWebhookSecret } from './webhook-signature';
+import {
+  DeliveryStatus,
+  PING_EVENT,
+  WATCHLIST_EVENT,
+  WebhookEvent,
+} from './webhooks';
+
+// Sekret nigdy nie wraca w listach - tylko przy utworzeniu i rotacji
+const subscriptionSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+const DELIVERY_LIST: ListConfig = {
+  sortFields: ['id'],
+  defaultSort: '-id',
+  idField: 'id',
+};
+
+// Pola subskrypcji widoczne w dzienniku zmian
+const auditedFields = (subscription: any) => ({
+  url: subscription.url,
+  events: subscription.events,
+  description: subscription.description,
+  active: subscription.active,
+});
+
+// Zgłoszenie w zdarzeniu - bez autora i IP
+const reportEventData = (report: any) => ({
+  id: report.id,
+  status: report.status,
+  rating: report.rating,
+  reason: report.reason,
+  companyNip: report.companyNip ?? null,
+  phoneNumber: report.phoneNumber ?? null,
+  personId: report.personId ?? null,
+  bankAccountNumber: report.bankAccountNumber ?? null,
+  createdAt: report.createdAt,
+});
+
+// Niezmoderowane zgłoszenie - bez celu, oceny i opisu (te dopiero w report.approved)
+const redactedReportEventData = (report: any) => ({
+  id: report.id,
+  status: report.status,
+  targetType: report.companyNip ? 'COMPANY' : 'PERSON',
+  createdAt: report.createdAt,
+});
+
+export interface RiskSnapshot {
+  trustScore: number;
+  riskLevel: string;
+}
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // === ZDARZENIA ===
+
+  async reportCreated(report: any) {
+    await this.emit(
+      WebhookEvent.REPORT_CREATED,
+      redactedReportEventData(report),
+    );
+  }
+
+  async reportApproved(report: any) {
+    await this.emit(WebhookEvent.REPORT_APPROVED, reportEventData(report));
+  }
+
+  // Zmiana poziomu ryzyka firmy lub osoby (sama zmiana punktów nie wystarcza)
+  async riskChanged(
+    entityType: 'COMPANY' | 'PERSON',
+    entityId: string | number,
+    before: RiskSnapshot,
+    after: RiskSnapshot,
+  ) {
+    if (before.riskLevel === after.riskLevel) return;
+    await this.emit(WebhookEvent.ENTITY_RISK_CHANGED, {
+      entityType,
+      entityId: String(entityId),
+      from: { trustScore: before.trustScore, riskLevel: before.riskLevel },
+      to: { trustScore: after.trustScore, riskLevel: after.riskLevel },
+    });
+  }
+
+  // Zdarzenie trafia do kolejki każdej aktywnej subskrypcji; wysyła je WebhookDispatcher.
+  // Błąd zapisu kolejki nie może wycofać zgłoszenia ani moderacji - tylko go logujemy.
+  async emit(type: WebhookEvent, data: Record<string, unknown>) {
+    try {
+      const subscriptions = await this.prisma.webhookSubscription.findMany({
+        where: { active: true, events: { has: type } },
+        select: { id: true },
+      });
+      if (!subscriptions.length) return;
+
+      const payload = this.envelope(type, data);
+      await this.prisma.webhookDelivery.createMany({
+        data: subscriptions.map((s) => ({
+          subscriptionId: s.id,
+          eventId: payload.id,
+          eventType: type,
+          payload,
+        })),
+      });
+    } catch (err) {
+      this.logger.error(`Nie udało się zakolejkować zdarzenia ${type}: ${err}`);
+    }
+  }
+
+  // Powiadomienia z listy obserwowanych idą tą samą kolejką co zdarzenia partnerów -
+  // z podpisem, ponowieniami i kontrolą adresu przed każdą próbą (WebhookDispatcher)
+  async enqueueWatchlist(entryIds: number[], data: Record<string, unknown>) {
+    if (!entryIds.length) return;
+    const payload = this.envelope(WATCHLIST_EVENT, data);
+    await this.prisma.webhookDelivery.createMany({
+      data: entryIds.map((watchlistEntryId) => ({
+        watchlistEntryId,
+        eventId: payload.id,
+        eventType: WATCHLIST_EVENT,
+        payload,
+      })),
+    });
+  }
+
+  // === SUBSKRYPCJE ===
+
+  list() {
+    return this.prisma.webhookSubscription.findMany({
+      select: {
+        ...subscriptionSelect,
+        _count: { select: { deliveries: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async create(dto: CreateWebhookDto, actor: AuditActor) {
+    const created = await this.prisma.webhookSubscription.create({
+      data: {
+        url: dto.url,
+        events: [...new Set(dto.events)],
+        description: dto.description,
+        secret: generateWebhookSecret(),
+        createdById: actor.userId,
+      },
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.WEBHOOK_CREATE,
+      entityType: AuditEntity.WEBHOOK,
+      entityId: created.id,
+      after: auditedFields(created),
+    });
+    return created;
+  }
+
+  async update(id: number, dto: UpdateWebhookDto, actor: AuditActor) {
+    const before = await this.findSubscription(id);
+    const updated = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        url: dto.url,
+        events: dto.events ? [...new Set(dto.events)] : undefined,
+        description: dto.description,
+        active: dto.active,
+      },
+      select: subscriptionSelect,
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.WEBHOOK_UPDATE,
+      entityType: AuditEntity.WEBHOOK,
+      entityId: id,
+      before: auditedFields(before),
+      after: auditedFields(updated),
+    });
+    return updated;
+  }
+
+  async remove(id: number, actor: AuditActor) {
+    const before = await this.findSubscription(id);
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+    await this.auditService.record(actor, {
+      action: AuditAction.WEBHOOK_DELETE,
+      entityType: AuditEntity.WEBHOOK,
+      entityId: id,
+      before: auditedFields(before),
+    });
+    return { removed: true };
+  }
+
+  // Stary sekret przestaje działać od razu - partner musi podmienić go u siebie
+  async rotateSecret(id: number, actor: AuditActor) {
+    await this.findSubscription(id);
+    const updated = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: { secret: generateWebhookSecret() },
+      select: { ...subscriptionSelect, secret: true },
+    });
+    await this.auditService.record(actor, {
+      action: AuditAction.WEBHOOK_SECRET_ROTATE,
+      entityType: AuditEntity.WEBHOOK,
+      entityId: id,
+      changes: { secret: { from: '[ukryty]', to: '[nowy]' } },
+    });
+    return updated;
+  }
+
+  // Zdarzenie testowe tylko do tej subskrypcji (także nieaktywnej)
+  async ping(id: number) {
+    await this.findSubscription(id);
+    const payload = this.envelope(PING_EVENT, { subscriptionId: id });
+    return this.prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: id,
+        eventId: payload.id,
+        eventType: PING_EVENT,
+        payload,
+      },
+    });
+  }
+
+  // === DOSTAWY ===
+
+  async getDeliveries(subscriptionId: number, query: DeliveriesQueryDto) {
+    await this.findSubscription(subscriptionId);
+    const list = parseListQuery(query, DELIVERY_LIST);
+    const where = { subscriptionId, status: query.status };
+
+    const [total, rows] = await this.prisma.$transaction([
+      this.prisma.webhookDelivery.count({ where }),
+      this.prisma.webhookDelivery.findMany({
+        where: { AND: [where, list.cursorWhere] },
+        orderBy: list.orderBy,
+        take: list.take + 1,
+      }),
+    ]);
+    return toPage(rows, total, list);
+  }
+
+  // Ponowienie (np. po naprawie odbiornika) - pełna pula prób od nowa
+  async redeliver(deliveryId: number) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+    });
+    if (!delivery) throw new NotFoundException('Dostawa nie istnieje');
+
+    return this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: DeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+      },
+    });
+  }
+
+  private envelope(type: string, data: Record<string, unknown>) {
+    return {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  private async findSubscription(id: number) {
+    const subscription = await this.prisma.webhookSubscription.findUnique({
+      where: { id },
+    });
+    if (!subscription) {
+      throw new NotFoundException('Subskrypcja webhooka nie istnieje');
+    }
+    return subscription;
+  }
+}
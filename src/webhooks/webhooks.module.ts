@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WebhookController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+
+@Module({
+  controllers: [WebhookController],
+  providers: [WebhookService, WebhookDispatcher],
+  exports: [WebhookService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,19 @@
+import { retryDelayMs } from './webhooks';
+
+describe('retryDelayMs', () => {
+  const noJitter = () => 0;
+
+  it('should double the delay after each failed attempt', () => {
+    expect(retryDelayMs(1, noJitter)).toBe(30_000);
+    expect(retryDelayMs(2, noJitter)).toBe(60_000);
+    expect(retryDelayMs(5, noJitter)).toBe(480_000);
+  });
+
+  it('should cap the delay at six hours', () => {
+    expect(retryDelayMs(20, noJitter)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it('should add at most 10% jitter', () => {
+    expect(retryDelayMs(1, () => 1)).toBe(33_000);
+  });
+});
@@ -0,0 +1,42 @@
+// Zdarzenia, które partner może zasubskrybować. Treść zgłoszenia wychodzi na zewnątrz
+// dopiero po zatwierdzeniu - report.created niesie tylko metadane (bez celu i opisu).
+export const WebhookEvent = {
+  REPORT_CREATED: 'report.created',
+  REPORT_APPROVED: 'report.approved',
+  ENTITY_RISK_CHANGED: 'entity.risk_changed',
+} as const;
+
+export type WebhookEvent = (typeof WebhookEvent)[keyof typeof WebhookEvent];
+
+export const WEBHOOK_EVENTS = Object.values(WebhookEvent);
+
+// Wysyłane tylko na żądanie (POST /webhooks/:id/ping), nie da się go subskrybować
+export const PING_EVENT = 'webhook.ping';
+
+// Powiadomienie z listy obserwowanych na webhookUrl użytkownika (poza subskrypcjami partnerów)
+export const WATCHLIST_EVENT = 'watchlist.notification';
+
+// Cykl życia pojedynczej dostawy (kolumna WebhookDelivery.status)
+export const DeliveryStatus = {
+  PENDING: 'PENDING', // czeka na (kolejną) próbę
+  DELIVERED: 'DELIVERED', // odbiorca odpowiedział 2xx
+  DEAD: 'DEAD', // wyczerpane próby - tylko ręczne ponowienie
+} as const;
+
+export type DeliveryStatus =
+  (typeof DeliveryStatus)[keyof typeof DeliveryStatus];
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Wykładniczy backoff: 30 s, 1 min, 2 min, 4 min... (maks. 6 h), z losowym
+// rozrzutem do 10%, żeby wiele zaległych dostaw nie uderzało naraz
+export function retryDelayMs(attempt: number, random = Math.random): number {
+  const delay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+  return Math.round(delay * (1 + random() * 0.1));
+}